@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Briefcase, Check, Pencil, Plus, Trash2 } from 'lucide-react';
+import { JobApplication, Language } from '../types';
+
+interface ApplicationBarProps {
+  lang: Language;
+  applications: JobApplication[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * Tabs for the job applications attached to the master profile.
+ * Switching tabs only swaps the JD-specific state; the profile is untouched.
+ */
+export const ApplicationBar = ({ lang, applications, activeId, onSelect, onCreate, onRename, onDelete }: ApplicationBarProps) => {
+  const zh = lang === 'zh';
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) onRename(editingId, draftTitle.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6 max-w-6xl mx-auto no-print">
+      <span className="flex items-center gap-1.5 text-xs font-black text-gray-400 uppercase tracking-widest mr-2">
+        <Briefcase size={14} />
+        {zh ? '求职申请' : 'Applications'}
+      </span>
+      {applications.map(app => {
+        const active = app.id === activeId;
+        return (
+          <div
+            key={app.id}
+            className={`flex items-center gap-1 pl-3 pr-1 py-1 rounded-full border text-sm transition-colors ${
+              active ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {editingId === app.id ? (
+              <>
+                <input
+                  autoFocus
+                  className="w-36 bg-transparent outline-none font-bold"
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  onBlur={commitRename}
+                />
+                <button onClick={commitRename} className="p-1 rounded-full hover:bg-white/20">
+                  <Check size={14} />
+                </button>
+              </>
+            ) : (
+              <>
+                <button onClick={() => onSelect(app.id)} className="font-bold max-w-[180px] truncate pr-1">
+                  {app.title}
+                </button>
+                {active && (
+                  <>
+                    <button
+                      onClick={() => { setEditingId(app.id); setDraftTitle(app.title); }}
+                      className="p-1 rounded-full hover:bg-white/20"
+                      title={zh ? '重命名' : 'Rename'}
+                    >
+                      <Pencil size={12} />
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (confirm(zh ? `删除「${app.title}」？` : `Delete "${app.title}"?`)) onDelete(app.id);
+                      }}
+                      className="p-1 rounded-full hover:bg-white/20"
+                      title={zh ? '删除' : 'Delete'}
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        );
+      })}
+      <button
+        onClick={onCreate}
+        className="flex items-center gap-1 px-3 py-1.5 rounded-full border border-dashed border-gray-300 text-sm text-gray-500 hover:border-blue-600 hover:text-blue-600 transition-colors"
+      >
+        <Plus size={14} />
+        {zh ? '新申请' : 'New'}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React from 'react';
+import { ScanSearch } from 'lucide-react';
+import { Language } from '../types';
+import { AtsKeyword, AtsReport } from '../lib/ats';
+import { KeywordCategory } from '../lib/atsLexicon';
+
+interface AtsPanelProps {
+  lang: Language;
+  report: AtsReport;
+  // What the JD is checked against, e.g. "your profile" or "this draft".
+  subject: string;
+  // The model's Fit Check score, shown for comparison where the score ring is not on screen.
+  aiScore?: number;
+}
+
+const CATEGORY_LABELS: Record<KeywordCategory, { en: string; zh: string }> = {
+  skill: { en: 'Skill', zh: '技能' },
+  tool: { en: 'Tool', zh: '工具' },
+  certification: { en: 'Certification', zh: '证书' },
+  seniority: { en: 'Seniority', zh: '职级' },
+};
+
+const Chips = ({ lang, keywords, tone }: { lang: Language; keywords: AtsKeyword[]; tone: 'green' | 'red' }) => (
+  <div className="flex flex-wrap gap-1.5">
+    {keywords.map(k => (
+      <span
+        key={`${k.category}:${k.term}`}
+        title={`${CATEGORY_LABELS[k.category][lang]}${k.mentions > 1 ? ` × ${k.mentions}` : ''}`}
+        className={`px-2 py-0.5 rounded-md text-xs font-semibold border ${
+          tone === 'green' ? 'bg-green-50 text-green-800 border-green-200' : 'bg-red-50 text-red-800 border-red-200'
+        }`}
+      >
+        {k.term}
+      </span>
+    ))}
+  </div>
+);
+
+/**
+ * Keyword coverage from the local analyzer: a deterministic counterpart to the
+ * model's Fit Check score, recomputed on every edit.
+ */
+export const AtsPanel = ({ lang, report, subject, aiScore }: AtsPanelProps) => {
+  const zh = lang === 'zh';
+  const { coverage, matched, missing } = report;
+
+  return (
+    <div className="p-5 bg-white rounded-2xl border border-gray-100 shadow-sm text-sm no-print">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <h4 className="flex items-center gap-2 font-black text-gray-900 text-xs uppercase tracking-widest">
+          <ScanSearch size={16} className="text-blue-600" />
+          {zh ? 'ATS 关键词覆盖' : 'ATS Keyword Coverage'}
+        </h4>
+        <div className="flex items-baseline gap-3">
+          {aiScore !== undefined && (
+            <span className="text-xs font-bold text-gray-400" title={zh ? 'AI 匹配度评分' : 'AI Fit Check score'}>
+              AI {aiScore}
+            </span>
+          )}
+          {coverage !== null && (
+            <span className={`text-lg font-extrabold ${
+              coverage >= 75 ? 'text-green-600' : coverage >= 50 ? 'text-orange-500' : 'text-red-600'
+            }`}>
+              {coverage}%
+            </span>
+          )}
+        </div>
+      </div>
+
+      {coverage === null ? (
+        <p className="text-xs text-gray-500">
+          {zh ? '未能从职位描述中识别出技能、工具或证书关键词。' : 'No skill, tool or certification keywords found in the job description.'}
+        </p>
+      ) : (
+        <>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden mb-2">
+            <div className="h-full bg-blue-600 transition-all duration-500" style={{ width: `${coverage}%` }} />
+          </div>
+          <p className="text-xs text-gray-500 mb-4">
+            {zh
+              ? `${subject}覆盖了 JD 中 ${matched.length}/${matched.length + missing.length} 个关键词（本地计算，不经过 AI）`
+              : `${subject} covers ${matched.length} of ${matched.length + missing.length} JD keywords (computed locally, no AI)`}
+          </p>
+          {missing.length > 0 && (
+            <div className="mb-3">
+              <p className="text-[10px] font-black text-red-700 uppercase tracking-widest mb-1.5">
+                {zh ? `缺失 (${missing.length})` : `Missing (${missing.length})`}
+              </p>
+              <Chips lang={lang} keywords={missing} tone="red" />
+            </div>
+          )}
+          {matched.length > 0 && (
+            <div>
+              <p className="text-[10px] font-black text-green-700 uppercase tracking-widest mb-1.5">
+                {zh ? `已覆盖 (${matched.length})` : `Matched (${matched.length})`}
+              </p>
+              <Chips lang={lang} keywords={matched} tone="green" />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowRight, Layers, Loader2, Play, Plus, Square, Trash2, Upload, X } from 'lucide-react';
+import { Language } from '../types';
+import { BatchPosting } from '../lib/batch';
+
+interface BatchFitCheckProps {
+  lang: Language;
+  postings: BatchPosting[];
+  running: boolean;
+  onAdd: (text: string) => void;
+  onAddFiles: (files: File[]) => void;
+  onRemove: (id: string) => void;
+  onRun: () => void;
+  onCancel: () => void;
+  // Turns the posting into an application and drafts its resume.
+  onOpen: (posting: BatchPosting) => void;
+  onClose: () => void;
+}
+
+type SortKey = 'title' | 'score' | 'coverage';
+
+const COLUMNS: { id: SortKey; label: { en: string; zh: string } }[] = [
+  { id: 'title', label: { en: 'Posting', zh: '职位' } },
+  { id: 'score', label: { en: 'Fit score', zh: '匹配分' } },
+  { id: 'coverage', label: { en: 'ATS coverage', zh: 'ATS 覆盖率' } },
+];
+
+// Postings without a value sort last in either direction.
+const sortValue = (p: BatchPosting, key: SortKey): string | number | null =>
+  key === 'title' ? p.title.toLowerCase() : key === 'score' ? p.analysis?.score ?? null : p.coverage;
+
+const scoreClass = (score: number) =>
+  score > 75 ? 'bg-green-100 text-green-700' : score > 50 ? 'bg-orange-100 text-orange-700' : 'bg-red-100 text-red-700';
+
+/** Fit Checks for many postings at once, ranked in a sortable table. */
+export const BatchFitCheck = ({
+  lang, postings, running, onAdd, onAddFiles, onRemove, onRun, onCancel, onOpen, onClose
+}: BatchFitCheckProps) => {
+  const zh = lang === 'zh';
+  const [text, setText] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'score', desc: true });
+
+  const sorted = [...postings].sort((a, b) => {
+    const x = sortValue(a, sort.key);
+    const y = sortValue(b, sort.key);
+    if (x === null || y === null) return x === null ? (y === null ? 0 : 1) : -1;
+    const order = x < y ? -1 : x > y ? 1 : 0;
+    return sort.desc ? -order : order;
+  });
+  const waiting = postings.filter(p => p.status === 'pending' || p.status === 'error').length;
+
+  const toggleSort = (key: SortKey) =>
+    setSort(prev => (prev.key === key ? { key, desc: !prev.desc } : { key, desc: key !== 'title' }));
+
+  const add = () => {
+    if (!text.trim()) return;
+    onAdd(text);
+    setText('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-[90] flex justify-end no-print" onClick={onClose}>
+      <div className="w-full max-w-5xl h-full bg-white shadow-2xl p-6 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-5">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <Layers size={20} />
+            {zh ? '批量匹配检查' : 'Batch Fit Check'}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-3 mb-5">
+          <textarea
+            className="flex-1 h-28 p-3 text-sm rounded-xl border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={zh
+              ? '粘贴多个 JD，用单独一行 --- 分隔；也可以每行粘贴一个职位链接'
+              : 'Paste several JDs separated by a line with ---, or one job link per line'}
+          />
+          <div className="flex md:flex-col gap-2">
+            <button
+              disabled={!text.trim()}
+              onClick={add}
+              className="flex items-center justify-center gap-1.5 px-4 py-2 rounded-xl bg-gray-900 text-white text-xs font-bold hover:bg-gray-800 disabled:opacity-50"
+            >
+              <Plus size={14} />
+              {zh ? '添加' : 'Add'}
+            </button>
+            <label className="flex items-center justify-center gap-1.5 px-4 py-2 rounded-xl border border-gray-200 text-xs font-bold text-gray-600 cursor-pointer hover:bg-gray-50">
+              <Upload size={14} />
+              {zh ? '导入文件' : 'Import files'}
+              <input
+                type="file"
+                multiple
+                className="hidden"
+                accept=".html,.htm,.pdf,.txt,image/png,image/jpeg,image/webp"
+                onChange={(e) => {
+                  const files = Array.from<File>(e.target.files ?? []);
+                  e.target.value = '';
+                  if (files.length) onAddFiles(files);
+                }}
+              />
+            </label>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto rounded-xl border border-gray-100">
+          {postings.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-16">{zh ? '还没有添加职位' : 'No postings added yet'}</p>
+          ) : (
+            <table className="w-full text-left text-sm">
+              <thead className="sticky top-0 bg-gray-50 border-b border-gray-100">
+                <tr>
+                  <th className="p-3 w-10 text-gray-400 font-bold">#</th>
+                  {COLUMNS.map(c => (
+                    <th key={c.id} className="p-3">
+                      <button onClick={() => toggleSort(c.id)} className="flex items-center gap-1 font-bold text-gray-600 hover:text-gray-900">
+                        {c.label[lang]}
+                        {sort.key === c.id && (sort.desc ? <ArrowDown size={12} /> : <ArrowUp size={12} />)}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="p-3 font-bold text-gray-600">{zh ? '结论' : 'Conclusion'}</th>
+                  <th className="p-3 font-bold text-gray-600">{zh ? '主要差距' : 'Top gaps'}</th>
+                  <th className="p-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {sorted.map((p, i) => (
+                  <tr key={p.id} className="align-top hover:bg-blue-50/30">
+                    <td className="p-3 text-gray-400 font-bold">{i + 1}</td>
+                    <td className="p-3 font-semibold text-gray-900 max-w-[14rem] break-words">{p.title || (zh ? '未命名职位' : 'Untitled posting')}</td>
+                    <td className="p-3">
+                      {p.status === 'running' && <Loader2 size={16} className="animate-spin text-blue-600" />}
+                      {p.status === 'error' && <span className="text-xs text-red-600" title={p.error}>{zh ? '失败' : 'Failed'}</span>}
+                      {p.status === 'pending' && <span className="text-xs text-gray-400">{zh ? '等待中' : 'Waiting'}</span>}
+                      {p.analysis && (
+                        <span className={`px-2 py-1 rounded-lg text-xs font-black ${scoreClass(p.analysis.score)}`}>{p.analysis.score}</span>
+                      )}
+                    </td>
+                    <td className="p-3 text-gray-700 font-semibold">{p.coverage === null ? '—' : `${p.coverage}%`}</td>
+                    <td className="p-3 text-xs font-bold text-gray-600">{p.analysis?.conclusion ?? ''}</td>
+                    <td className="p-3 text-xs text-gray-600 max-w-[18rem]">
+                      {p.status === 'error'
+                        ? <span className="text-red-600">{p.error}</span>
+                        : (p.analysis?.cons ?? []).slice(0, 2).map((c, j) => <p key={j}>• {c}</p>)}
+                    </td>
+                    <td className="p-3">
+                      <div className="flex items-center gap-1 justify-end">
+                        <button
+                          disabled={!p.analysis || running}
+                          onClick={() => onOpen(p)}
+                          className="flex items-center gap-1 px-2.5 py-1 rounded-lg bg-blue-600 text-white text-[11px] font-bold hover:bg-blue-700 disabled:opacity-30 whitespace-nowrap"
+                        >
+                          {zh ? '生成初稿' : 'Draft'}
+                          <ArrowRight size={12} />
+                        </button>
+                        <button
+                          disabled={p.status === 'running'}
+                          onClick={() => onRemove(p.id)}
+                          className="p-1.5 rounded-lg text-gray-400 hover:bg-red-50 hover:text-red-600 disabled:opacity-30"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex justify-end mt-5">
+          {running ? (
+            <button
+              onClick={onCancel}
+              className="flex items-center gap-2 px-6 py-3 border border-gray-200 text-gray-600 rounded-xl font-bold hover:bg-gray-50 text-sm"
+            >
+              <Square size={14} />
+              {zh ? '停止' : 'Stop'}
+            </button>
+          ) : (
+            <button
+              disabled={!waiting}
+              onClick={onRun}
+              className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 disabled:opacity-50 text-sm"
+            >
+              <Play size={14} />
+              {zh ? `运行匹配检查（${waiting}）` : `Run Fit Check (${waiting})`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Check, ShieldAlert, Trash2, X } from 'lucide-react';
+import { Language } from '../types';
+import { ResumeClaim } from '../lib/claims';
+
+// Unsupported claims by anchor line, with what the user can do about each one.
+export interface ClaimFlags {
+  lang: Language;
+  byAnchor: Map<number, ResumeClaim[]>;
+  onRemove: (claim: ResumeClaim) => void;
+  onConfirm: (claim: ResumeClaim) => void;
+}
+
+export const groupFlags = (claims: ResumeClaim[]): Map<number, ResumeClaim[]> => {
+  const byAnchor = new Map<number, ResumeClaim[]>();
+  for (const claim of claims) {
+    if (claim.unsupported.length) byAnchor.set(claim.anchor, [...(byAnchor.get(claim.anchor) ?? []), claim]);
+  }
+  return byAnchor;
+};
+
+/**
+ * Badge in the page margin next to a flagged block. It is absolutely positioned,
+ * so it never changes the layout the page-fit measurement sees.
+ */
+export const ClaimFlag = ({ claims, flags }: { claims: ResumeClaim[]; flags: ClaimFlags }) => {
+  const [open, setOpen] = useState(false);
+  const zh = flags.lang === 'zh';
+
+  return (
+    <span className="absolute top-0 no-print" style={{ left: '100%', marginLeft: '2mm', fontSize: '12px', lineHeight: 1.4 }}>
+      <button
+        onClick={() => setOpen(!open)}
+        title={zh ? '无法在你的资料中找到依据' : 'Not backed by your profile'}
+        className="flex items-center justify-center w-5 h-5 rounded-full bg-amber-400 text-white shadow hover:bg-amber-500"
+      >
+        <ShieldAlert size={12} />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-6 z-20 w-80 p-4 bg-white rounded-xl border border-amber-200 shadow-2xl text-left text-gray-800 font-sans">
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-[10px] font-black text-amber-700 uppercase tracking-widest">
+              {zh ? '无法溯源的内容' : 'Unsupported claim'}
+            </p>
+            <button onClick={() => setOpen(false)} className="text-gray-400 hover:text-gray-700">
+              <X size={14} />
+            </button>
+          </div>
+          <div className="space-y-4">
+            {claims.map(claim => (
+              <div key={`${claim.line}:${claim.raw}`} className="space-y-2">
+                <p className="font-semibold leading-snug">{claim.text}</p>
+                <div className="flex flex-wrap gap-1">
+                  {claim.unsupported.map(u => (
+                    <span key={`${u.kind}:${u.value}`} className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-900 text-[11px] font-bold">
+                      {u.kind === 'number' ? (zh ? '数字 ' : 'Number ') : (zh ? '技能 ' : 'Skill ')}{u.value}
+                    </span>
+                  ))}
+                </div>
+                <p className="text-[11px] text-gray-500">
+                  {claim.evidence
+                    ? <>{zh ? '最接近的原始资料：' : 'Closest source: '}<span className="italic">“{claim.evidence}”</span></>
+                    : (zh ? '经历档案和原始笔记中没有相近的句子。' : 'Nothing similar in your Experience Document or notes.')}
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => { flags.onRemove(claim); setOpen(false); }}
+                    className="flex items-center gap-1 px-2.5 py-1 rounded-lg border border-red-200 text-red-700 text-[11px] font-bold hover:bg-red-50"
+                  >
+                    <Trash2 size={12} />
+                    {zh ? '删除这句' : 'Remove claim'}
+                  </button>
+                  <button
+                    onClick={() => flags.onConfirm(claim)}
+                    className="flex items-center gap-1 px-2.5 py-1 rounded-lg border border-green-200 text-green-700 text-[11px] font-bold hover:bg-green-50"
+                  >
+                    <Check size={12} />
+                    {zh ? '属实，由我补充' : "It's true, I add this"}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </span>
+  );
+};
+
+// One-line count above the page, so flags below the fold are not missed.
+export const ClaimSummary = ({ lang, claims }: { lang: Language; claims: ResumeClaim[] }) => {
+  const flagged = claims.filter(c => c.unsupported.length).length;
+  if (!claims.length) return null;
+  const zh = lang === 'zh';
+  return (
+    <div className={`flex items-center gap-3 mb-4 p-4 rounded-xl border text-sm no-print ${
+      flagged ? 'border-amber-200 bg-amber-50 text-amber-900' : 'border-green-200 bg-green-50 text-green-900'
+    }`}>
+      {flagged
+        ? <ShieldAlert size={18} className="text-amber-500 flex-shrink-0" />
+        : <Check size={18} className="text-green-600 flex-shrink-0" />}
+      <p className="font-bold">
+        {flagged
+          ? (zh
+            ? `${flagged} 处内容无法在你的经历档案或原始笔记中找到依据，请查看页边的标记。`
+            : `${flagged} claim${flagged > 1 ? 's' : ''} could not be traced to your Experience Document or notes. Check the badges in the margin.`)
+          : (zh ? `全部 ${claims.length} 条内容都能在你的资料中找到依据。` : `All ${claims.length} claims trace back to your source material.`)}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { CoverLetterLength, CoverLetterTone, Language } from '../types';
+
+interface CoverLetterOptionsProps {
+  lang: Language;
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+  disabled?: boolean;
+  onChange: (patch: { tone?: CoverLetterTone; length?: CoverLetterLength }) => void;
+}
+
+const TONES: { id: CoverLetterTone; label: { en: string; zh: string } }[] = [
+  { id: 'formal', label: { en: 'Formal', zh: '正式' } },
+  { id: 'warm', label: { en: 'Warm', zh: '亲和' } },
+  { id: 'confident', label: { en: 'Confident', zh: '自信' } },
+];
+
+const LENGTHS: { id: CoverLetterLength; label: { en: string; zh: string } }[] = [
+  { id: 'short', label: { en: 'Short', zh: '简短' } },
+  { id: 'standard', label: { en: 'Standard', zh: '标准' } },
+  { id: 'detailed', label: { en: 'Detailed', zh: '详细' } },
+];
+
+const Choice = <T extends string>({ lang, title, options, value, disabled, onPick }: {
+  lang: Language;
+  title: string;
+  options: { id: T; label: { en: string; zh: string } }[];
+  value: T;
+  disabled?: boolean;
+  onPick: (id: T) => void;
+}) => (
+  <div>
+    <p className="text-[10px] font-black uppercase tracking-widest text-gray-400 mb-2">{title}</p>
+    <div className="inline-flex p-1 bg-gray-100 rounded-xl">
+      {options.map(o => (
+        <button
+          key={o.id}
+          disabled={disabled}
+          onClick={() => onPick(o.id)}
+          className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors disabled:opacity-50 ${
+            value === o.id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-800'
+          }`}
+        >
+          {o.label[lang]}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+/** Tone and length of the cover letter; both apply to the next generate or polish. */
+export const CoverLetterOptions = ({ lang, tone, length, disabled, onChange }: CoverLetterOptionsProps) => (
+  <div className="flex flex-wrap gap-6">
+    <Choice lang={lang} title={lang === 'zh' ? '语气' : 'Tone'} options={TONES} value={tone} disabled={disabled} onPick={(t) => onChange({ tone: t })} />
+    <Choice lang={lang} title={lang === 'zh' ? '篇幅' : 'Length'} options={LENGTHS} value={length} disabled={disabled} onPick={(l) => onChange({ length: l })} />
+  </div>
+);
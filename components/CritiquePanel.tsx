@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { AlertCircle, Ban, Loader2, MessageSquare, RotateCcw, Wand2 } from 'lucide-react';
+import { Critique, CritiqueResolution, Language } from '../types';
+
+interface CritiquePanelProps {
+  lang: Language;
+  critiques: Critique[];
+  resolutions: Record<string, CritiqueResolution>;
+  // Text of the critique whose fix is being generated.
+  fixing: string | null;
+  readOnly?: boolean;
+  onApply: (critique: Critique) => void;
+  onDismiss: (critique: Critique, reason: string) => void;
+  onAnswer: (critique: Critique, evidence: string) => void;
+  onReopen: (critique: Critique) => void;
+}
+
+const LEVELS: { id: Critique['level']; label: { en: string; zh: string }; badge: string }[] = [
+  { id: 'fatal', label: { en: 'Fatal', zh: '致命' }, badge: 'bg-red-600 text-white' },
+  { id: 'important', label: { en: 'Important', zh: '重要' }, badge: 'bg-orange-500 text-white' },
+  { id: 'minor', label: { en: 'Minor', zh: '微瑕' }, badge: 'bg-blue-600 text-white' },
+];
+
+const STATUS_LABELS: Record<CritiqueResolution['status'], { en: string; zh: string }> = {
+  applied: { en: 'Fixed', zh: '已修复' },
+  dismissed: { en: 'Dismissed', zh: '已忽略' },
+  answered: { en: 'Answered', zh: '已补充' },
+};
+
+/**
+ * The draft's critiques with an open-issue count per level. Each open critique can
+ * be fixed in place, dismissed with a reason, or answered with evidence.
+ */
+export const CritiquePanel = ({
+  lang, critiques, resolutions, fixing, readOnly, onApply, onDismiss, onAnswer, onReopen
+}: CritiquePanelProps) => {
+  const zh = lang === 'zh';
+  // The critique whose reason or evidence box is open, and what is typed in it.
+  const [composing, setComposing] = useState<{ text: string; mode: 'dismiss' | 'answer' } | null>(null);
+  const [note, setNote] = useState('');
+
+  const open = critiques.filter(c => !resolutions[c.text]);
+
+  const compose = (critique: Critique, mode: 'dismiss' | 'answer') => {
+    setComposing(composing?.text === critique.text && composing.mode === mode ? null : { text: critique.text, mode });
+    setNote('');
+  };
+
+  const submit = (critique: Critique) => {
+    if (!composing) return;
+    if (composing.mode === 'dismiss') onDismiss(critique, note.trim());
+    else if (note.trim()) onAnswer(critique, note.trim());
+    else return;
+    setComposing(null);
+    setNote('');
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-3 flex items-center gap-2">
+        <AlertCircle size={22} className="text-orange-500" />
+        {zh ? '专家级诊断' : 'Brutal Diagnosis'}
+      </h3>
+      <div className="flex gap-2 mb-5">
+        {LEVELS.map(level => {
+          const count = open.filter(c => c.level === level.id).length;
+          return (
+            <span
+              key={level.id}
+              className={`px-2 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest ${count ? level.badge : 'bg-gray-100 text-gray-400'}`}
+            >
+              {level.label[lang]} {count}
+            </span>
+          );
+        })}
+        <span className="ml-auto self-center text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+          {zh ? `${critiques.length - open.length}/${critiques.length} 已处理` : `${critiques.length - open.length}/${critiques.length} done`}
+        </span>
+      </div>
+
+      <div className="space-y-4">
+        {critiques.map((c, i) => {
+          const level = LEVELS.find(l => l.id === c.level)!;
+          const resolution = resolutions[c.text];
+          const isFixing = fixing === c.text;
+          return (
+            <div
+              key={i}
+              className={`p-4 rounded-xl border border-gray-100 text-sm relative transition-colors ${
+                resolution ? 'bg-gray-50/50 opacity-60' : 'bg-gray-50 hover:bg-white'
+              }`}
+            >
+              <span className={`absolute top-4 right-4 text-[9px] font-black uppercase px-2 py-0.5 rounded ${level.badge}`}>
+                {level.label[lang]}
+              </span>
+              <p className={`font-bold text-gray-900 mb-2 pr-12 leading-snug ${resolution ? 'line-through' : ''}`}>{c.text}</p>
+              <div className="p-2.5 bg-white rounded-lg border border-gray-100 text-xs text-blue-800 flex gap-2">
+                <span className="font-bold">FIX:</span>
+                <span>{c.suggestion}</span>
+              </div>
+
+              {resolution ? (
+                <div className="flex items-center gap-2 mt-3 text-xs text-gray-500">
+                  <span className="font-black uppercase tracking-widest text-[10px]">{STATUS_LABELS[resolution.status][lang]}</span>
+                  {resolution.note && <span className="italic truncate" title={resolution.note}>“{resolution.note}”</span>}
+                  <button onClick={() => onReopen(c)} className="ml-auto flex items-center gap-1 font-bold hover:text-gray-900">
+                    <RotateCcw size={12} />
+                    {zh ? '重新打开' : 'Reopen'}
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    <button
+                      disabled={readOnly || !!fixing}
+                      onClick={() => onApply(c)}
+                      className="flex items-center gap-1 px-2.5 py-1 rounded-lg bg-blue-600 text-white text-[11px] font-bold hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {isFixing ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+                      {zh ? '应用修改' : 'Apply fix'}
+                    </button>
+                    <button
+                      disabled={readOnly}
+                      onClick={() => compose(c, 'answer')}
+                      className="flex items-center gap-1 px-2.5 py-1 rounded-lg border border-gray-200 text-gray-700 text-[11px] font-bold hover:bg-white disabled:opacity-50"
+                    >
+                      <MessageSquare size={12} />
+                      {zh ? '补充证据' : 'Answer'}
+                    </button>
+                    <button
+                      disabled={readOnly}
+                      onClick={() => compose(c, 'dismiss')}
+                      className="flex items-center gap-1 px-2.5 py-1 rounded-lg border border-gray-200 text-gray-500 text-[11px] font-bold hover:bg-white disabled:opacity-50"
+                    >
+                      <Ban size={12} />
+                      {zh ? '忽略' : 'Dismiss'}
+                    </button>
+                  </div>
+                  {composing?.text === c.text && (
+                    <div className="mt-3 space-y-2">
+                      <textarea
+                        autoFocus
+                        className="w-full h-20 p-3 text-xs rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder={composing.mode === 'dismiss'
+                          ? (zh ? '为什么不适用？（可选，之后的迭代会记住）' : 'Why does this not apply? (optional, remembered in later iterations)')
+                          : (zh ? '提供这条诊断需要的证据，例如具体数字或项目' : 'The evidence this critique asks for, e.g. a number or a project')}
+                      />
+                      <button
+                        disabled={composing.mode === 'answer' && !note.trim()}
+                        onClick={() => submit(c)}
+                        className="w-full p-2 rounded-lg bg-gray-900 text-white text-[11px] font-black uppercase tracking-widest hover:bg-gray-800 disabled:opacity-50"
+                      >
+                        {composing.mode === 'dismiss'
+                          ? (zh ? '确认忽略' : 'Dismiss critique')
+                          : (zh ? '保存并应用修改' : 'Save & apply fix')}
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
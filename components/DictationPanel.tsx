@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Check, Download, Loader2, Mic, Pencil, RotateCcw, Trash2, X } from 'lucide-react';
+import { Language } from '../types';
+import { DictationSegment, formatElapsed } from '../lib/dictation';
+import { DictationStatus } from '../services/speech';
+import { downloadBlob } from '../services/export';
+
+interface DictationPanelProps {
+  lang: Language;
+  // When the running session began (epoch ms), or null when not recording.
+  startedAt: number | null;
+  status: DictationStatus;
+  level: number;
+  interim: string;
+  segments: DictationSegment[];
+  // The segment being re-recorded, if any.
+  retaking: string | null;
+  // The last dictation error code, e.g. a denied microphone or a failed transcription.
+  error: string | null;
+  onEdit: (segment: DictationSegment, text: string) => void;
+  onDelete: (segment: DictationSegment) => void;
+  onRetake: (segment: DictationSegment) => void;
+  onClear: () => void;
+  // Sends a segment's kept audio to the transcription backend again.
+  onRetranscribe: (segment: DictationSegment) => void;
+  retranscribing: string | null;
+  keepAudio: boolean;
+  // Only offered when dictation records audio (no Web Speech in this browser).
+  onKeepAudioChange?: (keep: boolean) => void;
+}
+
+const ERROR_TEXT: Record<string, { en: string; zh: string }> = {
+  'not-allowed': { en: 'Microphone access was denied. Allow it in the browser and try again.', zh: '麦克风权限被拒绝，请在浏览器中允许后重试。' },
+  'service-not-allowed': { en: 'The browser does not allow speech recognition on this page.', zh: '浏览器不允许此页面使用语音识别。' },
+  'audio-capture': { en: 'No microphone was found.', zh: '未检测到麦克风。' },
+  'language-not-supported': { en: 'Speech recognition does not support this language here.', zh: '当前浏览器的语音识别不支持该语言。' },
+  'transcription-failed': {
+    en: 'A recorded chunk could not be transcribed. Its audio is kept below; try again when the model or Whisper endpoint is reachable.',
+    zh: '有一段录音转写失败，音频已保留在下方，可在模型或 Whisper 服务可用时重试。',
+  },
+  network: { en: 'The speech service stayed unreachable, so dictation stopped. Your transcript is kept.', zh: '语音识别服务持续无法连接，已停止听写。已识别的内容已保留。' },
+  'not-supported': { en: 'This browser can neither recognize speech nor record audio.', zh: '当前浏览器既不支持语音识别，也不支持录音。' },
+};
+
+const STATUS_TEXT: Record<DictationStatus, { en: string; zh: string }> = {
+  listening: { en: 'Listening', zh: '聆听中' },
+  silent: { en: 'Waiting for speech', zh: '等待说话' },
+  reconnecting: { en: 'Reconnecting…', zh: '正在重连…' },
+  transcribing: { en: 'Transcribing…', zh: '正在转写…' },
+  stopped: { en: 'Stopped', zh: '已停止' },
+};
+
+const clockTime = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/** The live dictation: timer, input level and the transcript as segments that can be fixed one by one. */
+export const DictationPanel = ({
+  lang, startedAt, status, level, interim, segments, retaking, error, onEdit, onDelete, onRetake, onClear,
+  onRetranscribe, retranscribing, keepAudio, onKeepAudioChange
+}: DictationPanelProps) => {
+  const zh = lang === 'zh';
+  const [now, setNow] = useState(Date.now());
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+
+  useEffect(() => {
+    if (startedAt === null) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 500);
+    return () => window.clearInterval(timer);
+  }, [startedAt]);
+
+  const transcribing = startedAt === null && status === 'transcribing';
+  if (startedAt === null && !transcribing && !segments.length && !error && !onKeepAudioChange) return null;
+
+  const save = (segment: DictationSegment) => {
+    if (editing && editing.text.trim() !== segment.text) onEdit(segment, editing.text.trim());
+    setEditing(null);
+  };
+
+  return (
+    <div className="rounded-2xl border border-gray-100 bg-gray-50 p-3 space-y-2">
+      <div className="flex items-center gap-3 px-1">
+        <span className="text-[10px] font-black uppercase tracking-widest text-gray-400 flex-1">
+          {zh ? '语音记录' : 'Dictation'}
+        </span>
+        {startedAt !== null && (
+          <>
+            <span className="text-xs font-semibold text-gray-500">{STATUS_TEXT[status][lang]}</span>
+            <div className="w-20 h-1.5 rounded-full bg-gray-200 overflow-hidden" title={zh ? '输入音量' : 'Input level'}>
+              <div className="h-full bg-red-500 transition-all duration-100" style={{ width: `${Math.round(level * 100)}%` }} />
+            </div>
+            <span className="text-xs font-mono font-bold text-red-600 tabular-nums">{formatElapsed(now - startedAt)}</span>
+          </>
+        )}
+        {transcribing && (
+          <span className="flex items-center gap-1 text-xs font-semibold text-gray-500">
+            <Loader2 size={12} className="animate-spin" />
+            {STATUS_TEXT.transcribing[lang]}
+          </span>
+        )}
+        {startedAt === null && segments.length > 0 && (
+          <button onClick={onClear} className="p-1 rounded text-gray-400 hover:text-gray-700" title={zh ? '清空记录（笔记保留）' : 'Clear transcript (notes are kept)'}>
+            <X size={14} />
+          </button>
+        )}
+      </div>
+
+      {onKeepAudioChange && (
+        <label className="flex items-center gap-2 px-1 text-xs text-gray-500">
+          <input type="checkbox" checked={keepAudio} onChange={(e) => onKeepAudioChange(e.target.checked)} />
+          {zh ? '此浏览器通过录音转写；保留录音以便重新转写' : 'This browser dictates by recording; keep the audio to transcribe it again later'}
+        </label>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 px-2 py-1.5 rounded-lg bg-red-50 text-xs text-red-700">
+          <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+          {(ERROR_TEXT[error] ?? { en: `Speech recognition failed (${error}).`, zh: `语音识别出错（${error}）。` })[lang]}
+        </div>
+      )}
+
+      <ul className="max-h-56 overflow-y-auto space-y-1.5">
+        {segments.map(segment => (
+          <li
+            key={segment.id}
+            className={`flex items-start gap-2 px-2 py-1.5 rounded-lg bg-white text-xs ${retaking === segment.id ? 'ring-2 ring-red-300' : ''}`}
+          >
+            <span className="font-mono text-gray-400 pt-0.5 flex-shrink-0">{clockTime(segment.at)}</span>
+            {editing?.id === segment.id ? (
+              <>
+                <textarea
+                  autoFocus
+                  value={editing.text}
+                  onChange={(e) => setEditing({ id: segment.id, text: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      save(segment);
+                    }
+                    if (e.key === 'Escape') setEditing(null);
+                  }}
+                  className="flex-1 min-w-0 p-1 rounded border border-gray-200 text-xs text-gray-800 resize-none"
+                  rows={2}
+                />
+                <button onClick={() => save(segment)} className="p-1 rounded text-green-600 hover:bg-green-50" title={zh ? '保存' : 'Save'}>
+                  <Check size={14} />
+                </button>
+              </>
+            ) : (
+              <>
+                <span className="flex-1 min-w-0 text-gray-800 leading-relaxed">
+                  {retaking === segment.id && interim ? <span className="text-gray-400 italic">{interim}…</span>
+                    : segment.text || <span className="text-gray-400 italic">{zh ? '（未转写）' : '(not transcribed)'}</span>}
+                </span>
+                {segment.audio && (
+                  <>
+                    <button
+                      onClick={() => onRetranscribe(segment)}
+                      disabled={retranscribing === segment.id}
+                      className="p-1 rounded text-gray-400 hover:text-blue-600 disabled:opacity-50"
+                      title={zh ? '重新转写' : 'Transcribe again'}
+                    >
+                      {retranscribing === segment.id ? <Loader2 size={14} className="animate-spin" /> : <RotateCcw size={14} />}
+                    </button>
+                    <button
+                      onClick={() => downloadBlob(segment.audio!, `dictation-${new Date(segment.at).toISOString().replace(/[:.]/g, '-')}.wav`)}
+                      className="p-1 rounded text-gray-400 hover:text-gray-700"
+                      title={zh ? '下载录音' : 'Download audio'}
+                    >
+                      <Download size={14} />
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => setEditing({ id: segment.id, text: segment.text })}
+                  disabled={retaking === segment.id}
+                  className="p-1 rounded text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  title={zh ? '编辑' : 'Edit'}
+                >
+                  <Pencil size={14} />
+                </button>
+                <button
+                  onClick={() => onRetake(segment)}
+                  className={`p-1 rounded hover:text-red-600 ${retaking === segment.id ? 'text-red-600 animate-pulse' : 'text-gray-400'}`}
+                  title={retaking === segment.id ? (zh ? '停止重录' : 'Stop re-recording') : (zh ? '重录这一段' : 'Re-record this segment')}
+                >
+                  <Mic size={14} />
+                </button>
+                <button onClick={() => onDelete(segment)} className="p-1 rounded text-gray-400 hover:text-red-600" title={zh ? '删除' : 'Delete'}>
+                  <Trash2 size={14} />
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+        {startedAt !== null && !retaking && interim && (
+          <li className="px-2 py-1.5 rounded-lg bg-white text-xs text-gray-400 italic">{interim}…</li>
+        )}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Language } from '../types';
+import { DiffLine } from '../lib/diff';
+
+export type DiffMode = 'inline' | 'split';
+
+interface DiffViewProps {
+  lines: DiffLine[];
+  mode: DiffMode;
+}
+
+const ROW_CLASSES: Record<DiffLine['type'], string> = {
+  same: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-700',
+};
+
+const MARKERS: Record<DiffLine['type'], string> = { same: ' ', added: '+', removed: '−' };
+
+// Pairs each run of removed lines with the added lines that follow it, for two columns.
+const toRows = (lines: DiffLine[]): [DiffLine | null, DiffLine | null][] => {
+  const rows: [DiffLine | null, DiffLine | null][] = [];
+  for (let i = 0; i < lines.length;) {
+    if (lines[i].type === 'same') {
+      rows.push([lines[i], lines[i]]);
+      i++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'removed') removed.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'added') added.push(lines[i++]);
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) rows.push([removed[k] ?? null, added[k] ?? null]);
+  }
+  return rows;
+};
+
+const Cell = ({ line }: { line: DiffLine | null }) => (
+  <div className={`px-4 py-0.5 whitespace-pre-wrap break-words ${line ? ROW_CLASSES[line.type] : 'bg-gray-100/60'}`}>
+    {line && <span className="select-none inline-block w-4 text-gray-400">{MARKERS[line.type]}</span>}
+    {line?.text}
+  </div>
+);
+
+/** A line diff as one column with +/− markers, or as before and after side by side. */
+export const DiffView = ({ lines, mode }: DiffViewProps) => (
+  <div className="rounded-xl border border-gray-100 bg-gray-50 font-mono text-xs leading-relaxed">
+    {mode === 'inline'
+      ? lines.map((line, i) => <React.Fragment key={i}><Cell line={line} /></React.Fragment>)
+      : toRows(lines).map(([left, right], i) => (
+        <div key={i} className="grid grid-cols-2 divide-x divide-gray-200">
+          <Cell line={left} />
+          <Cell line={right} />
+        </div>
+      ))}
+  </div>
+);
+
+export const DiffModeToggle = ({ lang, mode, onChange }: { lang: Language; mode: DiffMode; onChange: (mode: DiffMode) => void }) => (
+  <div className="inline-flex p-1 bg-gray-100 rounded-xl">
+    {(['inline', 'split'] as DiffMode[]).map(m => (
+      <button
+        key={m}
+        onClick={() => onChange(m)}
+        className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${
+          mode === m ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-800'
+        }`}
+      >
+        {m === 'inline' ? (lang === 'zh' ? '行内' : 'Inline') : (lang === 'zh' ? '并排' : 'Side by side')}
+      </button>
+    ))}
+  </div>
+);
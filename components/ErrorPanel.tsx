@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { AlertCircle, RotateCcw, X } from 'lucide-react';
+import { Language } from '../types';
+import { describeError } from '../lib/errors';
+import { ApiError } from '../services/api';
+
+interface ErrorPanelProps {
+  lang: Language;
+  error: ApiError;
+  onRetry?: () => void;
+  onDismiss: () => void;
+}
+
+// In-app replacement for alert(): explains what failed and offers a retry.
+export const ErrorPanel = ({ lang, error, onRetry, onDismiss }: ErrorPanelProps) => {
+  const zh = lang === 'zh';
+  const [showDetails, setShowDetails] = useState(false);
+  const { title, hint } = describeError(error.code, lang);
+
+  return (
+    <div className="mb-6 p-5 bg-red-50 border border-red-200 rounded-2xl shadow-sm no-print">
+      <div className="flex items-start gap-3">
+        <AlertCircle className="text-red-600 flex-shrink-0 mt-0.5" size={20} />
+        <div className="flex-1 min-w-0">
+          <p className="font-bold text-red-900">{title}</p>
+          <p className="text-sm text-red-700 mt-1">{hint}</p>
+          <button onClick={() => setShowDetails(!showDetails)} className="text-xs font-bold text-red-500 hover:text-red-700 mt-2">
+            {showDetails ? (zh ? '隐藏详情' : 'Hide details') : (zh ? '查看详情' : 'Show details')}
+          </button>
+          {showDetails && (
+            <pre className="mt-2 p-3 bg-white rounded-lg border border-red-100 text-xs text-red-800 whitespace-pre-wrap break-words">
+              {error.status ? `HTTP ${error.status} · ` : ''}{error.code}{'\n'}{error.message}
+            </pre>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {onRetry && (
+            <button
+              onClick={onRetry}
+              className="flex items-center gap-1.5 px-4 py-2 bg-red-600 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-red-700 transition-colors"
+            >
+              <RotateCcw size={14} />
+              {zh ? '重试' : 'Retry'}
+            </button>
+          )}
+          <button onClick={onDismiss} className="p-2 rounded-full text-red-400 hover:bg-red-100 hover:text-red-700">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
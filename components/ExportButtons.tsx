@@ -0,0 +1,56 @@
+import React from 'react';
+import { Braces, Download, FileText, Loader2 } from 'lucide-react';
+import { ExportFormat } from '../services/export';
+
+interface ExportButtonsProps {
+  // The format being exported right now, if any.
+  exporting: ExportFormat | null;
+  disabled?: boolean;
+  onExport: (format: ExportFormat) => void;
+  // Also offer the machine-readable formats (resume only).
+  structured?: boolean;
+}
+
+const STRUCTURED_BUTTONS: { format: ExportFormat; label: string }[] = [
+  { format: 'jsonResume', label: 'JSON Resume' },
+  { format: 'europass', label: 'Europass XML' },
+];
+
+export const ExportButtons = ({ exporting, disabled, onExport, structured }: ExportButtonsProps) => (
+  <>
+    <button
+      disabled={!!exporting || disabled}
+      onClick={() => onExport('pdf')}
+      className="disabled:opacity-50 flex items-center gap-2 px-6 py-3 bg-gray-900 text-white rounded-xl text-sm font-black hover:bg-gray-800 shadow-xl transition-all"
+    >
+      {exporting === 'pdf' ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+      PDF (A4)
+    </button>
+    <button
+      disabled={!!exporting || disabled}
+      onClick={() => onExport('docx')}
+      className="disabled:opacity-50 flex items-center gap-2 px-6 py-3 border border-gray-200 text-gray-600 rounded-xl text-sm font-bold hover:bg-gray-50 transition-all"
+    >
+      {exporting === 'docx' ? <Loader2 size={16} className="animate-spin" /> : <FileText size={16} />}
+      Word (.docx)
+    </button>
+    <button
+      disabled={!!exporting || disabled}
+      onClick={() => onExport('md')}
+      className="disabled:opacity-50 flex items-center gap-2 px-6 py-3 border border-gray-200 text-gray-600 rounded-xl text-sm font-bold hover:bg-gray-50 transition-all"
+    >
+      Markdown
+    </button>
+    {structured && STRUCTURED_BUTTONS.map(({ format, label }) => (
+      <button
+        key={format}
+        disabled={!!exporting || disabled}
+        onClick={() => onExport(format)}
+        className="disabled:opacity-50 flex items-center gap-2 px-6 py-3 border border-gray-200 text-gray-600 rounded-xl text-sm font-bold hover:bg-gray-50 transition-all"
+      >
+        {exporting === format ? <Loader2 size={16} className="animate-spin" /> : <Braces size={16} />}
+        {label}
+      </button>
+    ))}
+  </>
+);
@@ -0,0 +1,69 @@
+import React from 'react';
+import { CheckCircle2, AlertTriangle, X } from 'lucide-react';
+import { Language } from '../types';
+import { UnmappedField } from '../lib/structuredResume';
+import { StructuredFormat } from '../services/export';
+
+export interface ExportReportData {
+  format: StructuredFormat;
+  unmapped: UnmappedField[];
+}
+
+interface ExportReportProps {
+  lang: Language;
+  report: ExportReportData;
+  onClose: () => void;
+}
+
+const FORMAT_NAMES: Record<StructuredFormat, string> = {
+  jsonResume: 'JSON Resume',
+  europass: 'Europass XML',
+};
+
+/** What a structured export left out, so the user can add it by hand in the target system. */
+export const ExportReport = ({ lang, report, onClose }: ExportReportProps) => {
+  const zh = lang === 'zh';
+  const name = FORMAT_NAMES[report.format];
+
+  return (
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-[90] flex items-center justify-center p-4 no-print" onClick={onClose}>
+      <div className="w-full max-w-xl max-h-[85vh] bg-white rounded-2xl shadow-2xl p-6 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start gap-4 mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">{zh ? `已导出 ${name}` : `${name} exported`}</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {zh ? '文件已通过格式校验并下载。' : 'The file passed the format check and has been downloaded.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+            <X size={20} />
+          </button>
+        </div>
+
+        {report.unmapped.length ? (
+          <>
+            <div className="flex items-center gap-2 text-sm font-bold text-amber-700 mb-3">
+              <AlertTriangle size={16} />
+              {zh
+                ? `${report.unmapped.length} 项内容无法放入该格式，请在目标系统中手动补充：`
+                : `${report.unmapped.length} item(s) did not fit the format; add them by hand in the target system:`}
+            </div>
+            <ul className="flex-1 overflow-y-auto space-y-2">
+              {report.unmapped.map((item, i) => (
+                <li key={i} className="text-sm border border-amber-100 bg-amber-50 rounded-lg px-3 py-2">
+                  <span className="font-mono text-xs text-amber-800">{item.field}</span>
+                  <p className="text-gray-700 mt-0.5 break-words">{item.value}</p>
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          <div className="flex items-center gap-2 text-sm font-bold text-green-700">
+            <CheckCircle2 size={16} />
+            {zh ? '所有内容都已映射。' : 'Everything in the resume was mapped.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
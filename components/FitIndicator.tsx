@@ -0,0 +1,71 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, Minimize2 } from 'lucide-react';
+import { Language } from '../types';
+import { MAX_CONDENSE_ATTEMPTS, PageFit, UNDERFILLED_RATIO, fitsOnePage } from '../lib/pageFit';
+
+interface FitIndicatorProps {
+  lang: Language;
+  fit: PageFit | null;
+  // Omitted where the resume cannot be condensed (the draft step).
+  onCondense?: () => void;
+  busy?: boolean;
+  // The last condense loop hit its retry cap without fitting.
+  gaveUp?: boolean;
+}
+
+export const FitIndicator = ({ lang, fit, onCondense, busy, gaveUp }: FitIndicatorProps) => {
+  if (!fit) return null;
+  const zh = lang === 'zh';
+  const percent = Math.round(fit.fill * 100);
+
+  if (!fitsOnePage(fit)) {
+    const mm = Math.ceil(fit.overflowMm);
+    return (
+      <div className="flex flex-wrap items-center gap-3 mb-4 p-4 rounded-xl border border-red-200 bg-red-50 text-sm no-print">
+        <AlertTriangle size={18} className="text-red-600 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="font-bold text-red-900">
+            {zh
+              ? `超出一页 A4：多出 ${mm} mm（约 ${fit.overflowLines} 行，${percent}%）`
+              : `Over one A4 page by ${mm} mm (about ${fit.overflowLines} lines, ${percent}%)`}
+          </p>
+          {gaveUp && (
+            <p className="text-xs text-red-700 mt-1">
+              {zh
+                ? `已自动压缩 ${MAX_CONDENSE_ATTEMPTS} 次仍未放下，请手动删减或改用「紧凑」模板。`
+                : `Still over after ${MAX_CONDENSE_ATTEMPTS} attempts. Trim it by hand or switch to the Compact template.`}
+            </p>
+          )}
+        </div>
+        {onCondense && (
+          <button
+            disabled={busy}
+            onClick={onCondense}
+            className="flex items-center gap-1.5 px-4 py-2 bg-red-600 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            <Minimize2 size={14} />
+            {zh ? '自动压缩至一页' : 'Condense to fit'}
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const underfilled = fit.fill < UNDERFILLED_RATIO;
+  return (
+    <div className={`flex items-center gap-3 mb-4 p-4 rounded-xl border text-sm no-print ${
+      underfilled ? 'border-orange-200 bg-orange-50 text-orange-900' : 'border-green-200 bg-green-50 text-green-900'
+    }`}>
+      {underfilled
+        ? <AlertTriangle size={18} className="text-orange-500 flex-shrink-0" />
+        : <CheckCircle2 size={18} className="text-green-600 flex-shrink-0" />}
+      <p className="font-bold">
+        {underfilled
+          ? (zh
+            ? `仅占一页的 ${percent}%，还剩 ${Math.floor(fit.availableMm - fit.contentMm)} mm，可以补充更多成果`
+            : `Only ${percent}% of the page is used; ${Math.floor(fit.availableMm - fit.contentMm)} mm left for more results`)
+          : (zh ? `正好一页 A4（已用 ${percent}%）` : `Fits on one A4 page (${percent}% used)`)}
+      </p>
+    </div>
+  );
+};
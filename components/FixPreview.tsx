@@ -0,0 +1,60 @@
+import React, { useMemo, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { Language } from '../types';
+import { diffLines } from '../lib/diff';
+import { DiffMode, DiffModeToggle, DiffView } from './DiffView';
+
+interface FixPreviewProps {
+  lang: Language;
+  title: string;
+  before: string;
+  after: string;
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+/** A proposed rewrite as a line diff, applied only once the user accepts it. */
+export const FixPreview = ({ lang, title, before, after, onAccept, onDiscard }: FixPreviewProps) => {
+  const zh = lang === 'zh';
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  const [mode, setMode] = useState<DiffMode>('inline');
+
+  return (
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-[90] flex items-center justify-center p-4 no-print" onClick={onDiscard}>
+      <div className="w-full max-w-3xl max-h-[85vh] bg-white rounded-2xl shadow-2xl p-6 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start gap-4 mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">{zh ? '修改预览' : 'Proposed Fix'}</h2>
+            <p className="text-sm text-gray-500 mt-1">{title}</p>
+          </div>
+          <button onClick={onDiscard} className="p-2 hover:bg-gray-100 rounded-full">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex justify-end mb-3">
+          <DiffModeToggle lang={lang} mode={mode} onChange={setMode} />
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          <DiffView lines={lines} mode={mode} />
+        </div>
+
+        <div className="flex justify-end gap-3 mt-5">
+          <button
+            onClick={onDiscard}
+            className="px-6 py-3 border border-gray-200 text-gray-600 rounded-xl font-bold hover:bg-gray-50 transition-all text-sm"
+          >
+            {zh ? '放弃' : 'Discard'}
+          </button>
+          <button
+            onClick={onAccept}
+            className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-all text-sm"
+          >
+            <Check size={16} />
+            {zh ? '接受修改' : 'Accept Fix'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, GraduationCap, Loader2, Mic, MicOff, Send, Sparkles, X } from 'lucide-react';
+import { InterviewPrep as InterviewPrepData, InterviewQuestion, Language, StarOutline } from '../types';
+import { isSpeechSupported, startDictation } from '../services/speech';
+
+interface InterviewPrepProps {
+  lang: Language;
+  prep: InterviewPrepData;
+  // Questions come from the Fit Check, so there is nothing to generate before it has run.
+  canGenerate: boolean;
+  generating: boolean;
+  onGenerate: () => void;
+  // Resolves true once the answer's feedback has been recorded.
+  onPractice: (question: InterviewQuestion, answer: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const KINDS: { id: InterviewQuestion['kind']; label: { en: string; zh: string }; accent: string }[] = [
+  { id: 'requirement', label: { en: 'JD requirements', zh: '岗位要求' }, accent: 'text-blue-600' },
+  { id: 'weakness', label: { en: 'Weak spots', zh: '薄弱环节' }, accent: 'text-red-600' },
+];
+
+const STAR_PARTS: { id: keyof StarOutline; label: { en: string; zh: string } }[] = [
+  { id: 'situation', label: { en: 'Situation', zh: '情境' } },
+  { id: 'task', label: { en: 'Task', zh: '任务' } },
+  { id: 'action', label: { en: 'Action', zh: '行动' } },
+  { id: 'result', label: { en: 'Result', zh: '结果' } },
+];
+
+const MISSING = /\[MISSING[^\]]*\]/i;
+
+const scoreClass = (score: number) =>
+  score >= 8 ? 'bg-green-100 text-green-700' : score >= 5 ? 'bg-orange-100 text-orange-700' : 'bg-red-100 text-red-700';
+
+/**
+ * Likely questions for each JD requirement and Fit Check weakness, with STAR outlines
+ * from the profile, and a practice mode that judges spoken or typed answers.
+ */
+export const InterviewPrep = ({ lang, prep, canGenerate, generating, onGenerate, onPractice, onClose }: InterviewPrepProps) => {
+  const zh = lang === 'zh';
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [practicing, setPracticing] = useState<string | null>(null);
+  const [answer, setAnswer] = useState('');
+  const [interim, setInterim] = useState('');
+  const [listening, setListening] = useState(false);
+  const [judging, setJudging] = useState(false);
+  const stopRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopRef.current?.(), []);
+
+  const stopListening = () => {
+    stopRef.current?.();
+    stopRef.current = null;
+  };
+
+  const practice = (question: InterviewQuestion) => {
+    stopListening();
+    setPracticing(practicing === question.id ? null : question.id);
+    setExpanded(question.id);
+    setAnswer('');
+  };
+
+  const toggleDictation = () => {
+    if (listening) return stopListening();
+    setListening(true);
+    stopRef.current = startDictation(lang, {
+      onFinal: (text) => setAnswer(prev => `${prev}${text}`.trimStart()),
+      onInterim: setInterim,
+      onEnd: () => {
+        setListening(false);
+        stopRef.current = null;
+      }
+    });
+  };
+
+  const submit = async (question: InterviewQuestion) => {
+    if (!answer.trim()) return;
+    stopListening();
+    setJudging(true);
+    const recorded = await onPractice(question, answer.trim());
+    setJudging(false);
+    if (recorded) setAnswer('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-[90] flex justify-end no-print" onClick={onClose}>
+      <div className="w-full max-w-3xl h-full bg-white shadow-2xl p-6 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <GraduationCap size={22} />
+            {zh ? '面试准备' : 'Interview Prep'}
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              disabled={!canGenerate || generating}
+              onClick={onGenerate}
+              className="flex items-center gap-1.5 px-4 py-2 bg-gray-900 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-gray-800 transition-colors disabled:opacity-50"
+            >
+              {generating ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+              {prep.questions.length ? (zh ? '重新生成' : 'Regenerate') : (zh ? '生成面试题' : 'Generate questions')}
+            </button>
+            <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-8">
+          {!prep.questions.length && (
+            <p className="text-sm text-gray-400 text-center py-10">
+              {canGenerate
+                ? (zh ? '根据匹配检查中的岗位要求和短板，生成可能被问到的问题和 STAR 回答提纲。' : 'Generate likely questions and STAR answer outlines from the Fit Check requirements and weaknesses.')
+                : (zh ? '请先完成匹配检查。' : 'Run the Fit Check first.')}
+            </p>
+          )}
+
+          {KINDS.map(kind => {
+            const questions = prep.questions.filter(q => q.kind === kind.id);
+            if (!questions.length) return null;
+            return (
+              <section key={kind.id}>
+                <h3 className={`text-[10px] font-black uppercase tracking-widest mb-3 ${kind.accent}`}>
+                  {kind.label[lang]} · {questions.length}
+                </h3>
+                <div className="space-y-3">
+                  {questions.map(q => {
+                    const attempts = prep.attempts[q.id] ?? [];
+                    const latest = attempts[attempts.length - 1];
+                    const open = expanded === q.id;
+                    return (
+                      <div key={q.id} className="p-4 rounded-xl border border-gray-100 bg-gray-50 text-sm">
+                        <button onClick={() => setExpanded(open ? null : q.id)} className="w-full flex items-start gap-2 text-left">
+                          {open ? <ChevronDown size={16} className="mt-0.5 flex-shrink-0" /> : <ChevronRight size={16} className="mt-0.5 flex-shrink-0" />}
+                          <span className="flex-1">
+                            <span className="block text-[10px] font-bold text-gray-400 mb-1">{q.topic}</span>
+                            <span className="font-bold text-gray-900">{q.question}</span>
+                          </span>
+                          {latest && (
+                            <span className={`px-2 py-0.5 rounded text-[10px] font-black ${scoreClass(latest.feedback.score)}`}>
+                              {latest.feedback.score}/10
+                            </span>
+                          )}
+                        </button>
+
+                        {open && (
+                          <div className="mt-4 pl-6 space-y-4">
+                            <dl className="grid grid-cols-[5rem_1fr] gap-x-3 gap-y-2 text-xs">
+                              {STAR_PARTS.map(part => (
+                                <React.Fragment key={part.id}>
+                                  <dt className="font-black uppercase tracking-widest text-gray-400">{part.label[lang]}</dt>
+                                  <dd className={MISSING.test(q.outline[part.id]) ? 'text-red-700' : 'text-gray-700'}>{q.outline[part.id]}</dd>
+                                </React.Fragment>
+                              ))}
+                            </dl>
+
+                            {latest && (
+                              <div className="p-3 bg-white rounded-lg border border-gray-100 text-xs space-y-2">
+                                <p className="font-bold text-gray-900">
+                                  {zh ? `第 ${attempts.length} 次练习反馈` : `Feedback on attempt ${attempts.length}`}
+                                </p>
+                                <p className="text-gray-500 italic">“{latest.answer}”</p>
+                                {latest.feedback.strengths.map((s, i) => <p key={`s${i}`} className="text-green-700">✓ {s}</p>)}
+                                {latest.feedback.improvements.map((s, i) => <p key={`i${i}`} className="text-orange-700">→ {s}</p>)}
+                              </div>
+                            )}
+
+                            {practicing === q.id ? (
+                              <div className="space-y-2">
+                                <textarea
+                                  autoFocus
+                                  className="w-full h-28 p-3 text-xs rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                  value={answer + (listening && interim ? ` ${interim}…` : '')}
+                                  onChange={(e) => setAnswer(e.target.value)}
+                                  placeholder={zh ? '像面试时一样口头回答，或直接输入' : 'Answer out loud as you would in the interview, or type'}
+                                />
+                                <div className="flex gap-2">
+                                  {isSpeechSupported() && (
+                                    <button
+                                      onClick={toggleDictation}
+                                      className={`flex items-center gap-1.5 px-3 py-2 rounded-lg border text-xs font-bold transition-colors ${
+                                        listening ? 'bg-red-500 border-red-500 text-white animate-pulse' : 'border-gray-200 text-gray-600 hover:bg-white'
+                                      }`}
+                                    >
+                                      {listening ? <MicOff size={14} /> : <Mic size={14} />}
+                                      {listening ? (zh ? '停止' : 'Stop') : (zh ? '语音回答' : 'Speak')}
+                                    </button>
+                                  )}
+                                  <button
+                                    disabled={judging || !answer.trim()}
+                                    onClick={() => submit(q)}
+                                    className="ml-auto flex items-center gap-1.5 px-3 py-2 bg-blue-600 text-white rounded-lg text-xs font-bold hover:bg-blue-700 transition-colors disabled:opacity-50"
+                                  >
+                                    {judging ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+                                    {zh ? '获取反馈' : 'Get feedback'}
+                                  </button>
+                                </div>
+                              </div>
+                            ) : (
+                              <button
+                                onClick={() => practice(q)}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-blue-600 text-white text-xs font-bold hover:bg-blue-700"
+                              >
+                                <Mic size={14} />
+                                {attempts.length ? (zh ? '再练一次' : 'Practice again') : (zh ? '开始练习' : 'Practice')}
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+import { Language, StructuredJd } from '../types';
+
+interface JdEditorProps {
+  jd: StructuredJd;
+  lang: Language;
+  onChange: (jd: StructuredJd) => void;
+  // Drops the structure and keeps editing the generated text.
+  onPlainText: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm bg-white';
+
+const FIELDS: { id: 'title' | 'company' | 'location' | 'seniority'; label: { en: string; zh: string } }[] = [
+  { id: 'title', label: { en: 'Title', zh: '职位' } },
+  { id: 'company', label: { en: 'Company', zh: '公司' } },
+  { id: 'location', label: { en: 'Location', zh: '地点' } },
+  { id: 'seniority', label: { en: 'Seniority', zh: '职级' } },
+];
+
+const LISTS: { id: 'mustHaves' | 'niceToHaves' | 'responsibilities'; label: { en: string; zh: string }; rows: number }[] = [
+  { id: 'mustHaves', label: { en: 'Must-haves', zh: '必备要求' }, rows: 6 },
+  { id: 'niceToHaves', label: { en: 'Nice-to-haves', zh: '加分项' }, rows: 4 },
+  { id: 'responsibilities', label: { en: 'Responsibilities', zh: '岗位职责' }, rows: 6 },
+];
+
+/**
+ * An imported JD as editable fields, reviewed before the Fit Check.
+ * List items are edited one per line; blank lines are dropped from the JD text.
+ */
+export const JdEditor = ({ jd, lang, onChange, onPlainText }: JdEditorProps) => (
+  <div className="space-y-5">
+    <div className="grid grid-cols-2 gap-3">
+      {FIELDS.map(f => (
+        <div key={f.id} className={f.id === 'title' ? 'col-span-2' : ''}>
+          <label className="block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-1">{f.label[lang]}</label>
+          <input className={inputClass} value={jd[f.id]} onChange={(e) => onChange({ ...jd, [f.id]: e.target.value })} />
+        </div>
+      ))}
+    </div>
+    {LISTS.map(l => (
+      <div key={l.id}>
+        <label className="block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-1">
+          {l.label[lang]} · {jd[l.id].filter(item => item.trim()).length}
+        </label>
+        <textarea
+          rows={l.rows}
+          className={`${inputClass} leading-relaxed`}
+          value={jd[l.id].join('\n')}
+          onChange={(e) => onChange({ ...jd, [l.id]: e.target.value.split('\n') })}
+        />
+      </div>
+    ))}
+    <button onClick={onPlainText} className="flex items-center gap-1.5 text-xs font-bold text-gray-500 hover:text-gray-900">
+      <FileText size={14} />
+      {lang === 'zh' ? '改为纯文本编辑' : 'Edit as plain text'}
+    </button>
+  </div>
+);
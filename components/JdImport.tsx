@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Link, Loader2, Upload } from 'lucide-react';
+import { Language } from '../types';
+
+interface JdImportProps {
+  lang: Language;
+  busy: boolean;
+  onFile: (file: File) => void;
+  onUrl: (url: string) => void;
+}
+
+/** Imports a JD from a saved HTML page, a PDF, an image or a URL. */
+export const JdImport = ({ lang, busy, onFile, onUrl }: JdImportProps) => {
+  const zh = lang === 'zh';
+  const [url, setUrl] = useState('');
+
+  const submit = () => {
+    if (url.trim()) onUrl(url.trim());
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-3">
+      <label className={`flex items-center gap-1.5 px-3 py-2 rounded-lg border border-gray-200 text-xs font-bold text-gray-600 ${
+        busy ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-50'
+      }`}>
+        <Upload size={14} />
+        {zh ? '导入文件' : 'Import file'}
+        <input
+          type="file"
+          className="hidden"
+          disabled={busy}
+          accept=".html,.htm,.pdf,.txt,image/png,image/jpeg,image/webp"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onFile(file);
+          }}
+        />
+      </label>
+      <div className="flex-1 min-w-[220px] flex gap-2">
+        <input
+          className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-xs"
+          placeholder={zh ? '或粘贴职位链接 https://...' : 'or paste a job link https://...'}
+          value={url}
+          disabled={busy}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+        />
+        <button
+          disabled={busy || !url.trim()}
+          onClick={submit}
+          className="flex items-center gap-1.5 px-3 py-2 bg-gray-900 text-white rounded-lg text-xs font-bold hover:bg-gray-800 disabled:opacity-50"
+        >
+          {busy ? <Loader2 size={14} className="animate-spin" /> : <Link size={14} />}
+          {zh ? '导入' : 'Import'}
+        </button>
+      </div>
+    </div>
+  );
+};
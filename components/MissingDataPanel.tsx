@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CornerDownLeft, HelpCircle, Loader2, Mic, MicOff, Sparkles } from 'lucide-react';
+import { Language } from '../types';
+import { MissingDataGap, gapKey, markerRange } from '../lib/missingData';
+import { isSpeechSupported, startDictation } from '../services/speech';
+
+interface MissingDataPanelProps {
+  lang: Language;
+  gaps: MissingDataGap[];
+  // Locked while a response is streaming into the resume.
+  readOnly?: boolean;
+  // Resolves with a question per gap index, or null when the request failed.
+  onAsk: (gaps: MissingDataGap[]) => Promise<{ id: number; question: string }[] | null>;
+  onFill: (gap: MissingDataGap, answer: string) => void;
+}
+
+// Indices shift as gaps are filled, so questions and answers are kept by line and place on it.
+// Filling one marker moves the later ones on its line up a place; their entries move with them.
+const dropFilled = (entries: Record<string, string>, filled: MissingDataGap) =>
+  Object.fromEntries(Object.entries(entries).flatMap(([key, value]) => {
+    const [line, ordinal] = key.split(':').map(Number);
+    if (line !== filled.line || ordinal < filled.ordinal) return [[key, value]];
+    return ordinal === filled.ordinal ? [] : [[gapKey({ line, ordinal: ordinal - 1 }), value]];
+  }));
+
+const fallbackQuestion = (gap: MissingDataGap, zh: boolean) =>
+  zh ? `请补充：${gap.hint || '此处缺失的信息'}` : `Please provide: ${gap.hint || 'the missing detail'}`;
+
+// The resume line with its marker picked out.
+const Context = ({ gap }: { gap: MissingDataGap }) => {
+  const range = markerRange(gap);
+  if (!range) return <>{gap.context}</>;
+  return (
+    <>
+      {gap.context.slice(0, range.start)}
+      <mark className="bg-red-100 text-red-700 rounded px-0.5">{gap.context.slice(range.start, range.end)}</mark>
+      {gap.context.slice(range.end)}
+    </>
+  );
+};
+
+/**
+ * Turns the resume's [MISSING DATA] markers into questions and patches each
+ * answer, typed or dictated, into the spot its marker held.
+ */
+export const MissingDataPanel = ({ lang, gaps, readOnly, onAsk, onFill }: MissingDataPanelProps) => {
+  const zh = lang === 'zh';
+  const [questions, setQuestions] = useState<Record<string, string>>({});
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [asking, setAsking] = useState(false);
+  const [listening, setListening] = useState<string | null>(null);
+  const [interim, setInterim] = useState('');
+  const stopRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopRef.current?.(), []);
+
+  if (!gaps.length) return null;
+  const unasked = gaps.filter(g => !questions[gapKey(g)]);
+
+  const ask = async () => {
+    setAsking(true);
+    const result = await onAsk(unasked);
+    setAsking(false);
+    if (!result) return;
+    const byIndex = new Map(result.map(q => [q.id, q.question]));
+    setQuestions(prev => ({
+      ...prev,
+      ...Object.fromEntries(unasked.filter(g => byIndex.has(g.index)).map(g => [gapKey(g), byIndex.get(g.index)!]))
+    }));
+  };
+
+  const toggleDictation = (key: string) => {
+    stopRef.current?.();
+    if (listening === key) return;
+    setListening(key);
+    stopRef.current = startDictation(lang, {
+      onFinal: (text) => setAnswers(prev => ({ ...prev, [key]: `${prev[key] ?? ''}${text}`.trimStart() })),
+      onInterim: setInterim,
+      onEnd: () => {
+        setListening(current => (current === key ? null : current));
+        stopRef.current = null;
+      }
+    });
+  };
+
+  const fill = (gap: MissingDataGap) => {
+    const key = gapKey(gap);
+    const answer = answers[key]?.trim();
+    if (!answer) return;
+    if (listening === key) stopRef.current?.();
+    onFill(gap, answer);
+    setAnswers(prev => dropFilled(prev, gap));
+    setQuestions(prev => dropFilled(prev, gap));
+  };
+
+  return (
+    <div className="mb-4 p-5 rounded-xl border border-red-200 bg-red-50/40 text-sm no-print">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <p className="flex items-center gap-2 font-bold text-red-900">
+          <HelpCircle size={18} className="text-red-600" />
+          {zh ? `简历中还有 ${gaps.length} 处缺失信息` : `${gaps.length} missing fact${gaps.length > 1 ? 's' : ''} in this resume`}
+        </p>
+        {unasked.length > 0 && (
+          <button
+            disabled={asking || readOnly}
+            onClick={ask}
+            className="flex items-center gap-1.5 px-4 py-2 bg-gray-900 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-gray-800 transition-colors disabled:opacity-50"
+          >
+            {asking ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+            {zh ? '生成针对性问题' : 'Ask me about them'}
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {gaps.map(gap => {
+          const key = gapKey(gap);
+          return (
+            <div key={key} className="p-4 bg-white rounded-xl border border-gray-100">
+              {gap.heading && <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest mb-1">{gap.heading}</p>}
+              <p className="text-xs text-gray-600 mb-2"><Context gap={gap} /></p>
+              <p className="font-bold text-gray-900 mb-3">{questions[key] ?? fallbackQuestion(gap, zh)}</p>
+              <div className="flex gap-2">
+                <input
+                  className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  disabled={readOnly}
+                  value={(answers[key] ?? '') + (listening === key && interim ? ` ${interim}…` : '')}
+                  placeholder={zh ? '简短回答，例如「8 人」' : 'A short answer, e.g. "8 engineers"'}
+                  onChange={(e) => setAnswers(prev => ({ ...prev, [key]: e.target.value }))}
+                  onKeyDown={(e) => { if (e.key === 'Enter') fill(gap); }}
+                />
+                {isSpeechSupported() && (
+                  <button
+                    disabled={readOnly}
+                    onClick={() => toggleDictation(key)}
+                    title={zh ? '语音回答' : 'Answer by voice'}
+                    className={`p-2 rounded-lg border transition-colors disabled:opacity-50 ${
+                      listening === key ? 'bg-red-500 border-red-500 text-white animate-pulse' : 'border-gray-200 text-gray-500 hover:bg-gray-50'
+                    }`}
+                  >
+                    {listening === key ? <MicOff size={16} /> : <Mic size={16} />}
+                  </button>
+                )}
+                <button
+                  disabled={readOnly || !answers[key]?.trim()}
+                  onClick={() => fill(gap)}
+                  className="flex items-center gap-1.5 px-3 py-2 bg-blue-600 text-white rounded-lg text-xs font-bold hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  <CornerDownLeft size={14} />
+                  {zh ? '填入' : 'Fill in'}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Plus, Trash2, X } from 'lucide-react';
+import { Education, Experience, ExperienceDocument, Language } from '../types';
+import { emptyEducation, emptyExperience, moveItem } from '../lib/profile';
+
+interface ProfileEditorProps {
+  profile: ExperienceDocument;
+  lang: Language;
+  onChange: (profile: ExperienceDocument) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm bg-white';
+
+const CardControls = ({ index, total, onMove, onRemove }: {
+  index: number;
+  total: number;
+  onMove: (to: number) => void;
+  onRemove: () => void;
+}) => (
+  <div className="flex items-center gap-1">
+    <button onClick={() => onMove(index - 1)} disabled={index === 0} className="p-1.5 rounded-lg text-gray-400 hover:bg-gray-100 hover:text-gray-700 disabled:opacity-30">
+      <ChevronUp size={16} />
+    </button>
+    <button onClick={() => onMove(index + 1)} disabled={index === total - 1} className="p-1.5 rounded-lg text-gray-400 hover:bg-gray-100 hover:text-gray-700 disabled:opacity-30">
+      <ChevronDown size={16} />
+    </button>
+    <button onClick={onRemove} className="p-1.5 rounded-lg text-gray-400 hover:bg-red-50 hover:text-red-600">
+      <Trash2 size={16} />
+    </button>
+  </div>
+);
+
+const TagList = ({ items, placeholder, onChange }: {
+  items: string[];
+  placeholder: string;
+  onChange: (items: string[]) => void;
+}) => {
+  const [draft, setDraft] = useState('');
+
+  const commit = () => {
+    const value = draft.trim();
+    if (value && !items.includes(value)) onChange([...items, value]);
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2 p-3 rounded-xl border border-gray-200 bg-white">
+      {items.map((item, i) => (
+        <span key={i} className="flex items-center gap-1 bg-blue-50 text-blue-700 px-2.5 py-1 rounded-lg text-xs font-bold">
+          {item}
+          <button onClick={() => onChange(items.filter((_, j) => j !== i))} className="hover:text-red-600">
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+      <input
+        className="flex-1 min-w-[120px] text-sm outline-none"
+        placeholder={placeholder}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            commit();
+          }
+        }}
+        onBlur={commit}
+      />
+    </div>
+  );
+};
+
+// Where an entry came from, as tagged by the brainstorm step.
+const SourceTags = ({ sources, label }: { sources: string[]; label: string }) =>
+  sources.length ? (
+    <div className="flex flex-wrap items-center gap-1.5 text-[10px] text-gray-400">
+      <span className="font-black uppercase tracking-widest">{label}</span>
+      {sources.map(source => (
+        <span key={source} className="px-2 py-0.5 rounded bg-gray-100 text-gray-600 font-bold">{source}</span>
+      ))}
+    </div>
+  ) : null;
+
+const SectionHeader = ({ title, onAdd, addLabel }: { title: string; onAdd?: () => void; addLabel?: string }) => (
+  <div className="flex justify-between items-center mb-3">
+    <h3 className="text-xs font-black text-gray-500 uppercase tracking-widest">{title}</h3>
+    {onAdd && (
+      <button onClick={onAdd} className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-800">
+        <Plus size={14} />
+        {addLabel}
+      </button>
+    )}
+  </div>
+);
+
+/**
+ * Editable card view of the structured Experience Document.
+ * Bullet details are edited one per line; blank lines are dropped before prompting.
+ */
+export const ProfileEditor = ({ profile, lang, onChange }: ProfileEditorProps) => {
+  const zh = lang === 'zh';
+
+  const updateExperience = (index: number, patch: Partial<Experience>) =>
+    onChange({ ...profile, experiences: profile.experiences.map((e, i) => (i === index ? { ...e, ...patch } : e)) });
+
+  const updateEducation = (index: number, patch: Partial<Education>) =>
+    onChange({ ...profile, education: profile.education.map((e, i) => (i === index ? { ...e, ...patch } : e)) });
+
+  return (
+    <div className="space-y-8">
+      <section>
+        <SectionHeader title={zh ? '联系方式' : 'Contact'} />
+        <div className="grid grid-cols-2 gap-2">
+          <input className={inputClass} placeholder={zh ? '姓名' : 'Name'} value={profile.contact.name}
+            onChange={(e) => onChange({ ...profile, contact: { ...profile.contact, name: e.target.value } })} />
+          <input className={inputClass} placeholder={zh ? '邮箱' : 'Email'} value={profile.contact.email}
+            onChange={(e) => onChange({ ...profile, contact: { ...profile.contact, email: e.target.value } })} />
+          <input className={inputClass} placeholder={zh ? '电话' : 'Phone'} value={profile.contact.phone}
+            onChange={(e) => onChange({ ...profile, contact: { ...profile.contact, phone: e.target.value } })} />
+          <input className={inputClass} placeholder={zh ? '所在地' : 'Location'} value={profile.contact.location}
+            onChange={(e) => onChange({ ...profile, contact: { ...profile.contact, location: e.target.value } })} />
+        </div>
+        <div className="mt-2">
+          <TagList
+            items={profile.contact.links}
+            placeholder={zh ? '添加链接，回车确认' : 'Add link, press Enter'}
+            onChange={(links) => onChange({ ...profile, contact: { ...profile.contact, links } })}
+          />
+        </div>
+      </section>
+
+      <section>
+        <SectionHeader title={zh ? '个人概述' : 'Summary'} />
+        <textarea
+          className={`${inputClass} h-20 resize-none`}
+          value={profile.summary}
+          onChange={(e) => onChange({ ...profile, summary: e.target.value })}
+        />
+      </section>
+
+      <section>
+        <SectionHeader
+          title={zh ? '工作经历' : 'Experience'}
+          addLabel={zh ? '添加经历' : 'Add experience'}
+          onAdd={() => onChange({ ...profile, experiences: [...profile.experiences, emptyExperience()] })}
+        />
+        <div className="space-y-3">
+          {profile.experiences.map((exp, i) => (
+            <div key={i} className="p-4 rounded-xl border border-gray-200 bg-white shadow-sm space-y-2">
+              <div className="flex gap-2 items-start">
+                <div className="flex-1 grid grid-cols-2 gap-2">
+                  <input className={inputClass} placeholder={zh ? '职位' : 'Role'} value={exp.role}
+                    onChange={(e) => updateExperience(i, { role: e.target.value })} />
+                  <input className={inputClass} placeholder={zh ? '公司' : 'Company'} value={exp.company}
+                    onChange={(e) => updateExperience(i, { company: e.target.value })} />
+                  <input className={`${inputClass} col-span-2`} placeholder={zh ? '时间段' : 'Duration'} value={exp.duration}
+                    onChange={(e) => updateExperience(i, { duration: e.target.value })} />
+                </div>
+                <CardControls
+                  index={i}
+                  total={profile.experiences.length}
+                  onMove={(to) => onChange({ ...profile, experiences: moveItem(profile.experiences, i, to) })}
+                  onRemove={() => onChange({ ...profile, experiences: profile.experiences.filter((_, j) => j !== i) })}
+                />
+              </div>
+              <textarea
+                className={`${inputClass} h-28 resize-y leading-relaxed`}
+                placeholder={zh ? '每行一条成果/职责' : 'One achievement or responsibility per line'}
+                value={exp.details.join('\n')}
+                onChange={(e) => updateExperience(i, { details: e.target.value.split('\n') })}
+              />
+              <SourceTags sources={exp.sources} label={zh ? '来源' : 'From'} />
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <SectionHeader
+          title={zh ? '教育背景' : 'Education'}
+          addLabel={zh ? '添加教育' : 'Add education'}
+          onAdd={() => onChange({ ...profile, education: [...profile.education, emptyEducation()] })}
+        />
+        <div className="space-y-3">
+          {profile.education.map((edu, i) => (
+            <div key={i} className="p-4 rounded-xl border border-gray-200 bg-white shadow-sm space-y-2">
+              <div className="flex gap-2 items-start">
+                <div className="flex-1 grid grid-cols-2 gap-2">
+                  <input className={inputClass} placeholder={zh ? '学校' : 'School'} value={edu.school}
+                    onChange={(e) => updateEducation(i, { school: e.target.value })} />
+                  <input className={inputClass} placeholder={zh ? '学位/专业' : 'Degree'} value={edu.degree}
+                    onChange={(e) => updateEducation(i, { degree: e.target.value })} />
+                  <input className={`${inputClass} col-span-2`} placeholder={zh ? '时间段' : 'Duration'} value={edu.duration}
+                    onChange={(e) => updateEducation(i, { duration: e.target.value })} />
+                </div>
+                <CardControls
+                  index={i}
+                  total={profile.education.length}
+                  onMove={(to) => onChange({ ...profile, education: moveItem(profile.education, i, to) })}
+                  onRemove={() => onChange({ ...profile, education: profile.education.filter((_, j) => j !== i) })}
+                />
+              </div>
+              <textarea
+                className={`${inputClass} h-16 resize-y`}
+                placeholder={zh ? '每行一条（荣誉、课程等）' : 'One item per line (honors, coursework...)'}
+                value={edu.details.join('\n')}
+                onChange={(e) => updateEducation(i, { details: e.target.value.split('\n') })}
+              />
+              <SourceTags sources={edu.sources} label={zh ? '来源' : 'From'} />
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <SectionHeader title={zh ? '技能' : 'Skills'} />
+        <TagList
+          items={profile.skills}
+          placeholder={zh ? '添加技能，回车确认' : 'Add skill, press Enter'}
+          onChange={(skills) => onChange({ ...profile, skills })}
+        />
+      </section>
+
+      <section>
+        <SectionHeader title={zh ? '证书' : 'Certifications'} />
+        <TagList
+          items={profile.certifications}
+          placeholder={zh ? '添加证书，回车确认' : 'Add certification, press Enter'}
+          onChange={(certifications) => onChange({ ...profile, certifications })}
+        />
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { Loader2, MessagesSquare, RotateCcw, Send } from 'lucide-react';
+import { Language, RefineTurn, ResumeVersion } from '../types';
+import { diffLines } from '../lib/diff';
+import { DiffView } from './DiffView';
+
+interface RefineChatProps {
+  lang: Language;
+  turns: RefineTurn[];
+  versions: ResumeVersion[];
+  busy: boolean;
+  onSend: (instruction: string) => void;
+  onRevert: (version: ResumeVersion) => void;
+}
+
+const SUGGESTIONS: { en: string; zh: string }[] = [
+  { en: 'Shorten the second job', zh: '缩短第二段工作经历' },
+  { en: 'Lead with leadership impact', zh: '突出领导力和影响力' },
+  { en: 'Make it more technical', zh: '写得更技术化一些' },
+];
+
+// A model turn: the revision it produced, with its diff against the version it was made from.
+const Revision = ({ lang, version, parent, busy, onRevert }: {
+  lang: Language;
+  version: ResumeVersion;
+  parent?: ResumeVersion;
+  busy: boolean;
+  onRevert: (version: ResumeVersion) => void;
+}) => {
+  const zh = lang === 'zh';
+  const [open, setOpen] = useState(false);
+  const lines = useMemo(() => diffLines(parent?.markdown ?? '', version.markdown), [parent, version]);
+  const added = lines.filter(l => l.type === 'added').length;
+  const removed = lines.filter(l => l.type === 'removed').length;
+
+  return (
+    <div className="max-w-[85%] p-3 rounded-xl bg-gray-50 border border-gray-100 text-sm">
+      <div className="flex items-center gap-3">
+        <span className="px-2 py-0.5 rounded bg-gray-900 text-white text-[10px] font-black tracking-widest">v{version.number}</span>
+        <span className="text-xs text-gray-500">
+          <span className="text-green-700 font-bold">+{added}</span>{' '}
+          <span className="text-red-600 font-bold">−{removed}</span>{' '}
+          {zh ? '行' : 'lines'}
+        </span>
+        <button onClick={() => setOpen(!open)} className="text-xs font-bold text-blue-600 hover:text-blue-800">
+          {open ? (zh ? '收起修改' : 'Hide changes') : (zh ? '查看修改' : 'Show changes')}
+        </button>
+        {parent && (
+          <button
+            disabled={busy}
+            onClick={() => onRevert(parent)}
+            className="ml-auto flex items-center gap-1 text-xs font-bold text-gray-500 hover:text-gray-900 disabled:opacity-50"
+          >
+            <RotateCcw size={12} />
+            {zh ? `撤回到 v${parent.number}` : `Revert to v${parent.number}`}
+          </button>
+        )}
+      </div>
+      {open && (
+        <div className="mt-3 max-h-80 overflow-y-auto">
+          <DiffView lines={lines} mode="inline" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Chat-style refinement of the final resume. Each instruction is applied to the
+ * current text with the earlier turns as context, and every reply is a new version.
+ */
+export const RefineChat = ({ lang, turns, versions, busy, onSend, onRevert }: RefineChatProps) => {
+  const zh = lang === 'zh';
+  const [input, setInput] = useState('');
+  const byId = new Map(versions.map(v => [v.id, v]));
+
+  const send = (instruction: string) => {
+    if (!instruction.trim() || busy) return;
+    onSend(instruction.trim());
+    setInput('');
+  };
+
+  return (
+    <div className="mt-10 p-6 rounded-2xl border border-gray-100 bg-white no-print">
+      <h3 className="text-lg font-bold text-gray-900 mb-1 flex items-center gap-2">
+        <MessagesSquare size={20} className="text-blue-600" />
+        {zh ? '对话式精修' : 'Refine in Chat'}
+      </h3>
+      <p className="text-xs text-gray-500 mb-5">
+        {zh
+          ? '每条指令都会基于当前简历修改，并记住之前的要求。每次修改都会保存为新版本。'
+          : 'Each instruction edits the current resume and keeps earlier requests in mind. Every reply is saved as a new version.'}
+      </p>
+
+      {turns.length > 0 && (
+        <div className="space-y-3 mb-5 max-h-[32rem] overflow-y-auto">
+          {turns.map((turn, i) => {
+            const version = turn.versionId ? byId.get(turn.versionId) : undefined;
+            return (
+              <div key={i} className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                {turn.role === 'user' ? (
+                  <div className="max-w-[85%] px-4 py-2 rounded-xl bg-blue-600 text-white text-sm whitespace-pre-wrap">{turn.text}</div>
+                ) : version ? (
+                  <Revision
+                    lang={lang}
+                    version={version}
+                    parent={version.parentId ? byId.get(version.parentId) : undefined}
+                    busy={busy}
+                    onRevert={onRevert}
+                  />
+                ) : (
+                  <div className="max-w-[85%] px-4 py-2 rounded-xl bg-gray-50 border border-gray-100 text-sm text-gray-500">{turn.text}</div>
+                )}
+              </div>
+            );
+          })}
+          {busy && turns[turns.length - 1]?.role === 'user' && (
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <Loader2 size={14} className="animate-spin" />
+              {zh ? '正在修改...' : 'Revising...'}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {SUGGESTIONS.map(s => (
+          <button
+            key={s.en}
+            disabled={busy}
+            onClick={() => send(s[lang])}
+            className="px-3 py-1 rounded-full border border-gray-200 text-xs font-bold text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {s[lang]}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          className="flex-1 px-4 py-3 text-sm rounded-xl border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          value={input}
+          disabled={busy}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && send(input)}
+          placeholder={zh ? '例如：把项目经历放到工作经历前面' : 'e.g. Move projects above work experience'}
+        />
+        <button
+          disabled={busy || !input.trim()}
+          onClick={() => send(input)}
+          className="flex items-center gap-2 px-5 py-3 bg-blue-600 text-white rounded-xl text-sm font-bold hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Send size={16} />
+          {zh ? '发送' : 'Send'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Columns2, Eye, Pencil } from 'lucide-react';
+import { Language } from '../types';
+import { ResumeTemplate } from '../lib/templates';
+import { PageFit } from '../lib/pageFit';
+import { ResumePreview } from './ResumePreview';
+import { ClaimFlags } from './ClaimFlag';
+
+type EditorMode = 'preview' | 'edit' | 'split';
+
+interface ResumeEditorProps {
+  lang: Language;
+  markdown: string;
+  template: ResumeTemplate;
+  // Editing is locked while a response is streaming into `markdown`.
+  readOnly?: boolean;
+  onChange: (markdown: string) => void;
+  onMeasure?: (fit: PageFit) => void;
+  flags?: ClaimFlags;
+}
+
+const MODES: { id: EditorMode; icon: typeof Eye; label: { en: string; zh: string } }[] = [
+  { id: 'preview', icon: Eye, label: { en: 'Preview', zh: '预览' } },
+  { id: 'split', icon: Columns2, label: { en: 'Split', zh: '分栏' } },
+  { id: 'edit', icon: Pencil, label: { en: 'Markdown', zh: 'Markdown' } },
+];
+
+/**
+ * The resume as a rendered A4 page, with a markdown source pane next to it
+ * (split) or in place of it (edit). Every keystroke updates the preview.
+ */
+export const ResumeEditor = ({ lang, markdown, template, readOnly, onChange, onMeasure, flags }: ResumeEditorProps) => {
+  const [mode, setMode] = useState<EditorMode>('preview');
+  const showSource = !readOnly && mode !== 'preview';
+  const showPreview = readOnly || mode !== 'edit';
+
+  return (
+    <div>
+      <div className="flex justify-end mb-4 no-print">
+        <div className="inline-flex p-1 bg-gray-100 rounded-xl">
+          {MODES.map(m => (
+            <button
+              key={m.id}
+              disabled={readOnly}
+              onClick={() => setMode(m.id)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold transition-colors disabled:opacity-50 ${
+                mode === m.id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-800'
+              }`}
+            >
+              <m.icon size={14} />
+              {m.label[lang]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={mode === 'split' && showSource ? 'grid grid-cols-1 2xl:grid-cols-2 gap-6' : ''}>
+        {showSource && (
+          <textarea
+            className="w-full min-h-[600px] h-full p-5 font-mono text-xs leading-relaxed text-gray-800 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y no-print"
+            value={markdown}
+            spellCheck={false}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        )}
+        {showPreview && (
+          <div className="overflow-x-auto">
+            <ResumePreview markdown={markdown} template={template} onMeasure={onMeasure} flags={flags} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
+import { MdBlock, MdRun, parseMarkdown } from '../lib/markdown';
+import { PREVIEW_FONTS, ResumeTemplate } from '../lib/templates';
+import { A4_HEIGHT_MM, PageFit, fitsOnePage, measureFit } from '../lib/pageFit';
+import { ClaimFlag, ClaimFlags } from './ClaimFlag';
+
+interface ResumePreviewProps {
+  markdown: string;
+  template: ResumeTemplate;
+  // Reports the content height against one A4 page whenever the layout changes.
+  onMeasure?: (fit: PageFit) => void;
+  // Claims the fabrication check could not trace, highlighted on the page.
+  flags?: ClaimFlags;
+}
+
+const Runs = ({ runs }: { runs: MdRun[] }) => (
+  <>
+    {runs.map((r, i) => {
+      let node: React.ReactNode = r.text;
+      if (r.italic) node = <em>{node}</em>;
+      if (r.bold) node = <strong>{node}</strong>;
+      return <React.Fragment key={i}>{node}</React.Fragment>;
+    })}
+  </>
+);
+
+/**
+ * On-screen A4 rendering of the resume with the same template metrics the
+ * PDF and DOCX exporters use, so the preview matches the downloaded file.
+ */
+export const ResumePreview = ({ markdown, template: t, onMeasure, flags }: ResumePreviewProps) => {
+  const blocks = useMemo(() => parseMarkdown(markdown), [markdown]);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [fit, setFit] = useState<PageFit | null>(null);
+  const onMeasureRef = useRef(onMeasure);
+  onMeasureRef.current = onMeasure;
+
+  // Measured before paint so the page-break marker never flickers; the observer
+  // catches later reflows such as web fonts finishing loading.
+  useLayoutEffect(() => {
+    const el = contentRef.current;
+    if (!el) return;
+    const measure = () => {
+      const next = measureFit(el.offsetHeight, t);
+      setFit(next);
+      onMeasureRef.current?.(next);
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [blocks, t]);
+
+  const headerAlign = t.centerHeader ? 'center' : 'left';
+  let inHeader = true;
+
+  // Highlight and margin badge for the block starting at `anchor`, if it has flagged claims.
+  const flagFor = (anchor: number) => {
+    const claims = flags?.byAnchor.get(anchor);
+    if (!flags || !claims) return { className: undefined, badge: null };
+    return { className: 'relative bg-amber-100 rounded-sm', badge: <ClaimFlag claims={claims} flags={flags} /> };
+  };
+
+  const renderBlock = (block: MdBlock, key: number) => {
+    switch (block.type) {
+      case 'heading':
+        if (block.level === 1) {
+          return (
+            <h1 key={key} style={{ fontSize: `${t.nameSize}pt`, color: t.accent, textAlign: headerAlign, fontWeight: 700, marginBottom: `${t.blockGap}pt` }}>
+              <Runs runs={block.runs} />
+            </h1>
+          );
+        }
+        if (block.level === 2) {
+          inHeader = false;
+          const flag = flagFor(block.span.start);
+          return (
+            <h2
+              key={key}
+              className={flag.className}
+              style={{
+                fontSize: `${t.sectionSize}pt`,
+                color: t.accent,
+                fontWeight: 700,
+                textTransform: t.uppercaseSections ? 'uppercase' : 'none',
+                borderBottom: t.sectionRule ? `0.6pt solid ${t.accent}` : 'none',
+                marginTop: `${t.sectionGap}pt`,
+                marginBottom: `${t.blockGap}pt`,
+              }}
+            >
+              <Runs runs={block.runs} />
+              {flag.badge}
+            </h2>
+          );
+        }
+        const flag = flagFor(block.span.start);
+        return (
+          <h3 key={key} className={flag.className} style={{ fontSize: `${t.subheadingSize}pt`, fontWeight: 700, marginTop: `${t.blockGap}pt` }}>
+            <Runs runs={block.runs} />
+            {flag.badge}
+          </h3>
+        );
+      case 'paragraph': {
+        const flag = flagFor(block.span.start);
+        return (
+          <p key={key} className={flag.className} style={{ textAlign: inHeader ? headerAlign : 'left', marginBottom: `${t.blockGap}pt` }}>
+            <Runs runs={block.runs} />
+            {flag.badge}
+          </p>
+        );
+      }
+      case 'list': {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List key={key} style={{ listStyle: block.ordered ? 'decimal' : 'disc', paddingLeft: '12pt', marginBottom: `${t.blockGap}pt` }}>
+            {block.items.map((item, i) => {
+              const flag = flagFor(block.spans[i].start);
+              return <li key={i} className={flag.className}><Runs runs={item} />{flag.badge}</li>;
+            })}
+          </List>
+        );
+      }
+      default:
+        return <hr key={key} style={{ borderColor: t.text, margin: `${t.blockGap}pt 0` }} />;
+    }
+  };
+
+  return (
+    <div
+      className="a4-container relative border border-gray-100 shadow-2xl bg-white"
+      style={{
+        padding: `${t.margin}mm`,
+        fontFamily: PREVIEW_FONTS[t.font],
+        fontSize: `${t.bodySize}pt`,
+        lineHeight: t.lineHeight,
+        color: t.text,
+      }}
+    >
+      {/* flow-root keeps the first and last margins inside the measured box */}
+      <div ref={contentRef} style={{ display: 'flow-root' }}>
+        {blocks.map(renderBlock)}
+      </div>
+      {fit && !fitsOnePage(fit) && (
+        <div
+          className="absolute left-0 right-0 border-t-2 border-dashed border-red-400 no-print pointer-events-none"
+          style={{ top: `${A4_HEIGHT_MM - t.margin}mm` }}
+        />
+      )}
+    </div>
+  );
+};
+
+/**
+ * Lays the resume out off-screen and measures it, so loops can check a
+ * candidate text before it is shown.
+ */
+export const measureResume = (markdown: string, template: ResumeTemplate): PageFit => {
+  const host = document.createElement('div');
+  host.style.cssText = 'position:absolute;left:-10000px;top:0;visibility:hidden;';
+  document.body.appendChild(host);
+  const root = createRoot(host);
+  let fit: PageFit | null = null;
+  try {
+    flushSync(() => root.render(<ResumePreview markdown={markdown} template={template} onMeasure={f => { fit = f; }} />));
+  } finally {
+    root.unmount();
+    host.remove();
+  }
+  return fit!;
+};
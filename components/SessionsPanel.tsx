@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Check, Copy, FolderOpen, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Language } from '../types';
+import { SessionSummary } from '../services/storage';
+
+interface SessionsPanelProps {
+  lang: Language;
+  sessions: SessionSummary[];
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export const SessionsPanel = ({
+  lang, sessions, activeId, onOpen, onCreate, onRename, onDuplicate, onDelete, onClose
+}: SessionsPanelProps) => {
+  const zh = lang === 'zh';
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-[90] flex justify-end no-print" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-white shadow-2xl p-6 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-gray-900">{zh ? '已保存的会话' : 'Saved Sessions'}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+            <X size={20} />
+          </button>
+        </div>
+
+        <button
+          onClick={onCreate}
+          className="flex items-center justify-center gap-2 p-3 mb-4 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-all text-sm"
+        >
+          <Plus size={16} />
+          {zh ? '新建会话' : 'New Session'}
+        </button>
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {sessions.length === 0 && (
+            <p className="text-sm text-gray-400 text-center py-10">{zh ? '暂无保存的会话' : 'No saved sessions yet'}</p>
+          )}
+          {sessions.map(s => (
+            <div
+              key={s.id}
+              className={`p-4 rounded-xl border text-sm transition-colors ${
+                s.id === activeId ? 'border-blue-300 bg-blue-50' : 'border-gray-100 bg-gray-50 hover:bg-white'
+              }`}
+            >
+              {editingId === s.id ? (
+                <div className="flex gap-2">
+                  <input
+                    autoFocus
+                    className="flex-1 px-3 py-1.5 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 text-sm"
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                  />
+                  <button onClick={commitRename} className="p-1.5 rounded-lg text-blue-600 hover:bg-blue-100">
+                    <Check size={16} />
+                  </button>
+                </div>
+              ) : (
+                <p className="font-bold text-gray-900 truncate">{s.name}</p>
+              )}
+              <div className="flex justify-between items-center mt-2">
+                <span className="text-xs text-gray-400">
+                  {new Date(s.updatedAt).toLocaleString(zh ? 'zh-CN' : 'en-US')}
+                </span>
+                <div className="flex gap-1 text-gray-400">
+                  <button
+                    onClick={() => onOpen(s.id)}
+                    disabled={s.id === activeId}
+                    className="p-1.5 rounded-lg hover:bg-gray-100 hover:text-blue-600 disabled:opacity-30"
+                    title={zh ? '打开' : 'Open'}
+                  >
+                    <FolderOpen size={16} />
+                  </button>
+                  <button
+                    onClick={() => { setEditingId(s.id); setDraftName(s.name); }}
+                    className="p-1.5 rounded-lg hover:bg-gray-100 hover:text-gray-700"
+                    title={zh ? '重命名' : 'Rename'}
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => onDuplicate(s.id)}
+                    className="p-1.5 rounded-lg hover:bg-gray-100 hover:text-gray-700"
+                    title={zh ? '复制' : 'Duplicate'}
+                  >
+                    <Copy size={16} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm(zh ? `删除会话「${s.name}」？` : `Delete session "${s.name}"?`)) onDelete(s.id);
+                    }}
+                    className="p-1.5 rounded-lg hover:bg-red-50 hover:text-red-600"
+                    title={zh ? '删除' : 'Delete'}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
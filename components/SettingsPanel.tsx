@@ -0,0 +1,154 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { Language } from '../types';
+import { DEFAULT_MODELS, ProviderSettings, TranscriptionBackend, WORKFLOW_STEPS } from '../llm/config';
+import { ProviderId, WorkflowStep } from '../llm/types';
+
+interface SettingsPanelProps {
+  lang: Language;
+  settings: ProviderSettings;
+  // Providers the server holds credentials for; null while loading.
+  available: ProviderId[] | null;
+  // Whether the server has a Whisper endpoint; null while loading.
+  whisper: boolean | null;
+  onChange: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDERS: { id: ProviderId; label: string; hint: { en: string; zh: string }; envVar?: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', hint: { en: 'Default cloud models', zh: '默认云端模型' }, envVar: 'GEMINI_API_KEY' },
+  { id: 'openai', label: 'OpenAI-compatible', hint: { en: 'OpenAI or a local server (Ollama, LM Studio...)', zh: 'OpenAI 或本地服务（Ollama、LM Studio 等）' }, envVar: 'OPENAI_BASE_URL' },
+  { id: 'mock', label: 'Mock', hint: { en: 'Deterministic offline demo data', zh: '离线演示用的固定数据' } },
+];
+
+const TRANSCRIPTION: { id: TranscriptionBackend; label: { en: string; zh: string }; hint: { en: string; zh: string } }[] = [
+  {
+    id: 'model',
+    label: { en: 'File extraction model', zh: '文件解析模型' },
+    hint: { en: 'Sends the audio to the model above; it must accept audio input', zh: '将音频发送给上面的模型，该模型需支持音频输入' },
+  },
+  {
+    id: 'whisper',
+    label: { en: 'Whisper endpoint', zh: 'Whisper 服务' },
+    hint: { en: 'OpenAI or a local whisper.cpp / faster-whisper server', zh: 'OpenAI 或本地 whisper.cpp / faster-whisper 服务' },
+  },
+];
+
+const STEP_LABELS: Record<WorkflowStep, { en: string; zh: string }> = {
+  brainstorm: { en: 'Brainstorm', zh: '头脑风暴' },
+  extract: { en: 'File extraction', zh: '文件解析' },
+  fitCheck: { en: 'Fit Check', zh: '匹配检查' },
+  draft: { en: 'Draft & Diagnosis', zh: '初稿与诊断' },
+  polish: { en: 'Final Polish', zh: '最终打磨' },
+};
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+export const SettingsPanel = ({ lang, settings, available, whisper, onChange, onClose }: SettingsPanelProps) => {
+  const zh = lang === 'zh';
+
+  const selectProvider = (provider: ProviderId) =>
+    onChange({ ...settings, provider, models: { ...DEFAULT_MODELS[provider] } });
+
+  return (
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-[90] flex justify-end no-print" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-white shadow-2xl p-6 overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-gray-900">{zh ? '模型设置' : 'Model Settings'}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+            <X size={20} />
+          </button>
+        </div>
+
+        <h3 className="text-xs font-black text-gray-500 uppercase tracking-widest mb-3">{zh ? '服务提供方' : 'Provider'}</h3>
+        <div className="space-y-2 mb-8">
+          {PROVIDERS.map(p => {
+            const configured = !available || available.includes(p.id);
+            return (
+              <label
+                key={p.id}
+                className={`flex items-start gap-3 p-4 rounded-xl border transition-colors ${
+                  !configured ? 'opacity-50 cursor-not-allowed border-gray-100' :
+                  settings.provider === p.id ? 'border-blue-300 bg-blue-50 cursor-pointer' : 'border-gray-100 bg-gray-50 hover:bg-white cursor-pointer'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="provider"
+                  className="mt-1"
+                  disabled={!configured}
+                  checked={settings.provider === p.id}
+                  onChange={() => selectProvider(p.id)}
+                />
+                <span>
+                  <span className="block font-bold text-sm text-gray-900">{p.label}</span>
+                  <span className="block text-xs text-gray-500">{p.hint[lang]}</span>
+                  {!configured && p.envVar && (
+                    <span className="block text-xs text-orange-600 mt-1">
+                      {zh ? `服务器未配置 ${p.envVar}` : `${p.envVar} is not set on the server`}
+                    </span>
+                  )}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+
+        <h3 className="text-xs font-black text-gray-500 uppercase tracking-widest mb-3">{zh ? '各步骤模型' : 'Model per Step'}</h3>
+        <div className="space-y-3">
+          {WORKFLOW_STEPS.map(s => (
+            <div key={s}>
+              <label className="block text-xs font-bold text-gray-600 mb-1">{STEP_LABELS[s][lang]}</label>
+              <input
+                className={inputClass}
+                list={`models-${settings.provider}`}
+                value={settings.models[s]}
+                onChange={(e) => onChange({ ...settings, models: { ...settings.models, [s]: e.target.value } })}
+              />
+            </div>
+          ))}
+          <datalist id={`models-${settings.provider}`}>
+            {[...new Set(Object.values(DEFAULT_MODELS[settings.provider]))].map(m => <option key={m} value={m} />)}
+          </datalist>
+        </div>
+
+        <h3 className="text-xs font-black text-gray-500 uppercase tracking-widest mt-8 mb-1">{zh ? '录音转写' : 'Audio Transcription'}</h3>
+        <p className="text-xs text-gray-400 mb-3">
+          {zh ? '仅在浏览器不支持语音识别（如 Firefox）时用于语音输入。' : 'Used for voice input only where the browser has no speech recognition, e.g. Firefox.'}
+        </p>
+        <div className="space-y-2">
+          {TRANSCRIPTION.map(t => {
+            const configured = t.id === 'model' || whisper !== false;
+            return (
+              <label
+                key={t.id}
+                className={`flex items-start gap-3 p-4 rounded-xl border transition-colors ${
+                  !configured ? 'opacity-50 cursor-not-allowed border-gray-100' :
+                  settings.transcription === t.id ? 'border-blue-300 bg-blue-50 cursor-pointer' : 'border-gray-100 bg-gray-50 hover:bg-white cursor-pointer'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="transcription"
+                  className="mt-1"
+                  disabled={!configured}
+                  checked={settings.transcription === t.id}
+                  onChange={() => onChange({ ...settings, transcription: t.id })}
+                />
+                <span>
+                  <span className="block font-bold text-sm text-gray-900">{t.label[lang]}</span>
+                  <span className="block text-xs text-gray-500">{t.hint[lang]}</span>
+                  {!configured && (
+                    <span className="block text-xs text-orange-600 mt-1">
+                      {zh ? '服务器未配置 WHISPER_BASE_URL' : 'WHISPER_BASE_URL is not set on the server'}
+                    </span>
+                  )}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
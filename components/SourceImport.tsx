@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle2, Copy, Database, Loader2, Upload, X } from 'lucide-react';
+import { ExperienceDocument, Language } from '../types';
+import { SOURCE_ACCEPT, SourceImport, describeProfile } from '../lib/sources';
+import { isProfileEmpty } from '../lib/profile';
+
+interface SourceDropZoneProps {
+  lang: Language;
+  onFiles: (files: File[]) => void;
+}
+
+/** Upload button that also takes several files dropped onto it. */
+export const SourceDropZone = ({ lang, onFiles }: SourceDropZoneProps) => {
+  const zh = lang === 'zh';
+  const [dragging, setDragging] = useState(false);
+
+  return (
+    <label
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragging(false);
+        const files = Array.from<File>(e.dataTransfer.files ?? []);
+        if (files.length) onFiles(files);
+      }}
+      className={`flex-1 flex items-center justify-center gap-3 p-4 rounded-2xl font-bold border-2 border-dashed cursor-pointer transition-all group ${
+        dragging
+          ? 'border-blue-600 text-blue-600 bg-blue-50'
+          : 'bg-white border-gray-300 text-gray-600 hover:border-blue-600 hover:text-blue-600 hover:bg-blue-50'
+      }`}
+    >
+      <Upload size={20} className="group-hover:bounce" />
+      {dragging ? (zh ? '松开以导入' : 'Drop to import') : (zh ? '上传或拖入文件' : 'Upload or drop files')}
+      <input
+        type="file"
+        multiple
+        className="hidden"
+        accept={SOURCE_ACCEPT}
+        onChange={(e) => {
+          const files = Array.from<File>(e.target.files ?? []);
+          e.target.value = '';
+          if (files.length) onFiles(files);
+        }}
+      />
+    </label>
+  );
+};
+
+const STATUS_LABELS: Record<SourceImport['status'], { en: string; zh: string }> = {
+  queued: { en: 'Waiting', zh: '等待中' },
+  reading: { en: 'Reading', zh: '读取中' },
+  extracting: { en: 'Extracting text', zh: '正在识别文字' },
+  done: { en: 'Added', zh: '已添加' },
+  duplicate: { en: 'Already imported', zh: '已导入过，已跳过' },
+  error: { en: 'Failed', zh: '失败' },
+};
+
+interface SourceImportListProps {
+  lang: Language;
+  imports: SourceImport[];
+  onClear: () => void;
+}
+
+/** Progress of each imported file. */
+export const SourceImportList = ({ lang, imports, onClear }: SourceImportListProps) => {
+  const zh = lang === 'zh';
+  if (!imports.length) return null;
+  const busy = imports.some(i => i.status === 'queued' || i.status === 'reading' || i.status === 'extracting');
+
+  return (
+    <div className="rounded-2xl border border-gray-100 bg-gray-50 p-3 space-y-1.5">
+      <div className="flex justify-between items-center px-1">
+        <span className="text-[10px] font-black uppercase tracking-widest text-gray-400">{zh ? '导入的文件' : 'Imported files'}</span>
+        {!busy && (
+          <button onClick={onClear} className="p-1 rounded text-gray-400 hover:text-gray-700" title={zh ? '清空列表' : 'Clear list'}>
+            <X size={14} />
+          </button>
+        )}
+      </div>
+      {imports.map(item => (
+        <div key={item.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-white text-xs">
+          {item.status === 'done' && <CheckCircle2 size={14} className="text-green-600 flex-shrink-0" />}
+          {item.status === 'duplicate' && <Copy size={14} className="text-gray-400 flex-shrink-0" />}
+          {item.status === 'error' && <AlertCircle size={14} className="text-red-600 flex-shrink-0" />}
+          {(item.status === 'queued' || item.status === 'reading' || item.status === 'extracting') && (
+            <Loader2 size={14} className={`flex-shrink-0 text-blue-600 ${item.status === 'queued' ? '' : 'animate-spin'}`} />
+          )}
+          <span className="flex-1 min-w-0 truncate font-semibold text-gray-800">{item.name}</span>
+          <span className={`max-w-[55%] truncate ${item.status === 'error' ? 'text-red-600' : 'text-gray-400'}`} title={item.error || undefined}>
+            {item.status === 'error' && item.error ? item.error : item.detail || STATUS_LABELS[item.status][lang]}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface StructuredSummaryProps {
+  lang: Language;
+  profile: ExperienceDocument;
+  onClear: () => void;
+}
+
+/** Entries held from LinkedIn and JSON Resume imports, merged into the brainstorm result. */
+export const StructuredSummary = ({ lang, profile, onClear }: StructuredSummaryProps) => {
+  const zh = lang === 'zh';
+  if (isProfileEmpty(profile)) return null;
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-3 rounded-2xl border border-blue-100 bg-blue-50/50 text-xs text-blue-900">
+      <Database size={14} className="flex-shrink-0" />
+      <span className="flex-1">
+        <span className="font-bold">{zh ? '结构化数据' : 'Structured data'}</span> · {describeProfile(profile, lang)}
+      </span>
+      <button onClick={onClear} className="font-bold text-blue-600 hover:text-red-600">
+        {zh ? '清除' : 'Clear'}
+      </button>
+    </div>
+  );
+};
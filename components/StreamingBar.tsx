@@ -0,0 +1,26 @@
+import React from 'react';
+import { Loader2, X } from 'lucide-react';
+import { Language } from '../types';
+
+interface StreamingBarProps {
+  lang: Language;
+  message: string;
+  onCancel: () => void;
+}
+
+// Non-blocking progress strip shown while a streamed response renders into the page.
+export const StreamingBar = ({ lang, message, onCancel }: StreamingBarProps) => (
+  <div className="sticky top-4 z-[80] mb-6 flex items-center justify-between gap-4 px-5 py-3 bg-gray-900 text-white rounded-2xl shadow-xl no-print">
+    <div className="flex items-center gap-3 text-sm font-medium">
+      <Loader2 className="animate-spin text-blue-400" size={18} />
+      {message}
+    </div>
+    <button
+      onClick={onCancel}
+      className="flex items-center gap-1.5 px-4 py-1.5 rounded-xl bg-white/10 hover:bg-red-500 text-xs font-black uppercase tracking-widest transition-colors"
+    >
+      <X size={14} />
+      {lang === 'zh' ? '取消' : 'Cancel'}
+    </button>
+  </div>
+);
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Language, TemplateId } from '../types';
+import { TEMPLATES } from '../lib/templates';
+
+interface TemplatePickerProps {
+  lang: Language;
+  value: TemplateId;
+  onChange: (id: TemplateId) => void;
+}
+
+export const TemplatePicker = ({ lang, value, onChange }: TemplatePickerProps) => (
+  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-8 no-print">
+    {TEMPLATES.map(t => (
+      <button
+        key={t.id}
+        onClick={() => onChange(t.id)}
+        className={`text-left p-4 rounded-xl border transition-colors ${
+          value === t.id ? 'border-blue-300 bg-blue-50' : 'border-gray-100 bg-gray-50 hover:bg-white'
+        }`}
+      >
+        <span className="flex items-center gap-2 font-bold text-sm text-gray-900">
+          <span className="w-3 h-3 rounded-full" style={{ backgroundColor: t.accent }} />
+          {t.name[lang]}
+        </span>
+        <span className="block text-xs text-gray-500 mt-1">{t.description[lang]}</span>
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { GitBranch, History, RotateCcw, X } from 'lucide-react';
+import { Language, ResumeVersion } from '../types';
+import { diffLines } from '../lib/diff';
+import { DiffMode, DiffModeToggle, DiffView } from './DiffView';
+
+interface VersionHistoryProps {
+  lang: Language;
+  versions: ResumeVersion[];
+  // The texts on screen, to mark which version each one is.
+  current: Record<ResumeVersion['target'], string>;
+  onRestore: (version: ResumeVersion) => void;
+  onBranch: (version: ResumeVersion) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<ResumeVersion['source'], { en: string; zh: string }> = {
+  draft: { en: 'Draft', zh: '初稿' },
+  polish: { en: 'Polish', zh: '抛光' },
+  condense: { en: 'Condensed', zh: '压缩' },
+  fix: { en: 'Critique fix', zh: '诊断修改' },
+  refine: { en: 'Chat revision', zh: '对话修改' },
+  edit: { en: 'Hand edit', zh: '手动修改' },
+};
+
+/** Every kept draft and final resume, with a diff between any two and restore or branch actions. */
+export const VersionHistory = ({ lang, versions, current, onRestore, onBranch, onClose }: VersionHistoryProps) => {
+  const zh = lang === 'zh';
+  const newestFirst = [...versions].reverse();
+  // Defaults to the two newest versions, older on the left.
+  const [compare, setCompare] = useState<{ a: string | null; b: string | null }>({
+    a: newestFirst[1]?.id ?? null,
+    b: newestFirst[0]?.id ?? null,
+  });
+  const [mode, setMode] = useState<DiffMode>('split');
+
+  const a = versions.find(v => v.id === compare.a);
+  const b = versions.find(v => v.id === compare.b);
+  const lines = useMemo(() => (a && b ? diffLines(a.markdown, b.markdown) : []), [a, b]);
+  const byId = new Map(versions.map(v => [v.id, v]));
+
+  return (
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-[90] flex justify-end no-print" onClick={onClose}>
+      <div className="w-full max-w-4xl h-full bg-white shadow-2xl p-6 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <History size={20} />
+            {zh ? '版本历史' : 'Version History'}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full">
+            <X size={20} />
+          </button>
+        </div>
+
+        {versions.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-10">{zh ? '还没有生成过简历' : 'No resume has been generated yet'}</p>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col gap-6">
+            <div className="max-h-[45%] overflow-y-auto space-y-2">
+              {newestFirst.map(v => {
+                const parent = v.parentId ? byId.get(v.parentId) : undefined;
+                const isCurrent = current[v.target] === v.markdown;
+                return (
+                  <div
+                    key={v.id}
+                    className={`flex items-start gap-3 p-3 rounded-xl border text-sm ${
+                      isCurrent ? 'border-blue-300 bg-blue-50' : 'border-gray-100 bg-gray-50'
+                    }`}
+                  >
+                    <span className="px-2 py-0.5 rounded bg-gray-900 text-white text-[10px] font-black tracking-widest">v{v.number}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-bold text-gray-900">
+                        {SOURCE_LABELS[v.source][lang]}
+                        <span className="ml-2 text-xs font-medium text-gray-400">
+                          {v.target === 'draft' ? (zh ? '初稿' : 'draft') : (zh ? '最终简历' : 'final')}
+                          {parent && ` · ${zh ? '基于' : 'from'} v${parent.number}`}
+                          {' · '}{new Date(v.createdAt).toLocaleString(zh ? 'zh-CN' : 'en-US')}
+                          {isCurrent && ` · ${zh ? '当前' : 'current'}`}
+                        </span>
+                      </p>
+                      {v.additionalInfo && (
+                        <p className="text-xs text-gray-500 truncate" title={v.additionalInfo}>
+                          {v.source === 'refine' ? (zh ? '指令：' : 'Instruction: ') : (zh ? '补充信息：' : 'Extra info: ')}
+                          {v.additionalInfo}
+                        </p>
+                      )}
+                      {v.critiques.length > 0 && (
+                        <p className="text-xs text-gray-500 truncate" title={v.critiques.join('\n')}>
+                          {zh ? `处理了 ${v.critiques.length} 条诊断：` : `Addressed ${v.critiques.length} critique${v.critiques.length > 1 ? 's' : ''}: `}
+                          {v.critiques.join('; ')}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      {(['a', 'b'] as const).map(side => (
+                        <button
+                          key={side}
+                          onClick={() => setCompare(prev => ({ ...prev, [side]: v.id }))}
+                          title={zh ? `设为对比 ${side.toUpperCase()}` : `Compare as ${side.toUpperCase()}`}
+                          className={`w-7 h-7 rounded-lg text-[11px] font-black ${
+                            compare[side] === v.id ? 'bg-blue-600 text-white' : 'bg-white border border-gray-200 text-gray-500 hover:bg-gray-100'
+                          }`}
+                        >
+                          {side.toUpperCase()}
+                        </button>
+                      ))}
+                      <button
+                        disabled={isCurrent}
+                        onClick={() => onRestore(v)}
+                        title={zh ? '恢复此版本' : 'Restore this version'}
+                        className="p-1.5 hover:bg-white rounded-lg text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                      >
+                        <RotateCcw size={16} />
+                      </button>
+                      <button
+                        onClick={() => onBranch(v)}
+                        title={zh ? '从此版本新建分支申请' : 'Branch into a new application'}
+                        className="p-1.5 hover:bg-white rounded-lg text-gray-500 hover:text-gray-900"
+                      >
+                        <GitBranch size={16} />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex-1 min-h-0 flex flex-col">
+              <div className="flex items-center justify-between mb-3">
+                <p className="text-sm font-bold text-gray-700">
+                  {a && b
+                    ? `v${a.number} → v${b.number}`
+                    : (zh ? '选择 A 和 B 两个版本进行对比' : 'Pick versions A and B to compare')}
+                </p>
+                <DiffModeToggle lang={lang} mode={mode} onChange={setMode} />
+              </div>
+              <div className="flex-1 overflow-y-auto">
+                {a && b && <DiffView lines={lines} mode={mode} />}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
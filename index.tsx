@@ -1,55 +1,186 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
 import { 
   Mic, 
-  Upload, 
   FileText, 
   ChevronRight, 
   ChevronLeft, 
-  Download, 
   AlertCircle, 
   CheckCircle2, 
   RotateCcw,
   Languages,
   Loader2,
   Trash2,
-  Plus
+  Plus,
+  FolderOpen,
+  Settings,
+  History,
+  Mail,
+  GraduationCap,
+  Wand2,
+  Layers
 } from 'lucide-react';
-import { GoogleGenAI, Type } from "@google/genai";
-
-// --- Types & Constants ---
-
-type Language = 'en' | 'zh';
-
-interface AnalysisResult {
-  score: number;
-  dnaComparison: { dna: string; jd: string }[];
-  pros: string[];
-  cons: string[];
-  conclusion: 'Go for it' | 'Stretch goal' | 'Pivot needed' | '大胆冲' | '够一够' | '需要转行';
-  alternatives: string[];
-}
-
-interface Critique {
-  level: 'fatal' | 'important' | 'minor';
-  text: string;
-  suggestion: string;
-}
-
-// --- AI System Prompts ---
-
-const SYSTEM_PROMPT_BASE = `
-ROLE: You are a result-oriented recruiting expert and resume analysis system.
-OBJECTIVE: Maximize resume success (ATS + Human review).
-STRICT RULES:
-- Never fabricate, hallucinate, or exaggerate.
-- No flattery or filler language.
-- Stay objective and technical.
-- If data is missing, mark as [MISSING].
-- Strictly output in the user's requested language.
-- Final resume must fit one A4 page.
-`;
+import {
+  CoverLetter,
+  Critique,
+  CritiqueResolution,
+  ExperienceDocument,
+  InterviewQuestion,
+  JobApplication,
+  Language,
+  StructuredJd,
+  StructuredResume,
+  RefineTurn,
+  ResumeVersion
+} from './types';
+import { emptyProfile, isProfileEmpty, mergeProfiles, normalizeProfile, profileEntryNames, profileText } from './lib/profile';
+import { parsePartialJson } from './lib/partialJson';
+import { createApplication, defaultApplicationTitle, furthestStep } from './lib/applications';
+import { getTemplate } from './lib/templates';
+import { replaceSection, sectionText, splitSections } from './lib/markdown';
+import { appendVersion, branchApplication, findVersion, versionLabel } from './lib/versions';
+import { MAX_CONDENSE_ATTEMPTS, PageFit, fitsOnePage } from './lib/pageFit';
+import { analyzeKeywords } from './lib/ats';
+import { removeClaim, verifyClaims } from './lib/claims';
+import { MissingDataGap, fillMissingData, findMissingData } from './lib/missingData';
+import { htmlToText } from './lib/html';
+import { jdToText } from './lib/jd';
+import {
+  SourceImport,
+  SourceKind,
+  containsText,
+  contentId,
+  describeProfile,
+  isStructured,
+  needsExtraction,
+  readSourceText,
+  readStructuredSource,
+  sourceBlock,
+  sourceIds,
+  sourceKind
+} from './lib/sources';
+import { DictatedNotes, DictationSegment, appendSegment, removeSegment, replaceSegment, setNotesText } from './lib/dictation';
+import { BATCH_CONCURRENCY, BatchPosting, createPosting, guessTitle, runPool, splitPostings } from './lib/batch';
+import { ProviderSettings } from './llm/config';
+import { ProviderId } from './llm/types';
+import {
+  ApiError,
+  answerFeedback,
+  brainstorm,
+  condenseResume,
+  draftCoverLetter,
+  draftResume,
+  extractFile,
+  fetchConfig,
+  fixCritique,
+  fitCheck,
+  importJd,
+  interviewPrep,
+  isAbortError,
+  missingDataQuestions,
+  polishCoverLetter,
+  polishResume,
+  refineResume,
+  structureResume,
+  transcribe,
+  toApiError
+} from './services/api';
+import { CoverLetterResponse, CritiqueFeedback, DraftResponse, JdSource } from './server/contract';
+import { loadSettings, saveSettings } from './services/settings';
+import { DictationSession, DictationSessionHandlers, DictationStatus, isSpeechSupported, startDictationSession } from './services/speech';
+import { isRecordingSupported, startRecordingSession } from './services/recorder';
+import { ExportFormat, exportResume, exportStructured, isStructuredFormat } from './services/export';
+import { ProfileEditor } from './components/ProfileEditor';
+import { SettingsPanel } from './components/SettingsPanel';
+import { StreamingBar } from './components/StreamingBar';
+import { ErrorPanel } from './components/ErrorPanel';
+import { ResumeEditor } from './components/ResumeEditor';
+import { measureResume } from './components/ResumePreview';
+import { FitIndicator } from './components/FitIndicator';
+import { AtsPanel } from './components/AtsPanel';
+import { ClaimFlags, ClaimSummary, groupFlags } from './components/ClaimFlag';
+import { MissingDataPanel } from './components/MissingDataPanel';
+import { CritiquePanel } from './components/CritiquePanel';
+import { FixPreview } from './components/FixPreview';
+import { VersionHistory } from './components/VersionHistory';
+import { RefineChat } from './components/RefineChat';
+import { CoverLetterOptions } from './components/CoverLetterOptions';
+import { ExportButtons } from './components/ExportButtons';
+import { ExportReport, ExportReportData } from './components/ExportReport';
+import { InterviewPrep } from './components/InterviewPrep';
+import { BatchFitCheck } from './components/BatchFitCheck';
+import { JdEditor } from './components/JdEditor';
+import { JdImport } from './components/JdImport';
+import { DictationPanel } from './components/DictationPanel';
+import { SourceDropZone, SourceImportList, StructuredSummary } from './components/SourceImport';
+import { TemplatePicker } from './components/TemplatePicker';
+import { ApplicationBar } from './components/ApplicationBar';
+import { SessionsPanel } from './components/SessionsPanel';
+import {
+  SessionSummary,
+  WorkspaceSnapshot,
+  createSession,
+  defaultSessionName,
+  deleteSession,
+  duplicateSession,
+  getActiveSessionId,
+  listSessions,
+  loadSession,
+  renameSession,
+  saveSnapshot,
+  setActiveSessionId
+} from './services/storage';
+
+const AUTOSAVE_DELAY_MS = 800;
+
+const emptySnapshot = (lang: Language): WorkspaceSnapshot => {
+  const application = createApplication(defaultApplicationTitle(lang, 1));
+  return {
+    step: 0,
+    lang,
+    rawText: '',
+    experienceDoc: emptyProfile(),
+    structuredProfile: emptyProfile(),
+    applications: [application],
+    activeApplicationId: application.id
+  };
+};
+
+// Reads whatever part of the draft JSON has streamed in so far.
+const readPartialCritiques = (critiques: unknown): Critique[] =>
+  (Array.isArray(critiques) ? critiques as Partial<Critique>[] : [])
+    .filter(c => c && typeof c.text === 'string')
+    .map(c => ({ level: c.level || 'minor', text: c.text!, suggestion: c.suggestion || '' }));
+
+const readPartialDraft = (text: string): { resumeDraft: string; critiques: Critique[] } => {
+  const partial = (parsePartialJson(text) || {}) as Partial<DraftResponse>;
+  return {
+    resumeDraft: typeof partial.resumeMarkdown === 'string' ? partial.resumeMarkdown : '',
+    critiques: readPartialCritiques(partial.critiques)
+  };
+};
+
+const readPartialCoverLetter = (text: string): Pick<CoverLetter, 'markdown' | 'critiques'> => {
+  const partial = (parsePartialJson(text) || {}) as Partial<CoverLetterResponse>;
+  return {
+    markdown: typeof partial.letterMarkdown === 'string' ? partial.letterMarkdown : '',
+    critiques: readPartialCritiques(partial.critiques)
+  };
+};
+
+const readAsBase64 = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// Dismissals and answers, in the form later requests carry them.
+const toFeedback = (resolutions: Record<string, CritiqueResolution>): CritiqueFeedback[] =>
+  Object.entries(resolutions).flatMap(([critique, { status, note }]: [string, CritiqueResolution]) =>
+    status === 'applied' ? [] : [{ critique, status, note }]);
 
 // --- Components ---
 
@@ -58,286 +189,1015 @@ const App = () => {
   const [lang, setLang] = useState<Language>('zh');
   const [loading, setLoading] = useState(false);
   const [loadingMsg, setLoadingMsg] = useState('');
+  const [streaming, setStreaming] = useState(false);
+  const [fit, setFit] = useState<PageFit | null>(null);
+  const [condenseGaveUp, setCondenseGaveUp] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<{ error: ApiError; retry?: () => void } | null>(null);
+  const [extraInfo, setExtraInfo] = useState('');
+  const [letterInfo, setLetterInfo] = useState('');
+  const [fixingCritique, setFixingCritique] = useState<string | null>(null);
+  // A section rewrite waiting for the user to accept its diff.
+  const [pendingFix, setPendingFix] = useState<{ critique: Critique; section: string; before: string; after: string } | null>(null);
   
   // Step 1 State
-  const [rawText, setRawText] = useState('');
+  // The notes, with this visit's dictation phrase by phrase; each phrase is also in the text.
+  const [notes, setNotes] = useState<DictatedNotes>({ text: '', segments: [] });
+  const rawText: string = notes.text;
+  const dictationSegments: DictationSegment[] = notes.segments;
+  // Typing and imports go through here, so the segments after a change move with it.
+  const setRawText = (update: string | ((prev: string) => string)) =>
+    setNotes((prev: DictatedNotes) => setNotesText(prev, typeof update === 'function' ? update(prev.text) : update));
   const [interimText, setInterimText] = useState('');
   const [isRecording, setIsRecording] = useState(false);
-  const [experienceDoc, setExperienceDoc] = useState<string>('');
-  
-  // Step 2 State
-  const [jd, setJd] = useState('');
-  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
-  
-  // Step 3 State
-  const [resumeDraft, setResumeDraft] = useState<string>('');
-  const [critiques, setCritiques] = useState<Critique[]>([]);
+  const [dictationStartedAt, setDictationStartedAt] = useState<number | null>(null);
+  const [dictationStatus, setDictationStatus] = useState<DictationStatus>('stopped');
+  const [dictationError, setDictationError] = useState<string | null>(null);
+  const [micLevel, setMicLevel] = useState(0);
+  const [retakeId, setRetakeId] = useState<string | null>(null);
+  // Recorded dictation (no Web Speech): keep each chunk's audio so it can be transcribed again.
+  const [keepAudio, setKeepAudio] = useState(false);
+  const [retranscribingId, setRetranscribingId] = useState<string | null>(null);
+  const [experienceDoc, setExperienceDoc] = useState<ExperienceDocument>(emptyProfile());
+  const [structuredProfile, setStructuredProfile] = useState<ExperienceDocument>(emptyProfile());
   
-  // Step 4 State
-  const [finalResume, setFinalResume] = useState<string>('');
+  // Step 2-4 State: one entry per targeted job, sharing the profile above
+  const [applications, setApplications] = useState<JobApplication[]>(() => emptySnapshot('zh').applications);
+  const [activeApplicationId, setActiveApplicationId] = useState<string | null>(() => applications[0]?.id ?? null);
 
-  const recognitionRef = useRef<any>(null);
+  const application = applications.find(a => a.id === activeApplicationId) ?? applications[0];
+  const { jd, analysis, resumeDraft, critiques, finalResume, coverLetter } = application;
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  // Local keyword coverage for whatever the current step shows: the profile at the Fit
+  // Check, then the draft, then the final resume.
+  const atsSubject = step === 2 ? profileText(experienceDoc) : step === 3 ? resumeDraft : finalResume;
+  const atsReport = useMemo(
+    () => (step >= 2 && jd.trim() ? analyzeKeywords(jd, atsSubject) : null),
+    [step, jd, atsSubject]
+  );
 
-  // --- Voice Input Logic ---
+  // Dismissals and answers travel with every later draft and polish request.
+  const critiqueFeedback = useMemo(() => toFeedback(application.critiqueResolutions), [application.critiqueResolutions]);
+  const letterFeedback = useMemo(() => toFeedback(coverLetter.critiqueResolutions), [coverLetter.critiqueResolutions]);
+  const critiqueEvidence = useMemo(
+    () => critiqueFeedback.filter(f => f.status === 'answered').map(f => f.note),
+    [critiqueFeedback]
+  );
+
+  // Fabrication check for the resume or letter on screen, traced against the profile and the raw notes.
+  // Skipped mid-stream, while the text is still partial.
+  const claimSubject = step === 3 ? resumeDraft : step === 4 ? finalResume : step === 5 ? coverLetter.markdown : '';
+  const claims = useMemo(
+    () => (!streaming && claimSubject
+      ? verifyClaims(claimSubject, [profileText(experienceDoc), rawText, ...critiqueEvidence], application.confirmedClaims)
+      : []),
+    [streaming, claimSubject, experienceDoc, rawText, critiqueEvidence, application.confirmedClaims]
+  );
+  const flaggedClaims = useMemo(() => groupFlags(claims), [claims]);
+  const missingGaps = useMemo(() => (streaming ? [] : findMissingData(claimSubject)), [streaming, claimSubject]);
 
+  // Patches one application by id, so a response that lands after the user switched tabs
+  // still updates the application that requested it.
+  const updateApplication = (id: string, patch: Partial<JobApplication>) =>
+    setApplications(prev => prev.map(a => (a.id === id ? { ...a, ...patch } : a)));
+
+  // Replaces the text the fabrication check and the missing-data panel are looking at.
+  const patchOnScreen = (markdown: string): Partial<JobApplication> =>
+    step === 3 ? { resumeDraft: markdown, polishSource: 'draft' }
+    : step === 4 ? { finalResume: markdown, polishSource: 'final' }
+    : { coverLetter: { ...coverLetter, markdown } };
+
+  const claimFlags: ClaimFlags = {
+    lang,
+    byAnchor: flaggedClaims,
+    onRemove: (claim) => updateApplication(application.id, patchOnScreen(removeClaim(claimSubject, claim))),
+    onConfirm: (claim) =>
+      updateApplication(application.id, { confirmedClaims: [...application.confirmedClaims, claim.text] })
+  };
+
+  // Workspace State
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [showSessions, setShowSessions] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showInterviewPrep, setShowInterviewPrep] = useState(false);
+  const [preparingInterview, setPreparingInterview] = useState(false);
+  const [importingJd, setImportingJd] = useState(false);
+  const [sourceImports, setSourceImports] = useState<SourceImport[]>([]);
+  const [showBatch, setShowBatch] = useState(false);
+  const [batch, setBatch] = useState<BatchPosting[]>([]);
+  const [batchRunning, setBatchRunning] = useState(false);
+  const batchAbortRef = useRef<AbortController | null>(null);
+  const [exportReport, setExportReport] = useState<ExportReportData | null>(null);
+  // The last final resume split into fields, so exporting both formats asks the model once.
+  const structuredRef = useRef<{ markdown: string; resume: StructuredResume } | null>(null);
+
+  // Provider State
+  const [settings, setSettings] = useState<ProviderSettings>(loadSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [availableProviders, setAvailableProviders] = useState<ProviderId[] | null>(null);
+  const [whisperAvailable, setWhisperAvailable] = useState<boolean | null>(null);
+
+  const dictationRef = useRef<DictationSession | null>(null);
+  const lastSavedRef = useRef('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => saveSettings(settings), [settings]);
+
+  useEffect(() => {
+    fetchConfig()
+      .then(({ providers, whisper }) => {
+        setAvailableProviders(providers);
+        setWhisperAvailable(whisper);
+      })
+      .catch(console.error);
+  }, []);
+
+  // --- Workspace Persistence ---
+
+  const snapshot = useMemo<WorkspaceSnapshot>(() => ({
+    step, lang, rawText, experienceDoc, structuredProfile, applications, activeApplicationId
+  }), [step, lang, rawText, experienceDoc, structuredProfile, applications, activeApplicationId]);
+
+  const applySnapshot = (s: WorkspaceSnapshot) => {
+    setStep(s.step);
+    setLang(s.lang);
+    setRawText(s.rawText);
+    setExperienceDoc(s.experienceDoc);
+    setStructuredProfile(s.structuredProfile);
+    setApplications(s.applications);
+    setActiveApplicationId(s.activeApplicationId);
+  };
+
+  const refreshSessions = () => listSessions().then(setSessions).catch(console.error);
+
+  const activateSession = (id: string, s: WorkspaceSnapshot) => {
+    lastSavedRef.current = JSON.stringify(s);
+    applySnapshot(s);
+    setSessionId(id);
+    setActiveSessionId(id);
+  };
+
+  const startNewSession = async () => {
+    const record = await createSession(defaultSessionName(lang), emptySnapshot(lang));
+    activateSession(record.id, record.snapshot);
+    await refreshSessions();
+  };
+
+  // Restore the last active session on load, or start a fresh one.
   useEffect(() => {
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    if (SpeechRecognition) {
-      if (recognitionRef.current) {
-        recognitionRef.current.stop();
+    (async () => {
+      try {
+        const activeId = getActiveSessionId();
+        const record = activeId ? await loadSession(activeId) : null;
+        if (record) activateSession(record.id, record.snapshot);
+        else await startNewSession();
+        await refreshSessions();
+      } catch (e) {
+        console.error('Failed to restore workspace', e);
       }
-      recognitionRef.current = new SpeechRecognition();
-      recognitionRef.current.continuous = true;
-      recognitionRef.current.interimResults = true;
-      recognitionRef.current.lang = lang === 'en' ? 'en-US' : 'zh-CN';
-
-      recognitionRef.current.onresult = (event: any) => {
-        let finalForThisBlock = '';
-        let currentInterim = '';
-        
-        for (let i = event.resultIndex; i < event.results.length; i++) {
-          const transcript = event.results[i][0].transcript;
-          if (event.results[i].isFinal) {
-            finalForThisBlock += transcript;
-          } else {
-            currentInterim += transcript;
-          }
+    })();
+  }, []);
+
+  // Autosave: debounce writes so typing and dictation don't hammer IndexedDB.
+  useEffect(() => {
+    if (!sessionId) return;
+    const serialized = JSON.stringify(snapshot);
+    if (serialized === lastSavedRef.current) return;
+    const timer = setTimeout(() => {
+      lastSavedRef.current = serialized;
+      saveSnapshot(sessionId, snapshot).then(refreshSessions).catch(console.error);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sessionId, snapshot]);
+
+  const handleOpenSession = async (id: string) => {
+    if (sessionId) await saveSnapshot(sessionId, snapshot);
+    const record = await loadSession(id);
+    if (record) activateSession(record.id, record.snapshot);
+    setShowSessions(false);
+  };
+
+  const handleDuplicateSession = async (id: string) => {
+    if (id === sessionId) await saveSnapshot(id, snapshot);
+    await duplicateSession(id, lang === 'zh' ? '(副本)' : '(copy)');
+    await refreshSessions();
+  };
+
+  const handleRenameSession = async (id: string, name: string) => {
+    await renameSession(id, name);
+    await refreshSessions();
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    await deleteSession(id);
+    if (id === sessionId) {
+      const [next] = await listSessions();
+      const record = next ? await loadSession(next.id) : null;
+      if (record) activateSession(record.id, record.snapshot);
+      else await startNewSession();
+    }
+    await refreshSessions();
+  };
+
+  // --- Job Applications ---
+
+  const handleSelectApplication = (id: string) => {
+    const target = applications.find(a => a.id === id);
+    if (!target) return;
+    setActiveApplicationId(id);
+    if (step > 0) setStep(furthestStep(target));
+  };
+
+  const handleCreateApplication = () => {
+    const created = createApplication(defaultApplicationTitle(lang, applications.length + 1));
+    setApplications(prev => [...prev, created]);
+    setActiveApplicationId(created.id);
+    setStep(isProfileEmpty(experienceDoc) ? 0 : 1);
+  };
+
+  const handleDeleteApplication = (id: string) => {
+    const remaining = applications.filter(a => a.id !== id);
+    if (remaining.length === 0) remaining.push(createApplication(defaultApplicationTitle(lang, 1)));
+    setApplications(remaining);
+    if (id === application.id) {
+      setActiveApplicationId(remaining[0].id);
+      if (step > 0) setStep(furthestStep(remaining[0]));
+    }
+  };
+
+  // --- Voice Input Logic ---
+
+  useEffect(() => () => dictationRef.current?.stop(), []);
+
+  const transcribeAudio = async (wav: Blob) =>
+    (await transcribe({ lang, settings, audio: { mimeType: 'audio/wav', data: await readAsBase64(wav) } })).text;
+
+  // Starts dictating into the notes, or into one segment when `retake` is given.
+  const startVoice = (retake: DictationSegment | null) => {
+    dictationRef.current?.stop();
+    if (!isSpeechSupported() && !isRecordingSupported()) {
+      setDictationError('not-supported');
+      return;
+    }
+    setInterimText('');
+    setDictationError(null);
+    setRetakeId(retake?.id ?? null);
+    setIsRecording(true);
+    setDictationStatus('listening');
+    // A retake replaces the segment with its first phrase and appends the ones after.
+    let retaken = '';
+    const handlers: DictationSessionHandlers = {
+      onSegment: (text, at, _end, audio) => {
+        // Chunks that failed to transcribe always get a segment of their own, to retry from.
+        if (!retake || !text) {
+          setNotes((prev: DictatedNotes) => appendSegment(prev, { id: crypto.randomUUID(), text, at, audio }));
+          return;
         }
-        
-        if (finalForThisBlock) {
-          setRawText(prev => prev + finalForThisBlock + ' ');
+        retaken = retaken ? `${retaken} ${text}` : text;
+        const after = retaken;
+        setNotes((prev: DictatedNotes) => replaceSegment(prev, retake.id, after, { audio }));
+      },
+      onInterim: setInterimText,
+      onLevel: setMicLevel,
+      onStatus: (status) => {
+        if (dictationRef.current !== session) return;
+        setDictationStatus(status);
+        // The microphone is off; any transcripts still on their way land as usual.
+        if (status === 'transcribing') {
+          setIsRecording(false);
+          setRetakeId(null);
+          setDictationStartedAt(null);
         }
-        setInterimText(currentInterim);
-      };
-
-      recognitionRef.current.onerror = (event: any) => {
-        console.error('Speech recognition error', event.error);
-        setIsRecording(false);
-      };
-      
-      recognitionRef.current.onend = () => {
-        if (isRecording) recognitionRef.current.start();
-      };
-    }
-  }, [lang, isRecording]);
+        if (status === 'stopped') {
+          dictationRef.current = null;
+          setIsRecording(false);
+          setRetakeId(null);
+          setDictationStartedAt(null);
+        }
+      },
+      onError: setDictationError
+    };
+    const session: DictationSession = isSpeechSupported()
+      ? startDictationSession(lang, handlers)
+      : startRecordingSession(transcribeAudio, keepAudio, handlers);
+    dictationRef.current = session;
+    setDictationStartedAt(session.startedAt);
+  };
 
   const toggleRecording = () => {
-    if (isRecording) {
-      recognitionRef.current?.stop();
-      setIsRecording(false);
-      setInterimText('');
-    } else {
-      setInterimText('');
-      recognitionRef.current?.start();
-      setIsRecording(true);
+    if (isRecording && !retakeId) dictationRef.current?.stop();
+    else startVoice(null);
+  };
+
+  const handleRetakeSegment = (segment: DictationSegment) => {
+    if (retakeId === segment.id) dictationRef.current?.stop();
+    else startVoice(segment);
+  };
+
+  const handleEditSegment = (segment: DictationSegment, text: string) => {
+    if (!text) return handleDeleteSegment(segment);
+    setNotes((prev: DictatedNotes) => replaceSegment(prev, segment.id, text));
+  };
+
+  const handleRetranscribeSegment = async (segment: DictationSegment) => {
+    if (!segment.audio) return;
+    setRetranscribingId(segment.id);
+    setDictationError(null);
+    try {
+      const text = await transcribeAudio(segment.audio);
+      setNotes((prev: DictatedNotes) => replaceSegment(prev, segment.id, text));
+    } catch (e) {
+      console.error('Transcription failed', e);
+      setDictationError('transcription-failed');
+    } finally {
+      setRetranscribingId(null);
     }
   };
 
+  const handleDeleteSegment = (segment: DictationSegment) => {
+    if (retakeId === segment.id) dictationRef.current?.stop();
+    setNotes((prev: DictatedNotes) => removeSegment(prev, segment.id));
+  };
+
   // --- AI Workflow Logic ---
 
+  // Streamed steps render into the page as they arrive instead of behind the loading overlay.
+  const startStream = (message: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoadingMsg(message);
+    setStreaming(true);
+    return controller.signal;
+  };
+
+  const endStream = () => {
+    abortRef.current = null;
+    setStreaming(false);
+  };
+
+  const cancelStream = () => abortRef.current?.abort();
+
+  // Cancelled requests are not failures; everything else lands in the error panel.
+  const reportError = (e: unknown, retry?: () => void) => {
+    if (isAbortError(e)) return;
+    console.error(e);
+    setError({ error: toApiError(e), retry });
+  };
+
+  // Notes go through the model; entries from structured imports are merged in unchanged.
   const handleProcessBrainstorm = async () => {
-    if (!rawText.trim()) return;
-    setLoading(true);
-    setLoadingMsg(lang === 'zh' ? '正在提取核心经历...' : 'Extracting core experience...');
+    if (!rawText.trim()) {
+      if (isProfileEmpty(structuredProfile)) return;
+      setExperienceDoc(structuredProfile);
+      setStep(1);
+      return;
+    }
+    setError(null);
+    const previousDoc = experienceDoc;
+    const signal = startStream(lang === 'zh' ? '正在提取核心经历...' : 'Extracting core experience...');
+    setStep(1);
     try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: `Process this raw input into a structured "Experience Document". 
-        Remove fillers, oral artifacts, repetitive phrases, and non-essential noise. 
-        Focus on facts: what was done, tools used, and results achieved.
-        Language: ${lang === 'en' ? 'English' : 'Chinese'}.
-        
-        Raw Input:
-        ${rawText}`,
-        config: { systemInstruction: SYSTEM_PROMPT_BASE }
+      const doc = await brainstorm({ lang, settings, rawText, knownEntries: profileEntryNames(structuredProfile) }, {
+        signal,
+        onText: (text) => {
+          const partial = parsePartialJson(text);
+          if (partial && typeof partial === 'object') setExperienceDoc(mergeProfiles(structuredProfile, normalizeProfile(partial)));
+        }
       });
-      setExperienceDoc(response.text || '');
-      setStep(1);
+      setExperienceDoc(mergeProfiles(structuredProfile, doc));
     } catch (e) {
-      console.error(e);
-      alert('AI processing failed. Please try again.');
+      setExperienceDoc(previousDoc);
+      setStep(0);
+      reportError(e, handleProcessBrainstorm);
     } finally {
-      setLoading(false);
+      endStream();
+    }
+  };
+
+  // --- JD import ---
+
+  const setJobPosting = (appId: string, jobPosting: StructuredJd) =>
+    updateApplication(appId, { jobPosting, jd: jdToText(jobPosting, lang) });
+
+  // Cleans a posting into a structure the user reviews in place of the JD text.
+  const handleImportJd = async (source: JdSource) => {
+    const appId = application.id;
+    setError(null);
+    setImportingJd(true);
+    try {
+      setJobPosting(appId, await importJd({ lang, settings, source }));
+    } catch (e) {
+      reportError(e, () => handleImportJd(source));
+    } finally {
+      setImportingJd(false);
+    }
+  };
+
+  // PDFs and images go to the model inline; HTML is reduced to text here first.
+  const handleJdFile = async (file: File) => {
+    try {
+      if (file.type === 'application/pdf' || file.type.startsWith('image/')) {
+        await handleImportJd({ kind: 'file', file: { mimeType: file.type, data: await readAsBase64(file) } });
+      } else {
+        const text = await file.text();
+        await handleImportJd({ kind: 'text', text: /\.html?$/i.test(file.name) || /<html|<body/i.test(text) ? htmlToText(text) : text });
+      }
+    } catch (e) {
+      reportError(e);
     }
   };
 
   const handleFitCheck = async () => {
     if (!jd.trim()) return;
+    const appId = application.id;
+    setError(null);
     setLoading(true);
     setLoadingMsg(lang === 'zh' ? '正在进行岗位匹配度检查...' : 'Running Fit Check...');
     try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-preview',
-        contents: `Perform a "Fit Check" between this Experience Document and Job Description.
-        Compare "Professional DNA" vs "JD Requirements".
-        Return JSON format.
-        Language: ${lang === 'en' ? 'English' : 'Chinese'}.
-
-        Experience:
-        ${experienceDoc}
-
-        Job Description:
-        ${jd}`,
-        config: {
-          systemInstruction: SYSTEM_PROMPT_BASE,
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              score: { type: Type.NUMBER },
-              dnaComparison: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    dna: { type: Type.STRING },
-                    jd: { type: Type.STRING }
-                  },
-                  required: ['dna', 'jd']
-                }
-              },
-              pros: { type: Type.ARRAY, items: { type: Type.STRING } },
-              cons: { type: Type.ARRAY, items: { type: Type.STRING } },
-              conclusion: { type: Type.STRING },
-              alternatives: { type: Type.ARRAY, items: { type: Type.STRING } }
-            },
-            required: ['score', 'dnaComparison', 'pros', 'cons', 'conclusion', 'alternatives']
-          }
-        }
-      });
-      setAnalysis(JSON.parse(response.text || '{}'));
+      updateApplication(appId, { analysis: await fitCheck({ lang, settings, profile: experienceDoc, jd }) });
       setStep(2);
     } catch (e) {
-      console.error(e);
-      alert('Analysis failed.');
+      reportError(e, handleFitCheck);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleGenerateDraft = async () => {
-    setLoading(true);
-    setLoadingMsg(lang === 'zh' ? '正在为您撰写简历并进行自我诊断...' : 'Drafting resume and self-diagnosing...');
+  // --- Batch Fit Check ---
+
+  const updatePosting = (id: string, patch: Partial<BatchPosting>) =>
+    setBatch(prev => prev.map(p => (p.id === id ? { ...p, ...patch } : p)));
+
+  const handleAddPostings = (text: string) => setBatch(prev => [...prev, ...splitPostings(text)]);
+
+  // Same split as a single JD file: HTML and text are read here, PDFs and images are imported on run.
+  const handleAddPostingFiles = async (files: File[]) => {
     try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-preview',
-        contents: `Generate a single-page A4 resume draft and provide 5 brutal but actionable critiques.
-        The resume must be ATS-friendly, quantified, and highlight both hard and soft skills found in the JD.
-        Language: ${lang === 'en' ? 'English' : 'Chinese'}.
-
-        Experience:
-        ${experienceDoc}
-
-        Job Description:
-        ${jd}`,
-        config: {
-          systemInstruction: SYSTEM_PROMPT_BASE,
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              resumeMarkdown: { type: Type.STRING },
-              critiques: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    level: { type: Type.STRING, enum: ['fatal', 'important', 'minor'] },
-                    text: { type: Type.STRING },
-                    suggestion: { type: Type.STRING }
-                  },
-                  required: ['level', 'text', 'suggestion']
-                }
-              }
-            },
-            required: ['resumeMarkdown', 'critiques']
-          }
+      const added = await Promise.all(files.map(async (file) => {
+        if (file.type === 'application/pdf' || file.type.startsWith('image/')) {
+          return createPosting(file.name, '', { kind: 'file', file: { mimeType: file.type, data: await readAsBase64(file) } });
         }
+        const raw = await file.text();
+        const text = /\.html?$/i.test(file.name) || /<html|<body/i.test(raw) ? htmlToText(raw) : raw.trim();
+        return createPosting(guessTitle(text) || file.name, text);
+      }));
+      setBatch(prev => [...prev, ...added]);
+    } catch (e) {
+      reportError(e);
+    }
+  };
+
+  // Failed rows are retried; finished ones keep their result.
+  const handleRunBatch = async () => {
+    const queue: BatchPosting[] = batch.filter((p: BatchPosting) => p.status === 'pending' || p.status === 'error');
+    if (!queue.length) return;
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    const { signal } = controller;
+    const profile = experienceDoc;
+    const profileTextForAts = profileText(profile);
+    setBatchRunning(true);
+    await runPool(queue, BATCH_CONCURRENCY, async (posting) => {
+      updatePosting(posting.id, { status: 'running', error: '' });
+      try {
+        let { jd: text, title, jobPosting } = posting;
+        if (posting.source) {
+          jobPosting = await importJd({ lang, settings, source: posting.source }, signal);
+          text = jdToText(jobPosting, lang);
+          title = [jobPosting.title, jobPosting.company].filter(Boolean).join(' · ') || title;
+          // Keep the import so a retry after a failed Fit Check does not fetch again.
+          updatePosting(posting.id, { jd: text, title, jobPosting, source: null });
+        }
+        const analysis = await fitCheck({ lang, settings, profile, jd: text }, signal);
+        updatePosting(posting.id, {
+          status: 'done',
+          analysis,
+          coverage: analyzeKeywords(text, profileTextForAts).coverage
+        });
+      } catch (e) {
+        updatePosting(posting.id, signal.aborted
+          ? { status: 'pending' }
+          : { status: 'error', error: toApiError(e).message });
+      }
+    }, signal);
+    batchAbortRef.current = null;
+    setBatchRunning(false);
+  };
+
+  // Opens a ranked posting as a new application and drafts straight away.
+  const handleOpenPosting = (posting: BatchPosting) => {
+    const created: JobApplication = {
+      ...createApplication(posting.title || defaultApplicationTitle(lang, applications.length + 1)),
+      jd: posting.jd,
+      jobPosting: posting.jobPosting,
+      analysis: posting.analysis
+    };
+    setApplications(prev => [...prev, created]);
+    setActiveApplicationId(created.id);
+    setShowBatch(false);
+    handleGenerateDraft(created);
+  };
+
+  // Takes the application explicitly so a batch posting can be drafted as soon as it is opened.
+  const handleGenerateDraft = async (target: JobApplication = application) => {
+    const appId = target.id;
+    setError(null);
+    const previous = { resumeDraft: target.resumeDraft, critiques: target.critiques };
+    const previousStep = step;
+    const signal = startStream(lang === 'zh' ? '正在为您撰写简历并进行自我诊断...' : 'Drafting resume and self-diagnosing...');
+    setStep(3);
+    try {
+      const data = await draftResume({
+        lang,
+        settings,
+        profile: experienceDoc,
+        jd: target.jd,
+        feedback: toFeedback(target.critiqueResolutions)
+      }, {
+        signal,
+        onText: (text) => updateApplication(appId, readPartialDraft(text))
+      });
+      updateApplication(appId, {
+        resumeDraft: data.resumeMarkdown,
+        critiques: data.critiques,
+        polishSource: 'draft',
+        versions: appendVersion(target.versions, { target: 'draft', source: 'draft', markdown: data.resumeMarkdown })
       });
-      const data = JSON.parse(response.text || '{}');
-      setResumeDraft(data.resumeMarkdown);
-      setCritiques(data.critiques);
-      setStep(3);
     } catch (e) {
-      console.error(e);
-      alert('Generation failed.');
+      updateApplication(appId, previous);
+      setStep(previousStep);
+      reportError(e, () => handleGenerateDraft(target));
     } finally {
-      setLoading(false);
+      endStream();
     }
   };
 
   const handleFinalPolish = async (additionalInfo: string = "") => {
-    setLoading(true);
-    setLoadingMsg(lang === 'zh' ? '正在进行最后一次 ATS 抛光...' : 'Final ATS Polishing...');
+    const appId = application.id;
+    setError(null);
+    setCondenseGaveUp(false);
+    const previousResume = finalResume;
+    const previousStep = step;
+    // Hand edits to the final resume carry into the next polish instead of being overwritten.
+    const base = application.polishSource === 'final' && finalResume ? finalResume : resumeDraft;
+    const openCritiques = critiques.filter(c => !application.critiqueResolutions[c.text]);
+    const signal = startStream(lang === 'zh' ? '正在进行最后一次 ATS 抛光...' : 'Final ATS Polishing...');
+    setStep(4);
     try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-preview',
-        contents: `Perform final ATS polishing. Ensure all outcomes are quantified.
-        Strictly stick to verified facts. No fabrication.
-        If information is missing for a key JD requirement, mark it as [MISSING DATA].
-        Fit to single A4 page.
-        Language: ${lang === 'en' ? 'English' : 'Chinese'}.
-        
-        Current Draft:
-        ${resumeDraft}
-        
-        Additional Context/Corrections:
-        ${additionalInfo}`,
-        config: { systemInstruction: SYSTEM_PROMPT_BASE }
+      const { text } = await polishResume({
+        lang,
+        settings,
+        profile: experienceDoc,
+        jd,
+        resumeDraft: base,
+        additionalInfo,
+        confirmedFacts: application.confirmedClaims,
+        feedback: critiqueFeedback,
+        critiques: openCritiques
+      }, {
+        signal,
+        onText: (text) => updateApplication(appId, { finalResume: text })
+      });
+      updateApplication(appId, {
+        finalResume: text,
+        versions: appendVersion(application.versions, {
+          target: 'final',
+          source: 'polish',
+          markdown: text,
+          additionalInfo,
+          critiques: openCritiques.map(c => c.text)
+        }, base)
       });
-      setFinalResume(response.text || '');
-      setStep(4);
     } catch (e) {
-      console.error(e);
+      updateApplication(appId, { finalResume: previousResume });
+      setStep(previousStep);
+      reportError(e, () => handleFinalPolish(additionalInfo));
     } finally {
-      setLoading(false);
+      endStream();
     }
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // --- Refinement chat ---
 
-    setLoading(true);
-    setLoadingMsg(lang === 'zh' ? `正在解析 ${file.name}...` : `Parsing ${file.name}...`);
-    
+  const handleRefine = async (instruction: string) => {
+    const appId = application.id;
+    setError(null);
+    setCondenseGaveUp(false);
+    const previousResume = finalResume;
+    const previousChat: RefineTurn[] = application.refineChat;
+    const chat: RefineTurn[] = [...previousChat, { role: 'user', text: instruction }];
+    updateApplication(appId, { refineChat: chat });
+    const signal = startStream(lang === 'zh' ? '正在按指令修改...' : 'Applying your instruction...');
     try {
-      const reader = new FileReader();
-      
-      // 处理 PDF 和 图片 的逻辑
-      if (file.type === 'application/pdf' || file.type.startsWith('image/')) {
-        reader.onload = async () => {
-          const base64 = (reader.result as string).split(',')[1];
-          try {
-            const response = await ai.models.generateContent({
-              model: 'gemini-3-flash-preview',
-              contents: [
-                { inlineData: { data: base64, mimeType: file.type } },
-                { text: `Extract and structure all professional experiences from this ${file.type === 'application/pdf' ? 'PDF' : 'image'} into text. Keep it factual and detailed. Language: ${lang === 'en' ? 'English' : 'Chinese'}.` }
-              ],
-              config: { systemInstruction: SYSTEM_PROMPT_BASE }
-            });
-            setRawText(prev => prev + '\n' + (response.text || ''));
-          } catch (apiErr) {
-            console.error("AI extraction failed:", apiErr);
-            alert(lang === 'zh' ? "AI 无法解析该文件，请尝试手动输入。" : "AI could not parse this file, please try manual input.");
+      const { text } = await refineResume({
+        lang,
+        settings,
+        profile: experienceDoc,
+        jd,
+        resumeMarkdown: previousResume,
+        instruction,
+        history: previousChat.map(({ role, text }) => ({ role, text })),
+        confirmedFacts: application.confirmedClaims,
+        feedback: critiqueFeedback
+      }, {
+        signal,
+        onText: (text) => updateApplication(appId, { finalResume: text })
+      });
+      const versions = appendVersion(application.versions, {
+        target: 'final',
+        source: 'refine',
+        markdown: text,
+        additionalInfo: instruction
+      }, previousResume);
+      const version = versions.length > application.versions.length ? versions[versions.length - 1] : undefined;
+      // The model's side of the history is a short note, not the whole resume, to keep later turns small.
+      const reply: RefineTurn = version
+        ? { role: 'model', text: `Applied the instruction as revision v${version.number}.`, versionId: version.id }
+        : { role: 'model', text: lang === 'zh' ? '简历没有变化。' : 'The resume did not change.' };
+      updateApplication(appId, { finalResume: text, polishSource: 'final', versions, refineChat: [...chat, reply] });
+    } catch (e) {
+      updateApplication(appId, { finalResume: previousResume, refineChat: previousChat });
+      reportError(e, () => handleRefine(instruction));
+    } finally {
+      endStream();
+    }
+  };
+
+  // --- Cover letter ---
+
+  // Patches the letter of one application, like updateApplication.
+  const updateCoverLetter = (id: string, patch: Partial<CoverLetter>) =>
+    setApplications(prev => prev.map(a => (a.id === id ? { ...a, coverLetter: { ...a.coverLetter, ...patch } } : a)));
+
+  const coverLetterRequest = () => ({
+    lang,
+    settings,
+    profile: experienceDoc,
+    jd,
+    strengths: analysis?.pros ?? [],
+    resumeMarkdown: finalResume || resumeDraft,
+    tone: coverLetter.tone,
+    length: coverLetter.length,
+    feedback: letterFeedback
+  });
+
+  const handleGenerateCoverLetter = async () => {
+    const appId = application.id;
+    setError(null);
+    const previous = { markdown: coverLetter.markdown, critiques: coverLetter.critiques };
+    const previousStep = step;
+    const signal = startStream(lang === 'zh' ? '正在撰写求职信并进行自我诊断...' : 'Writing cover letter and self-diagnosing...');
+    setStep(5);
+    try {
+      const data = await draftCoverLetter(coverLetterRequest(), {
+        signal,
+        onText: (text) => updateCoverLetter(appId, readPartialCoverLetter(text))
+      });
+      updateCoverLetter(appId, { markdown: data.letterMarkdown, critiques: data.critiques });
+    } catch (e) {
+      updateCoverLetter(appId, previous);
+      setStep(previousStep);
+      reportError(e, handleGenerateCoverLetter);
+    } finally {
+      endStream();
+    }
+  };
+
+  const resolveLetterCritique = (critique: Critique, resolution: CritiqueResolution | null) => {
+    const { [critique.text]: _previous, ...rest } = coverLetter.critiqueResolutions;
+    updateCoverLetter(application.id, { critiqueResolutions: resolution ? { ...rest, [critique.text]: resolution } : rest });
+  };
+
+  // Polishes against the open critiques, or only the one being applied or answered, then records them as resolved.
+  const handlePolishCoverLetter = async (
+    additionalInfo = '',
+    only?: Critique,
+    resolution: CritiqueResolution = { status: 'applied', note: '' }
+  ) => {
+    const appId = application.id;
+    const previousMarkdown = coverLetter.markdown;
+    const targets = only ? [only] : coverLetter.critiques.filter(c => !coverLetter.critiqueResolutions[c.text]);
+    setError(null);
+    if (only) setFixingCritique(only.text);
+    const signal = startStream(lang === 'zh' ? '正在打磨求职信...' : 'Polishing cover letter...');
+    try {
+      const { text } = await polishCoverLetter({
+        ...coverLetterRequest(),
+        letterMarkdown: previousMarkdown,
+        critiques: targets,
+        additionalInfo
+      }, {
+        signal,
+        onText: (text) => updateCoverLetter(appId, { markdown: text })
+      });
+      const resolved = Object.fromEntries(targets.map(c => [c.text, resolution]));
+      updateCoverLetter(appId, { markdown: text, critiqueResolutions: { ...coverLetter.critiqueResolutions, ...resolved } });
+    } catch (e) {
+      updateCoverLetter(appId, { markdown: previousMarkdown });
+      reportError(e, () => handlePolishCoverLetter(additionalInfo, only, resolution));
+    } finally {
+      setFixingCritique(null);
+      endStream();
+    }
+  };
+
+  // The evidence is passed as extra context for this polish, and the critique stays answered.
+  const handleAnswerLetterCritique = (critique: Critique, evidence: string) =>
+    handlePolishCoverLetter(evidence, critique, { status: 'answered', note: evidence });
+
+  // --- Interview prep ---
+
+  const handleInterviewPrep = async () => {
+    if (!analysis) return;
+    const appId = application.id;
+    setError(null);
+    setPreparingInterview(true);
+    try {
+      const { questions } = await interviewPrep({
+        lang,
+        settings,
+        profile: experienceDoc,
+        jd,
+        requirements: analysis.dnaComparison.map(d => d.jd),
+        weaknesses: analysis.cons
+      });
+      updateApplication(appId, { interviewPrep: { questions: questions.map(q => ({ ...q, id: crypto.randomUUID() })), attempts: {} } });
+    } catch (e) {
+      reportError(e, handleInterviewPrep);
+    } finally {
+      setPreparingInterview(false);
+    }
+  };
+
+  const handlePracticeAnswer = async (question: InterviewQuestion, answer: string) => {
+    const appId = application.id;
+    setError(null);
+    try {
+      const feedback = await answerFeedback({ lang, settings, profile: experienceDoc, jd, question: question.question, outline: question.outline, answer });
+      const attempt = { answer, feedback, createdAt: Date.now() };
+      // Functional update, so feedback that lands after another answer was recorded keeps both.
+      setApplications(prev => prev.map(a => (a.id === appId ? {
+        ...a,
+        interviewPrep: {
+          ...a.interviewPrep,
+          attempts: { ...a.interviewPrep.attempts, [question.id]: [...(a.interviewPrep.attempts[question.id] ?? []), attempt] }
+        }
+      } : a)));
+      return true;
+    } catch (e) {
+      reportError(e);
+      return false;
+    }
+  };
+
+  // --- Version history ---
+
+  const handleRestoreVersion = (version: ResumeVersion) => {
+    const current = version.target === 'draft' ? resumeDraft : finalResume;
+    // Hand edits that no version holds yet are kept before they are replaced.
+    const versions = findVersion(application.versions, version.target, current)
+      ? application.versions
+      : appendVersion(application.versions, { target: version.target, source: 'edit', markdown: current });
+    updateApplication(application.id, version.target === 'draft'
+      ? { resumeDraft: version.markdown, polishSource: 'draft', versions }
+      : { finalResume: version.markdown, polishSource: 'final', versions });
+    setStep(version.target === 'draft' ? 3 : 4);
+    setShowHistory(false);
+  };
+
+  const handleBranchVersion = (version: ResumeVersion) => {
+    const branched = branchApplication(application, version, lang === 'zh'
+      ? `${application.title}（v${version.number} 分支）`
+      : `${application.title} (v${version.number} branch)`);
+    setApplications(prev => [...prev, branched]);
+    setActiveApplicationId(branched.id);
+    setStep(version.target === 'draft' ? 3 : 4);
+    setShowHistory(false);
+  };
+
+  // --- Critique actions ---
+
+  const resolveCritique = (critique: Critique, resolution: CritiqueResolution | null) => {
+    const { [critique.text]: _previous, ...rest } = application.critiqueResolutions;
+    updateApplication(application.id, { critiqueResolutions: resolution ? { ...rest, [critique.text]: resolution } : rest });
+  };
+
+  // Asks for a rewrite of the one section the critique concerns; nothing changes until the diff is accepted.
+  const handleApplyCritique = async (critique: Critique, evidence = '') => {
+    setError(null);
+    setFixingCritique(critique.text);
+    const sections = splitSections(resumeDraft);
+    try {
+      const fix = await fixCritique({
+        lang,
+        settings,
+        profile: experienceDoc,
+        jd,
+        resumeMarkdown: resumeDraft,
+        critique,
+        evidence
+      });
+      const section = sections.find(s => s.heading === fix.section)!;
+      setPendingFix({ critique, section: fix.section, before: sectionText(resumeDraft, section), after: fix.markdown.trim() });
+    } catch (e) {
+      reportError(e, () => handleApplyCritique(critique, evidence));
+    } finally {
+      setFixingCritique(null);
+    }
+  };
+
+  const handleAnswerCritique = (critique: Critique, evidence: string) => {
+    resolveCritique(critique, { status: 'answered', note: evidence });
+    handleApplyCritique(critique, evidence);
+  };
+
+  // Re-finds the section by heading, so edits made while the diff was open are kept.
+  const handleAcceptFix = () => {
+    if (!pendingFix) return;
+    const section = splitSections(resumeDraft).find(s => s.heading === pendingFix.section);
+    if (section) {
+      const fixed = replaceSection(resumeDraft, section, pendingFix.after);
+      const previous = application.critiqueResolutions[pendingFix.critique.text];
+      updateApplication(application.id, {
+        resumeDraft: fixed,
+        polishSource: 'draft',
+        versions: appendVersion(application.versions, {
+          target: 'draft',
+          source: 'fix',
+          markdown: fixed,
+          critiques: [pendingFix.critique.text]
+        }, resumeDraft),
+        critiqueResolutions: {
+          ...application.critiqueResolutions,
+          [pendingFix.critique.text]: previous?.status === 'answered' ? previous : { status: 'applied', note: '' }
+        }
+      });
+    }
+    setPendingFix(null);
+  };
+
+  const handleAskMissing = async (gaps: MissingDataGap[]) => {
+    setError(null);
+    try {
+      const { questions } = await missingDataQuestions({
+        lang,
+        settings,
+        profile: experienceDoc,
+        jd,
+        gaps: gaps.map(g => ({ id: g.index, hint: g.hint, context: g.context, heading: g.heading }))
+      });
+      return questions;
+    } catch (e) {
+      reportError(e);
+      return null;
+    }
+  };
+
+  // Patches one answer in place; the filled line counts as a user-supplied fact from then on.
+  const handleFillMissing = (gap: MissingDataGap, answer: string) => {
+    const patch = fillMissingData(claimSubject, gap, answer);
+    if (!patch) return;
+    updateApplication(application.id, { ...patchOnScreen(patch.markdown), confirmedClaims: [...application.confirmedClaims, patch.line] });
+  };
+
+  // Re-prompts with the measured overflow until the resume fits one page or the attempts run out.
+  const handleCondense = async () => {
+    const appId = application.id;
+    const template = getTemplate(application.templateId);
+    setError(null);
+    setCondenseGaveUp(false);
+    let current = finalResume;
+    const signal = startStream(lang === 'zh' ? '正在压缩至一页...' : 'Condensing to one page...');
+    try {
+      for (let attempt = 1; attempt <= MAX_CONDENSE_ATTEMPTS; attempt++) {
+        const measured = measureResume(current, template);
+        if (fitsOnePage(measured)) break;
+        setLoadingMsg(lang === 'zh'
+          ? `正在压缩至一页（第 ${attempt}/${MAX_CONDENSE_ATTEMPTS} 次）...`
+          : `Condensing to one page (attempt ${attempt}/${MAX_CONDENSE_ATTEMPTS})...`);
+        const { text } = await condenseResume({
+          lang,
+          settings,
+          jd,
+          resumeMarkdown: current,
+          overflowLines: measured.overflowLines,
+          overflowPercent: Math.round((measured.overflowMm / measured.availableMm) * 100)
+        }, {
+          signal,
+          onText: (text) => updateApplication(appId, { finalResume: text })
+        });
+        current = text;
+        updateApplication(appId, { finalResume: current });
+      }
+      if (!fitsOnePage(measureResume(current, template))) setCondenseGaveUp(true);
+    } catch (e) {
+      // Keep the last complete attempt rather than the half-streamed one.
+      updateApplication(appId, { finalResume: current });
+      reportError(e, handleCondense);
+    } finally {
+      endStream();
+    }
+    // One version for the whole loop: the last complete attempt, if any attempt changed the resume.
+    if (current !== finalResume) {
+      updateApplication(appId, {
+        versions: appendVersion(application.versions, { target: 'final', source: 'condense', markdown: current }, finalResume)
+      });
+    }
+  };
+
+  // --- Brainstorm sources ---
+
+  const updateSourceImport = (id: string, patch: Partial<SourceImport>) =>
+    setSourceImports(prev => prev.map(i => (i.id === id ? { ...i, ...patch } : i)));
+
+  // Reads one file to text. PDFs and images are compared by their bytes before the model reads them.
+  const readSource = async (file: File, kind: SourceKind, known: Set<string>, notes: string, importId: string) => {
+    if (needsExtraction(kind)) {
+      const id = await contentId(new Uint8Array(await file.arrayBuffer()));
+      if (known.has(id)) return { id, text: null };
+      updateSourceImport(importId, { status: 'extracting' });
+      const mimeType = file.type || 'application/pdf';
+      const { text } = await extractFile({ lang, settings, file: { mimeType, data: await readAsBase64(file) } });
+      return { id, text };
+    }
+    updateSourceImport(importId, { status: 'reading' });
+    const text = await readSourceText(file, kind);
+    const id = await contentId(text);
+    return { id, text: known.has(id) || containsText(notes, text) ? null : text };
+  };
+
+  // Files are read one at a time and appended to the notes under a source marker.
+  // Content that is already in the notes is skipped. LinkedIn and JSON Resume exports
+  // are mapped to entries instead, and count as duplicates when they add nothing.
+  const handleImportSources = async (files: File[]) => {
+    setError(null);
+    const queued: SourceImport[] = files.map(file => ({ id: crypto.randomUUID(), name: file.name, status: 'queued', detail: '', error: '' }));
+    setSourceImports(prev => [...prev, ...queued]);
+    const known = sourceIds(rawText);
+    let notes = rawText;
+    let structured = structuredProfile;
+    for (const [i, file] of files.entries()) {
+      const importId = queued[i].id;
+      const kind = sourceKind(file);
+      if (!kind) {
+        updateSourceImport(importId, { status: 'error', error: lang === 'zh' ? '不支持的文件类型' : 'Unsupported file type' });
+        continue;
+      }
+      try {
+        if (isStructured(kind)) {
+          updateSourceImport(importId, { status: 'reading' });
+          const imported = await readStructuredSource(file, kind, lang);
+          const merged = mergeProfiles(structured, imported);
+          if (JSON.stringify(merged) === JSON.stringify(structured)) {
+            updateSourceImport(importId, { status: 'duplicate' });
+          } else {
+            structured = merged;
+            setStructuredProfile(merged);
+            updateSourceImport(importId, { status: 'done', detail: describeProfile(imported, lang) });
           }
-          setLoading(false);
-        };
-        reader.readAsDataURL(file);
+          continue;
+        }
+        const { id, text } = await readSource(file, kind, known, notes, importId);
+        if (text === null) {
+          updateSourceImport(importId, { status: 'duplicate' });
+        } else if (!text.trim()) {
+          updateSourceImport(importId, { status: 'error', error: lang === 'zh' ? '没有可读取的文字' : 'No readable text' });
+        } else {
+          const block = sourceBlock(file.name, id, text);
+          known.add(id);
+          notes = `${notes}\n\n${block}`;
+          setRawText(prev => (prev.trim() ? `${prev.trimEnd()}\n\n${block}` : block));
+          updateSourceImport(importId, { status: 'done' });
+        }
+      } catch (e) {
+        updateSourceImport(importId, { status: 'error', error: toApiError(e).message });
+      }
+    }
+  };
+
+  // Exports the final resume, or the cover letter in Step 5, with the application's template.
+  const handleExport = async (format: ExportFormat) => {
+    const [markdown, title] = step === 5
+      ? [coverLetter.markdown, lang === 'zh' ? `${application.title} 求职信` : `${application.title} cover letter`]
+      : [finalResume, application.title];
+    setError(null);
+    setExporting(format);
+    try {
+      if (isStructuredFormat(format)) {
+        if (structuredRef.current?.markdown !== markdown) {
+          const resume = await structureResume({ lang, settings, resumeMarkdown: markdown });
+          structuredRef.current = { markdown, resume };
+        }
+        const unmapped = exportStructured(structuredRef.current!.resume, format, title);
+        setExportReport({ format, unmapped });
       } else {
-        // 普通文本文件
-        reader.onload = (re) => {
-          setRawText(prev => prev + '\n' + (re.target?.result as string));
-          setLoading(false);
-        };
-        reader.readAsText(file);
+        await exportResume(markdown, getTemplate(application.templateId), format, title);
       }
     } catch (e) {
-      console.error(e);
-      setLoading(false);
+      reportError(e, () => handleExport(format));
+    } finally {
+      setExporting(null);
     }
   };
 
@@ -345,14 +1205,14 @@ const App = () => {
 
   const renderProgress = () => (
     <div className="flex justify-between mb-8 max-w-2xl mx-auto px-4 no-print">
-      {['Brainstorm', 'Fit Check', 'Diagnosis', 'Polish'].map((label, i) => (
+      {['Brainstorm', 'Fit Check', 'Diagnosis', 'Polish', 'Cover Letter'].map((label, i) => (
         <div key={label} className="flex flex-col items-center">
           <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold mb-1 
             ${step >= i ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-500'}`}>
             {i + 1}
           </div>
           <span className={`text-xs ${step >= i ? 'text-blue-600 font-medium' : 'text-gray-400'}`}>
-            {lang === 'zh' ? ['头脑风暴', '匹配检查', '简历诊断', '最终打磨'][i] : label}
+            {lang === 'zh' ? ['头脑风暴', '匹配检查', '简历诊断', '最终打磨', '求职信'][i] : label}
           </span>
         </div>
       ))}
@@ -371,18 +1231,142 @@ const App = () => {
             {lang === 'zh' ? "Don't Start From JD" : "Don't Start From JD"}
           </h1>
         </div>
-        <button 
-          onClick={() => setLang(lang === 'en' ? 'zh' : 'en')}
-          className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-white border border-gray-200 text-sm hover:bg-gray-50 transition-colors"
-        >
-          <Languages size={16} />
-          {lang === 'en' ? '中文' : 'English'}
-        </button>
+        <div className="flex items-center gap-2">
+          <button 
+            onClick={() => setShowSettings(true)}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-white border border-gray-200 text-sm hover:bg-gray-50 transition-colors"
+          >
+            <Settings size={16} />
+            {lang === 'zh' ? '模型' : 'Models'}
+          </button>
+          <button 
+            onClick={() => setShowSessions(true)}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-white border border-gray-200 text-sm hover:bg-gray-50 transition-colors"
+          >
+            <FolderOpen size={16} />
+            {lang === 'zh' ? '会话' : 'Sessions'}
+          </button>
+          <button 
+            onClick={() => setLang(lang === 'en' ? 'zh' : 'en')}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-white border border-gray-200 text-sm hover:bg-gray-50 transition-colors"
+          >
+            <Languages size={16} />
+            {lang === 'en' ? '中文' : 'English'}
+          </button>
+        </div>
       </header>
 
+      {showSettings && (
+        <SettingsPanel
+          lang={lang}
+          settings={settings}
+          available={availableProviders}
+          whisper={whisperAvailable}
+          onChange={setSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showSessions && (
+        <SessionsPanel
+          lang={lang}
+          sessions={sessions}
+          activeId={sessionId}
+          onOpen={handleOpenSession}
+          onCreate={async () => {
+            await startNewSession();
+            setShowSessions(false);
+          }}
+          onRename={handleRenameSession}
+          onDuplicate={handleDuplicateSession}
+          onDelete={handleDeleteSession}
+          onClose={() => setShowSessions(false)}
+        />
+      )}
+
+      {showHistory && (
+        <VersionHistory
+          lang={lang}
+          versions={application.versions}
+          current={{ draft: resumeDraft, final: finalResume }}
+          onRestore={handleRestoreVersion}
+          onBranch={handleBranchVersion}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showInterviewPrep && (
+        <InterviewPrep
+          lang={lang}
+          prep={application.interviewPrep}
+          canGenerate={!!analysis}
+          generating={preparingInterview}
+          onGenerate={handleInterviewPrep}
+          onPractice={handlePracticeAnswer}
+          onClose={() => setShowInterviewPrep(false)}
+        />
+      )}
+
+      {showBatch && (
+        <BatchFitCheck
+          lang={lang}
+          postings={batch}
+          running={batchRunning}
+          onAdd={handleAddPostings}
+          onAddFiles={handleAddPostingFiles}
+          onRemove={(id) => setBatch(prev => prev.filter(p => p.id !== id))}
+          onRun={handleRunBatch}
+          onCancel={() => batchAbortRef.current?.abort()}
+          onOpen={handleOpenPosting}
+          onClose={() => setShowBatch(false)}
+        />
+      )}
+
+      {exportReport && (
+        <ExportReport lang={lang} report={exportReport} onClose={() => setExportReport(null)} />
+      )}
+
+      {pendingFix && (
+        <FixPreview
+          lang={lang}
+          title={pendingFix.critique.text}
+          before={pendingFix.before}
+          after={pendingFix.after}
+          onAccept={handleAcceptFix}
+          onDiscard={() => setPendingFix(null)}
+        />
+      )}
+
       {renderProgress()}
 
+      {step > 0 && (
+        <ApplicationBar
+          lang={lang}
+          applications={applications}
+          activeId={application.id}
+          onSelect={handleSelectApplication}
+          onCreate={handleCreateApplication}
+          onRename={(id, title) => updateApplication(id, { title })}
+          onDelete={handleDeleteApplication}
+        />
+      )}
+
       <main className="relative">
+        {streaming && (
+          <StreamingBar lang={lang} message={loadingMsg} onCancel={cancelStream} />
+        )}
+
+        {error && (
+          <div className="max-w-6xl mx-auto">
+            <ErrorPanel
+              lang={lang}
+              error={error.error}
+              onRetry={error.retry}
+              onDismiss={() => setError(null)}
+            />
+          </div>
+        )}
+
         {loading && (
           <div className="fixed inset-0 bg-white/70 backdrop-blur-md z-[100] flex flex-col items-center justify-center">
             <div className="bg-white p-8 rounded-3xl shadow-2xl flex flex-col items-center max-w-sm text-center border border-blue-50">
@@ -406,8 +1390,8 @@ const App = () => {
               </h2>
               <p className="text-gray-500">
                 {lang === 'zh' 
-                  ? '讲讲你的过往经历，或者上传现有简历（PDF/图片）。AI 会自动为您整理。' 
-                  : 'Talk about your past experiences or upload an existing resume (PDF/Image).'}
+                  ? '讲讲你的过往经历，或者上传现有材料（PDF、Word、网页、图片，可一次拖入多个）。AI 会自动为您整理并标注来源。' 
+                  : 'Talk about your past experiences or upload existing material (PDF, Word, HTML, images; drop several at once).'}
               </p>
             </div>
 
@@ -417,7 +1401,7 @@ const App = () => {
                   <textarea
                     className="w-full h-72 p-6 rounded-2xl border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none bg-gray-50 text-gray-800 transition-all font-medium leading-relaxed"
                     placeholder={lang === 'zh' ? "点击下方麦克风开启语音输入，或直接在这里记录..." : "Click microphone below to start voice input, or type here..."}
-                    value={rawText + (interimText ? ` (${interimText}...)` : '')}
+                    value={rawText + (interimText && !retakeId ? ` (${interimText}...)` : '')}
                     onChange={(e) => setRawText(e.target.value)}
                   />
                 </div>
@@ -426,21 +1410,39 @@ const App = () => {
                   <button
                     onClick={toggleRecording}
                     className={`flex-1 flex items-center justify-center gap-3 p-4 rounded-2xl font-bold transition-all shadow-lg ${
-                      isRecording 
+                      isRecording && !retakeId
                         ? 'bg-red-500 text-white animate-pulse' 
                         : 'bg-gray-900 text-white hover:bg-blue-600'
                     }`}
                   >
                     <Mic size={20} />
-                    {isRecording ? (lang === 'zh' ? '停止聆听' : 'Stop Listening') : (lang === 'zh' ? '开启语音输入' : 'Voice Input')}
+                    {isRecording && !retakeId ? (lang === 'zh' ? '停止聆听' : 'Stop Listening') : (lang === 'zh' ? '开启语音输入' : 'Voice Input')}
                   </button>
                   
-                  <label className="flex-1 flex items-center justify-center gap-3 p-4 rounded-2xl font-bold bg-white border-2 border-dashed border-gray-300 text-gray-600 cursor-pointer hover:border-blue-600 hover:text-blue-600 hover:bg-blue-50 transition-all group">
-                    <Upload size={20} className="group-hover:bounce" />
-                    {lang === 'zh' ? '上传简历 (PDF/图)' : 'Upload Resume'}
-                    <input type="file" className="hidden" onChange={handleFileUpload} accept=".txt,.md,.pdf,.png,.jpg,.jpeg" />
-                  </label>
+                  <SourceDropZone lang={lang} onFiles={handleImportSources} />
                 </div>
+
+                <DictationPanel
+                  lang={lang}
+                  startedAt={dictationStartedAt}
+                  status={dictationStatus}
+                  level={micLevel}
+                  interim={interimText}
+                  segments={dictationSegments}
+                  retaking={retakeId}
+                  error={dictationError}
+                  onEdit={handleEditSegment}
+                  onDelete={handleDeleteSegment}
+                  onRetake={handleRetakeSegment}
+                  onRetranscribe={handleRetranscribeSegment}
+                  retranscribing={retranscribingId}
+                  keepAudio={keepAudio}
+                  onKeepAudioChange={isSpeechSupported() ? undefined : setKeepAudio}
+                  onClear={() => setNotes((prev: DictatedNotes) => ({ ...prev, segments: [] }))}
+                />
+
+                <SourceImportList lang={lang} imports={sourceImports} onClear={() => setSourceImports([])} />
+                <StructuredSummary lang={lang} profile={structuredProfile} onClear={() => setStructuredProfile(emptyProfile())} />
               </div>
 
               <div className="bg-blue-50/50 rounded-2xl p-8 border border-blue-100">
@@ -467,7 +1469,7 @@ const App = () => {
 
             <div className="mt-10 flex justify-end">
               <button
-                disabled={!rawText.trim()}
+                disabled={!rawText.trim() && isProfileEmpty(structuredProfile)}
                 onClick={handleProcessBrainstorm}
                 className="group flex items-center gap-2 px-10 py-4 bg-blue-600 text-white rounded-2xl font-bold hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-xl shadow-blue-200"
               >
@@ -495,26 +1497,58 @@ const App = () => {
                 <label className="block text-sm font-bold text-gray-500 mb-3 uppercase tracking-widest">
                   {lang === 'zh' ? '已生成的经历文档' : 'Experience Document'}
                 </label>
-                <div className="p-6 bg-gray-50 border border-gray-200 rounded-2xl whitespace-pre-wrap text-sm text-gray-700 h-[400px] overflow-y-auto leading-relaxed shadow-inner">
-                  {experienceDoc}
+                <div className="p-6 bg-gray-50 border border-gray-200 rounded-2xl h-[600px] overflow-y-auto shadow-inner">
+                  <fieldset disabled={streaming}>
+                    <ProfileEditor profile={experienceDoc} lang={lang} onChange={setExperienceDoc} />
+                  </fieldset>
                 </div>
               </div>
               <div>
                 <label className="block text-sm font-bold text-gray-500 mb-3 uppercase tracking-widest">
-                  {lang === 'zh' ? '粘贴目标职位描述 (JD)' : 'Paste Target JD'}
+                  {lang === 'zh' ? '粘贴或导入目标职位描述 (JD)' : 'Paste or Import Target JD'}
                 </label>
-                <textarea
-                  className="w-full h-[400px] p-6 rounded-2xl border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none bg-white text-sm leading-relaxed"
-                  placeholder={lang === 'zh' ? "将你心仪岗位的 JD 粘贴到这里..." : "Paste the job description here..."}
-                  value={jd}
-                  onChange={(e) => setJd(e.target.value)}
-                />
+                <JdImport lang={lang} busy={importingJd} onFile={handleJdFile} onUrl={(url) => handleImportJd({ kind: 'url', url })} />
+                {application.jobPosting ? (
+                  <div className="p-6 bg-gray-50 border border-gray-200 rounded-2xl h-[550px] overflow-y-auto shadow-inner">
+                    <JdEditor
+                      jd={application.jobPosting}
+                      lang={lang}
+                      onChange={(posting) => setJobPosting(application.id, posting)}
+                      onPlainText={() => updateApplication(application.id, { jobPosting: null })}
+                    />
+                  </div>
+                ) : (
+                  <>
+                    <textarea
+                      className="w-full h-[510px] p-6 rounded-2xl border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none bg-white text-sm leading-relaxed"
+                      placeholder={lang === 'zh' ? "将你心仪岗位的 JD 粘贴到这里..." : "Paste the job description here..."}
+                      value={jd}
+                      onChange={(e) => updateApplication(application.id, { jd: e.target.value })}
+                    />
+                    <button
+                      disabled={!jd.trim() || importingJd}
+                      onClick={() => handleImportJd({ kind: 'text', text: jd })}
+                      className="mt-2 flex items-center gap-1.5 px-3 py-2 rounded-lg border border-gray-200 text-xs font-bold text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {importingJd ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />}
+                      {lang === 'zh' ? '清理并结构化' : 'Clean up & structure'}
+                    </button>
+                  </>
+                )}
               </div>
             </div>
 
-            <div className="flex justify-end">
+            <div className="flex justify-end gap-3">
+              <button
+                disabled={isProfileEmpty(experienceDoc) || streaming}
+                onClick={() => setShowBatch(true)}
+                className="flex items-center gap-2 px-6 py-4 border border-gray-200 text-gray-700 rounded-2xl font-bold hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                <Layers size={18} />
+                {lang === 'zh' ? '批量匹配检查' : 'Batch Fit Check'}
+              </button>
               <button
-                disabled={!jd.trim()}
+                disabled={!jd.trim() || isProfileEmpty(experienceDoc) || streaming}
                 onClick={handleFitCheck}
                 className="flex items-center gap-2 px-10 py-4 bg-blue-600 text-white rounded-2xl font-bold hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-xl shadow-blue-200"
               >
@@ -551,9 +1585,14 @@ const App = () => {
                 }`}>
                   {analysis.conclusion}
                 </div>
+                <p className="mt-4 text-[10px] font-black text-gray-400 uppercase tracking-widest">
+                  {lang === 'zh' ? 'AI 综合评分' : 'AI fit score'}
+                </p>
               </div>
 
               <div className="flex-1 space-y-8">
+                {atsReport && <AtsPanel lang={lang} report={atsReport} subject={lang === 'zh' ? '你的经历档案' : 'Your profile'} />}
+
                 <div>
                   <h3 className="text-lg font-bold text-gray-900 mb-4">{lang === 'zh' ? '核心竞争力对比' : 'Competency Gap'}</h3>
                   <div className="overflow-hidden rounded-2xl border border-gray-100 shadow-sm">
@@ -607,6 +1646,13 @@ const App = () => {
             </div>
 
             <div className="mt-12 flex justify-end gap-4">
+              <button
+                onClick={() => setShowInterviewPrep(true)}
+                className="flex items-center gap-2 px-8 py-3 border border-gray-200 text-gray-600 rounded-xl font-bold hover:bg-gray-50 transition-all"
+              >
+                <GraduationCap size={18} />
+                {lang === 'zh' ? '面试准备' : 'Interview Prep'}
+              </button>
               <button
                 onClick={() => setStep(1)}
                 className="px-8 py-3 border border-gray-200 text-gray-600 rounded-xl font-bold hover:bg-gray-50 transition-all"
@@ -614,7 +1660,7 @@ const App = () => {
                 {lang === 'zh' ? '修改职位信息' : 'Modify JD'}
               </button>
               <button
-                onClick={handleGenerateDraft}
+                onClick={() => handleGenerateDraft()}
                 className="flex items-center gap-2 px-10 py-4 bg-blue-600 text-white rounded-2xl font-bold hover:bg-blue-700 transition-all shadow-xl shadow-blue-200"
               >
                 {lang === 'zh' ? '生成简历初稿' : 'Draft Resume'}
@@ -630,36 +1676,47 @@ const App = () => {
             <div className="flex-1 bg-white rounded-2xl shadow-xl border border-gray-100 p-8">
               <div className="flex justify-between items-center mb-6 no-print">
                 <h2 className="text-xl font-bold text-gray-900">{lang === 'zh' ? '简历预览 (A4)' : 'Resume Preview (A4)'}</h2>
-                <span className="text-[10px] bg-black text-white px-2 py-1 rounded font-black tracking-widest">DRAFT v1.0</span>
-              </div>
-              <div className="a4-container whitespace-pre-wrap text-[12px] text-gray-900 border border-gray-100 rounded shadow-2xl p-16 font-serif leading-relaxed">
-                {resumeDraft}
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setShowHistory(true)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 border border-gray-200 text-gray-600 rounded-lg text-xs font-bold hover:bg-gray-50 transition-all"
+                  >
+                    <History size={14} />
+                    {lang === 'zh' ? `历史 (${application.versions.length})` : `History (${application.versions.length})`}
+                  </button>
+                  <span className="text-[10px] bg-black text-white px-2 py-1 rounded font-black tracking-widest">
+                    DRAFT {versionLabel(application.versions, 'draft', resumeDraft) ?? 'v0'}
+                  </span>
+                </div>
               </div>
+              <FitIndicator lang={lang} fit={fit} />
+              <ClaimSummary lang={lang} claims={claims} />
+              <MissingDataPanel lang={lang} gaps={missingGaps} readOnly={streaming} onAsk={handleAskMissing} onFill={handleFillMissing} />
+              <ResumeEditor
+                lang={lang}
+                markdown={resumeDraft}
+                template={getTemplate(application.templateId)}
+                readOnly={streaming}
+                onChange={(md) => updateApplication(application.id, { resumeDraft: md, polishSource: 'draft' })}
+                onMeasure={setFit}
+                flags={claimFlags}
+              />
             </div>
 
             <div className="w-full lg:w-96 space-y-6 no-print">
-              <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-6">
-                <h3 className="text-lg font-bold text-gray-900 mb-5 flex items-center gap-2">
-                  <AlertCircle size={22} className="text-orange-500" />
-                  {lang === 'zh' ? '专家级诊断' : 'Brutal Diagnosis'}
-                </h3>
-                <div className="space-y-4">
-                  {critiques.map((c, i) => (
-                    <div key={i} className="p-4 rounded-xl border border-gray-100 bg-gray-50 text-sm relative hover:bg-white transition-colors cursor-default">
-                      <span className={`absolute top-4 right-4 text-[9px] font-black uppercase px-2 py-0.5 rounded ${
-                        c.level === 'fatal' ? 'bg-red-600 text-white' : c.level === 'important' ? 'bg-orange-500 text-white' : 'bg-blue-600 text-white'
-                      }`}>
-                        {c.level === 'fatal' ? (lang === 'zh' ? '致命' : 'Fatal') : c.level === 'important' ? (lang === 'zh' ? '重要' : 'Important') : (lang === 'zh' ? '微瑕' : 'Minor')}
-                      </span>
-                      <p className="font-bold text-gray-900 mb-2 pr-12 leading-snug">{c.text}</p>
-                      <div className="p-2.5 bg-white rounded-lg border border-gray-100 text-xs text-blue-800 flex gap-2">
-                        <span className="font-bold">FIX:</span>
-                        <span>{c.suggestion}</span>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
+              {atsReport && <AtsPanel lang={lang} report={atsReport} subject={lang === 'zh' ? '当前初稿' : 'This draft'} aiScore={analysis?.score} />}
+
+              <CritiquePanel
+                lang={lang}
+                critiques={critiques}
+                resolutions={application.critiqueResolutions}
+                fixing={fixingCritique}
+                readOnly={streaming}
+                onApply={(c) => handleApplyCritique(c)}
+                onDismiss={(c, reason) => resolveCritique(c, { status: 'dismissed', note: reason })}
+                onAnswer={handleAnswerCritique}
+                onReopen={(c) => resolveCritique(c, null)}
+              />
 
               <div className="bg-gray-900 rounded-2xl shadow-xl p-6 text-white space-y-4">
                 <h4 className="font-bold mb-1">{lang === 'zh' ? '迭代与打磨' : 'Polish & Iterate'}</h4>
@@ -668,23 +1725,28 @@ const App = () => {
                     {lang === 'zh' ? '补充信息（如具体数字、缺失技能的证明）：' : 'Provide more evidence or specific numbers:'}
                   </div>
                   <textarea 
-                    id="extra-info"
+                    value={extraInfo}
+                    onChange={(e) => setExtraInfo(e.target.value)}
                     className="w-full h-28 p-4 text-sm rounded-xl border-none bg-white/10 text-white focus:ring-2 focus:ring-blue-500 transition-all placeholder:text-gray-500"
                     placeholder={lang === 'zh' ? "在此补充..." : "Type here..."}
                   ></textarea>
                   <button 
-                    onClick={() => {
-                      const val = (document.getElementById('extra-info') as HTMLTextAreaElement).value;
-                      handleFinalPolish(val);
-                    }}
-                    className="w-full flex items-center justify-center gap-2 p-4 bg-white text-gray-900 rounded-xl font-black hover:bg-blue-500 hover:text-white transition-all text-sm uppercase tracking-widest"
+                    disabled={streaming}
+                    onClick={() => handleFinalPolish(extraInfo)}
+                    className="disabled:opacity-50 disabled:cursor-not-allowed w-full flex items-center justify-center gap-2 p-4 bg-white text-gray-900 rounded-xl font-black hover:bg-blue-500 hover:text-white transition-all text-sm uppercase tracking-widest"
                   >
                     <RotateCcw size={16} />
                     {lang === 'zh' ? '应用反馈并重新生成' : 'Apply & Regenerate'}
                   </button>
+                  {application.polishSource === 'final' && finalResume && (
+                    <p className="text-xs text-blue-300">
+                      {lang === 'zh' ? '将基于你手动修改过的最终简历继续打磨。' : 'Polishing will continue from your hand-edited final resume.'}
+                    </p>
+                  )}
                   <button 
+                    disabled={streaming}
                     onClick={() => handleFinalPolish()}
-                    className="w-full flex items-center justify-center gap-2 p-4 bg-blue-600 text-white rounded-xl font-black hover:bg-blue-700 transition-all text-sm uppercase tracking-widest shadow-lg shadow-blue-900/50"
+                    className="disabled:opacity-50 disabled:cursor-not-allowed w-full flex items-center justify-center gap-2 p-4 bg-blue-600 text-white rounded-xl font-black hover:bg-blue-700 transition-all text-sm uppercase tracking-widest shadow-lg shadow-blue-900/50"
                   >
                     <CheckCircle2 size={16} />
                     {lang === 'zh' ? '执行最终 ATS 抛光' : 'Final ATS Polish'}
@@ -704,34 +1766,63 @@ const App = () => {
                   <ChevronLeft />
                 </button>
                 <h2 className="text-2xl font-bold text-gray-900">{lang === 'zh' ? '最终简历' : 'Polished Resume'}</h2>
+                {versionLabel(application.versions, 'final', finalResume) && (
+                  <span className="text-[10px] bg-black text-white px-2 py-1 rounded font-black tracking-widest">
+                    {versionLabel(application.versions, 'final', finalResume)}
+                  </span>
+                )}
               </div>
               <div className="flex gap-2">
-                <button 
-                  onClick={() => window.print()}
-                  className="flex items-center gap-2 px-6 py-3 bg-gray-900 text-white rounded-xl text-sm font-black hover:bg-gray-800 shadow-xl transition-all"
+                <button
+                  onClick={() => setShowHistory(true)}
+                  className="flex items-center gap-2 px-4 py-3 border border-gray-200 text-gray-600 rounded-xl text-sm font-bold hover:bg-gray-50 transition-all"
                 >
-                  <Download size={16} />
-                  PDF (Print A4)
+                  <History size={16} />
+                  {lang === 'zh' ? '历史' : 'History'}
                 </button>
-                <button 
-                  onClick={() => {
-                    const blob = new Blob([finalResume], { type: 'text/plain' });
-                    const url = URL.createObjectURL(blob);
-                    const a = document.createElement('a');
-                    a.href = url;
-                    a.download = 'resume.txt';
-                    a.click();
-                  }}
-                  className="flex items-center gap-2 px-6 py-3 border border-gray-200 text-gray-600 rounded-xl text-sm font-bold hover:bg-gray-50 transition-all"
+                <button
+                  onClick={() => setShowInterviewPrep(true)}
+                  className="flex items-center gap-2 px-4 py-3 border border-gray-200 text-gray-600 rounded-xl text-sm font-bold hover:bg-gray-50 transition-all"
                 >
-                  Markdown
+                  <GraduationCap size={16} />
+                  {lang === 'zh' ? '面试准备' : 'Interview Prep'}
                 </button>
+                <ExportButtons exporting={exporting} disabled={streaming} onExport={handleExport} structured />
               </div>
             </div>
 
-            <div className="a4-container whitespace-pre-wrap text-[13px] text-gray-900 font-serif leading-relaxed border border-gray-100 shadow-2xl p-20 bg-white">
-              {finalResume}
-            </div>
+            <TemplatePicker
+              lang={lang}
+              value={application.templateId}
+              onChange={(templateId) => updateApplication(application.id, { templateId })}
+            />
+
+            {atsReport && (
+              <div className="mb-4">
+                <AtsPanel lang={lang} report={atsReport} subject={lang === 'zh' ? '最终简历' : 'The final resume'} aiScore={analysis?.score} />
+              </div>
+            )}
+            <FitIndicator lang={lang} fit={fit} onCondense={handleCondense} busy={streaming} gaveUp={condenseGaveUp} />
+            <ClaimSummary lang={lang} claims={claims} />
+            <MissingDataPanel lang={lang} gaps={missingGaps} readOnly={streaming} onAsk={handleAskMissing} onFill={handleFillMissing} />
+            <ResumeEditor
+              lang={lang}
+              markdown={finalResume}
+              template={getTemplate(application.templateId)}
+              readOnly={streaming}
+              onChange={(md) => updateApplication(application.id, { finalResume: md, polishSource: 'final' })}
+              onMeasure={setFit}
+              flags={claimFlags}
+            />
+
+            <RefineChat
+              lang={lang}
+              turns={application.refineChat}
+              versions={application.versions}
+              busy={streaming}
+              onSend={handleRefine}
+              onRevert={handleRestoreVersion}
+            />
 
             <div className="mt-16 p-10 bg-blue-50 rounded-3xl border border-blue-100 text-center no-print">
               <h3 className="font-black text-blue-900 mb-3 text-xl">{lang === 'zh' ? '这就是你的完美简历！' : 'Your Perfect Resume!'}</h3>
@@ -740,17 +1831,124 @@ const App = () => {
                   ? '我们已经基于岗位需求进行了深度量化和 ATS 关键词匹配。祝你面试顺利，斩获心仪 Offer！' 
                   : 'We optimized your resume based on JD needs and ATS keywords. Good luck!'}
               </p>
-              <button 
-                onClick={() => {
-                  setStep(0);
-                  setRawText('');
-                  setJd('');
-                  setExperienceDoc('');
-                }}
-                className="px-8 py-3 bg-white border-2 border-blue-200 text-blue-600 rounded-xl font-black hover:bg-blue-600 hover:text-white hover:border-blue-600 transition-all"
-              >
-                {lang === 'zh' ? '重新制作一份' : 'Start Over'}
-              </button>
+              <div className="flex flex-wrap justify-center gap-3">
+                <button
+                  disabled={streaming}
+                  onClick={() => (coverLetter.markdown ? setStep(5) : handleGenerateCoverLetter())}
+                  className="disabled:opacity-50 flex items-center gap-2 px-8 py-3 bg-blue-600 text-white rounded-xl font-black hover:bg-blue-700 transition-all"
+                >
+                  <Mail size={18} />
+                  {coverLetter.markdown
+                    ? (lang === 'zh' ? '查看求职信' : 'Open Cover Letter')
+                    : (lang === 'zh' ? '生成求职信' : 'Write Cover Letter')}
+                </button>
+                <button 
+                  onClick={handleCreateApplication}
+                  className="px-8 py-3 bg-white border-2 border-blue-200 text-blue-600 rounded-xl font-black hover:bg-blue-600 hover:text-white hover:border-blue-600 transition-all"
+                >
+                  {lang === 'zh' ? '用同一份经历投递新岗位' : 'Target Another Job'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Step 5: Cover Letter */}
+        {step === 5 && (
+          <div className="flex flex-col lg:flex-row gap-8">
+            <div className="flex-1 bg-white rounded-2xl shadow-xl border border-gray-100 p-8">
+              <div className="flex flex-wrap justify-between items-center mb-6 gap-4 no-print">
+                <div className="flex items-center gap-4">
+                  <button onClick={() => setStep(4)} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+                    <ChevronLeft />
+                  </button>
+                  <h2 className="text-xl font-bold text-gray-900">{lang === 'zh' ? '求职信' : 'Cover Letter'}</h2>
+                </div>
+                {coverLetter.markdown && (
+                  <div className="flex flex-wrap gap-2">
+                    <ExportButtons exporting={exporting} disabled={streaming} onExport={handleExport} />
+                  </div>
+                )}
+              </div>
+              {coverLetter.markdown ? (
+                <>
+                  <ClaimSummary lang={lang} claims={claims} />
+                  <MissingDataPanel lang={lang} gaps={missingGaps} readOnly={streaming} onAsk={handleAskMissing} onFill={handleFillMissing} />
+                  <ResumeEditor
+                    lang={lang}
+                    markdown={coverLetter.markdown}
+                    template={getTemplate(application.templateId)}
+                    readOnly={streaming}
+                    onChange={(md) => updateCoverLetter(application.id, { markdown: md })}
+                    flags={claimFlags}
+                  />
+                </>
+              ) : (
+                <p className="text-sm text-gray-400 text-center py-20">
+                  {lang === 'zh'
+                    ? '求职信会基于你的经历、职位描述、匹配优势和最终简历生成。'
+                    : 'The letter is written from your profile, the JD, your Fit Check strengths and the final resume.'}
+                </p>
+              )}
+            </div>
+
+            <div className="w-full lg:w-96 space-y-6 no-print">
+              <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-6 space-y-5">
+                <CoverLetterOptions
+                  lang={lang}
+                  tone={coverLetter.tone}
+                  length={coverLetter.length}
+                  disabled={streaming}
+                  onChange={(patch) => updateCoverLetter(application.id, patch)}
+                />
+                <button
+                  disabled={streaming}
+                  onClick={handleGenerateCoverLetter}
+                  className="disabled:opacity-50 w-full flex items-center justify-center gap-2 p-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-all text-sm"
+                >
+                  <Mail size={16} />
+                  {coverLetter.markdown
+                    ? (lang === 'zh' ? '重新生成' : 'Regenerate')
+                    : (lang === 'zh' ? '生成求职信' : 'Write Cover Letter')}
+                </button>
+              </div>
+
+              {coverLetter.critiques.length > 0 && (
+                <CritiquePanel
+                  lang={lang}
+                  critiques={coverLetter.critiques}
+                  resolutions={coverLetter.critiqueResolutions}
+                  fixing={fixingCritique}
+                  readOnly={streaming}
+                  onApply={(c) => handlePolishCoverLetter('', c)}
+                  onDismiss={(c, reason) => resolveLetterCritique(c, { status: 'dismissed', note: reason })}
+                  onAnswer={handleAnswerLetterCritique}
+                  onReopen={(c) => resolveLetterCritique(c, null)}
+                />
+              )}
+
+              {coverLetter.markdown && (
+                <div className="bg-gray-900 rounded-2xl shadow-xl p-6 text-white space-y-4">
+                  <h4 className="font-bold mb-1">{lang === 'zh' ? '迭代与打磨' : 'Polish & Iterate'}</h4>
+                  <div className="text-xs text-gray-400">
+                    {lang === 'zh' ? '补充信息（如公司名称、你关注这家公司的原因）：' : 'Add context, e.g. why this company:'}
+                  </div>
+                  <textarea
+                    value={letterInfo}
+                    onChange={(e) => setLetterInfo(e.target.value)}
+                    className="w-full h-28 p-4 text-sm rounded-xl border-none bg-white/10 text-white focus:ring-2 focus:ring-blue-500 transition-all placeholder:text-gray-500"
+                    placeholder={lang === 'zh' ? "在此补充..." : "Type here..."}
+                  ></textarea>
+                  <button
+                    disabled={streaming}
+                    onClick={() => handlePolishCoverLetter(letterInfo)}
+                    className="disabled:opacity-50 disabled:cursor-not-allowed w-full flex items-center justify-center gap-2 p-4 bg-blue-600 text-white rounded-xl font-black hover:bg-blue-700 transition-all text-sm uppercase tracking-widest shadow-lg shadow-blue-900/50"
+                  >
+                    <CheckCircle2 size={16} />
+                    {lang === 'zh' ? '应用反馈并打磨' : 'Apply & Polish'}
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -0,0 +1,44 @@
+import { CoverLetter, JobApplication, Language } from '../types';
+import { DEFAULT_TEMPLATE_ID } from './templates';
+
+// --- Job Application helpers ---
+
+export const emptyCoverLetter = (): CoverLetter => ({
+  tone: 'formal',
+  length: 'standard',
+  markdown: '',
+  critiques: [],
+  critiqueResolutions: {},
+});
+
+export const createApplication = (title: string): JobApplication => ({
+  id: crypto.randomUUID(),
+  title,
+  createdAt: Date.now(),
+  jd: '',
+  jobPosting: null,
+  analysis: null,
+  resumeDraft: '',
+  critiques: [],
+  finalResume: '',
+  templateId: DEFAULT_TEMPLATE_ID,
+  polishSource: 'draft',
+  confirmedClaims: [],
+  critiqueResolutions: {},
+  versions: [],
+  refineChat: [],
+  coverLetter: emptyCoverLetter(),
+  interviewPrep: { questions: [], attempts: {} },
+});
+
+export const defaultApplicationTitle = (lang: Language, index: number) =>
+  lang === 'zh' ? `求职申请 ${index}` : `Application ${index}`;
+
+// The furthest workflow step an application has reached, used when switching to it.
+export const furthestStep = (app: JobApplication): number => {
+  if (app.coverLetter.markdown) return 5;
+  if (app.finalResume) return 4;
+  if (app.resumeDraft) return 3;
+  if (app.analysis) return 2;
+  return 1;
+};
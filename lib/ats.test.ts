@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeKeywords } from './ats';
+
+const terms = (keywords: { term: string }[]) => keywords.map(k => k.term);
+
+describe('analyzeKeywords', () => {
+  // A skill list ends at its clause, and a JD-derived term never hides a lexicon term.
+  it('keeps the clause after a Chinese skill list out of the list', () => {
+    const report = analyzeKeywords('熟悉 Kafka、Flink 等消息队列，掌握机器学习。', '负责机器学习平台建设。');
+    expect(terms(report.matched)).toContain('机器学习');
+    expect(terms(report.missing)).not.toContain('掌握机器学习');
+    expect(terms(report.missing)).toEqual(expect.arrayContaining(['Kafka', 'Flink']));
+  });
+});
@@ -0,0 +1,277 @@
+import { KeywordCategory, LEXICON, LexiconEntry } from './atsLexicon';
+
+// --- Local ATS keyword coverage ---
+// Deterministic and model-free: the same JD and resume always give the same score.
+// Text is normalized into tokens (lowercase, lightly stemmed Latin words and
+// dictionary-segmented Chinese words), keywords are pulled from the JD, and each
+// keyword counts as covered when any of its aliases appears in the resume.
+
+export interface AtsKeyword {
+  // Canonical name, or the JD's own wording for terms outside the lexicon.
+  term: string;
+  category: KeywordCategory;
+  // How often the JD mentions it, used to list the most emphasised terms first.
+  mentions: number;
+}
+
+export interface AtsReport {
+  // 0-100; null when the JD yields no keywords to check.
+  coverage: number | null;
+  matched: AtsKeyword[];
+  missing: AtsKeyword[];
+}
+
+const CJK_RUN = '\\u3400-\\u9fff\\uf900-\\ufaff';
+const TOKEN = new RegExp(`([${CJK_RUN}]+)|([a-z0-9]+(?:[.+#][a-z0-9+#]*)*)`, 'g');
+const IS_CJK = new RegExp(`[${CJK_RUN}]`);
+
+// Endings folded together so "optimizing", "optimized" and "optimization" meet.
+const SUFFIXES: [string, string][] = [
+  ['ization', 'iz'], ['isation', 'iz'], ['izing', 'iz'], ['ising', 'iz'], ['ized', 'iz'], ['ised', 'iz'],
+  ['izes', 'iz'], ['ises', 'iz'], ['ize', 'iz'], ['ations', 'ate'], ['ation', 'ate'], ['ies', 'y'],
+  ['sses', 'ss'], ['ing', ''], ['ed', ''], ['es', 'e'], ['s', ''],
+];
+
+export const stem = (word: string): string => {
+  // Versions, symbols and short words ("c++", "es6", "aws") are identifiers, not English.
+  if (word.length <= 4 || /[^a-z]/.test(word)) return word;
+  if (/(ss|us|is)$/.test(word)) return word;
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return (word.slice(0, -suffix.length) + replacement).replace(/e$/, '');
+    }
+  }
+  return word.replace(/e$/, '');
+};
+
+const segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter('zh', { granularity: 'word' })
+  : null;
+
+interface Dictionary {
+  terms: Set<string>;
+  maxLength: number;
+}
+
+const createDictionary = (terms: Iterable<string>): Dictionary => {
+  const set = new Set([...terms].map(t => t.toLowerCase()));
+  return { terms: set, maxLength: Math.max(2, ...[...set].map(t => t.length)) };
+};
+
+// Length of the longest dictionary term starting at `i`, or 0.
+const termLengthAt = (run: string, i: number, dictionary: Dictionary): number => {
+  for (let len = Math.min(dictionary.maxLength, run.length - i); len >= 2; len--) {
+    if (dictionary.terms.has(run.slice(i, i + len))) return len;
+  }
+  return 0;
+};
+
+/**
+ * Forward maximum matching against the lexicon, then the JD's own `extra` terms,
+ * falling back to the platform's word segmenter (or single characters) for the rest.
+ * Lexicon terms always come out whole, so "机器学习" never splits into 机器/学习, and
+ * neither an extra term nor a fallback word may swallow the start of one.
+ */
+const segmentChinese = (run: string, lexicon: Dictionary, extra: Dictionary): string[] => {
+  const fallbackEnds = new Map<number, number>();
+  if (segmenter) {
+    for (const s of segmenter.segment(run)) fallbackEnds.set(s.index, s.index + s.segment.length);
+  }
+  // The first lexicon term starting inside (from, to), or `to`.
+  const clip = (from: number, to: number) => {
+    for (let j = from + 1; j < to; j++) if (termLengthAt(run, j, lexicon)) return j;
+    return to;
+  };
+  const words: string[] = [];
+  let i = 0;
+  while (i < run.length) {
+    let end = i + termLengthAt(run, i, lexicon);
+    if (end === i) {
+      const extraEnd = i + termLengthAt(run, i, extra);
+      if (extraEnd > i && clip(i, extraEnd) === extraEnd) end = extraEnd;
+    }
+    if (end === i) end = clip(i, fallbackEnds.get(i) ?? i + 1);
+    words.push(run.slice(i, end));
+    i = end;
+  }
+  return words;
+};
+
+interface Tokenizer {
+  tokenize: (text: string) => string[];
+}
+
+const createTokenizer = (lexiconTerms: Iterable<string>, extraTerms: Iterable<string>): Tokenizer => {
+  const lexicon = createDictionary(lexiconTerms);
+  const extra = createDictionary(extraTerms);
+  return {
+    tokenize: (text) => {
+      const tokens: string[] = [];
+      for (const [, cjk, latin] of text.toLowerCase().matchAll(TOKEN)) {
+        if (cjk) tokens.push(...segmentChinese(cjk, lexicon, extra));
+        else tokens.push(stem(latin.replace(/\.+$/, '')));
+      }
+      return tokens;
+    }
+  };
+};
+
+interface Candidate {
+  key: string;
+  term: string;
+  category: KeywordCategory;
+  aliases: string[];
+}
+
+const LEXICON_CHINESE = LEXICON.flatMap(e => e.aliases.filter(a => IS_CJK.test(a)));
+
+// Acronyms that look like skills but are not.
+const ACRONYM_STOPWORDS = new Set([
+  'A', 'I', 'US', 'USA', 'UK', 'EU', 'HQ', 'HR', 'IT', 'OK', 'CEO', 'CTO', 'CFO', 'COO', 'JD', 'FAQ', 'ASAP',
+  'TBD', 'ETA', 'PTO', 'EOE', 'AM', 'PM', 'AND', 'OR', 'THE', 'OUR', 'YOU', 'WE', 'NEW', 'KPI', 'OKR', 'BS', 'BA',
+  'MS', 'MA', 'MBA', 'PHD', 'BSC', 'MSC', 'NYC', 'SF', 'LA', 'GMT', 'UTC', 'APAC', 'EMEA', 'B2B', 'B2C',
+  'CV', 'ID', 'PDF', 'TV', 'VS', 'ETC',
+]);
+
+// Chinese JDs list skills after these verbs: 熟悉 Kafka、Flink 等. A list ends at the
+// clause, since the next one usually starts with a verb of its own.
+const ZH_SKILL_VERB = '熟练掌握|熟练使用|熟悉|掌握|精通|了解|擅长|具备|具有|会使用';
+const ZH_SKILL_LIST = new RegExp(`(?:${ZH_SKILL_VERB})([^。；;！!？?，,\\n]+)`, 'g');
+const ZH_LEADING_VERB = new RegExp(`^(?:${ZH_SKILL_VERB})+`);
+const ZH_FILLER = /(等|相关|技术|工具|能力|经验|知识|技能|者优先|优先|及以上|以上|的|基础|开发|使用|常用|主流|一种或多种|其中一种|至少一种)+$/;
+
+// Terms from the JD that the lexicon does not know: acronyms, CamelCase names, dotted or
+// symbol names (Node.js, C#), and the items of Chinese "熟悉/掌握 ..." lists.
+const heuristicCandidates = (jd: string): Candidate[] => {
+  const found = new Map<string, string>();
+  const add = (raw: string) => {
+    const term = raw.trim();
+    if (term.length < 2) return;
+    const key = term.toLowerCase();
+    if (!found.has(key)) found.set(key, term);
+  };
+
+  for (const [word] of jd.matchAll(/\b[A-Z][A-Z0-9]{1,6}\b/g)) {
+    if (!ACRONYM_STOPWORDS.has(word) && /[A-Z]/.test(word)) add(word);
+  }
+  for (const [word] of jd.matchAll(/\b[A-Z][a-z]+(?:[A-Z][a-z0-9]*)+\b/g)) add(word);
+  for (const [word] of jd.matchAll(/\b[A-Za-z]+(?:\.js|\+\+|#)/g)) add(word);
+
+  for (const [, list] of jd.matchAll(ZH_SKILL_LIST)) {
+    for (const item of list.split(/[、，,/和及与或以及\s]+/)) {
+      // "Pulsar 等消息队列": the category after 等 is not itself a skill.
+      const cleaned = item.replace(/等.*$/, '').replace(ZH_LEADING_VERB, '').replace(/^(如|例如|包括|常见的|各类|各种)/, '').replace(ZH_FILLER, '');
+      if (IS_CJK.test(cleaned) ? cleaned.length <= 8 : /^[A-Za-z][\w.+#]*$/.test(cleaned)) add(cleaned);
+    }
+  }
+
+  return [...found.values()].map(term => ({ key: `x:${term.toLowerCase()}`, term, category: 'skill', aliases: [term] }));
+};
+
+const lexiconCandidate = (e: LexiconEntry): Candidate =>
+  ({ key: `l:${e.term}`, term: e.term, category: e.category, aliases: e.aliases });
+
+const indexOfSequence = (tokens: string[], sequence: string[], from = 0): number => {
+  outer: for (let i = from; i <= tokens.length - sequence.length; i++) {
+    for (let j = 0; j < sequence.length; j++) {
+      if (tokens[i + j] !== sequence[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+const CATEGORY_ORDER: KeywordCategory[] = ['certification', 'skill', 'tool', 'seniority'];
+
+interface KeywordHit {
+  candidate: Candidate;
+  label: string;
+  mentions: number;
+}
+
+interface KeywordMatcher {
+  tokenize: (text: string) => string[];
+  // Keywords mentioned in `tokens`, by candidate key.
+  find: (tokens: string[]) => Map<string, KeywordHit>;
+  // Whether any alias of `candidate` appears in `tokens`.
+  covers: (candidate: Candidate, tokens: string[]) => boolean;
+}
+
+// The lexicon plus `extra` candidates, with every alias tokenized once up front.
+const createMatcher = (extra: Candidate[]): KeywordMatcher => {
+  const tokenizer = createTokenizer(LEXICON_CHINESE, extra.flatMap(c => c.aliases.filter(a => IS_CJK.test(a))));
+  const tokenized = (candidate: Candidate) =>
+    candidate.aliases.map(alias => ({ candidate, alias, sequence: tokenizer.tokenize(alias) })).filter(a => a.sequence.length);
+
+  const lexiconAliases = LEXICON.map(lexiconCandidate).flatMap(tokenized);
+  // An extra alias that contains a lexicon term would outrank it as the longer match
+  // and hide it, so it is dropped: the lexicon term is reported instead.
+  const extraAliases = extra.flatMap(tokenized)
+    .filter(({ sequence }) => !lexiconAliases.some(l => indexOfSequence(sequence, l.sequence) >= 0));
+
+  // Longest alias wins where two overlap, so "Google Cloud" is not also "cloud computing".
+  const aliases = [...lexiconAliases, ...extraAliases].sort((a, b) => b.sequence.length - a.sequence.length);
+  const sequencesByKey = new Map<string, string[][]>();
+  for (const { candidate, sequence } of aliases) {
+    sequencesByKey.set(candidate.key, [...(sequencesByKey.get(candidate.key) ?? []), sequence]);
+  }
+
+  return {
+    tokenize: tokenizer.tokenize,
+    find: (tokens) => {
+      const claimed = new Array(tokens.length).fill(false);
+      const found = new Map<string, KeywordHit>();
+      for (const { candidate, alias, sequence } of aliases) {
+        for (let i = indexOfSequence(tokens, sequence); i >= 0; i = indexOfSequence(tokens, sequence, i + 1)) {
+          if (claimed.slice(i, i + sequence.length).some(Boolean)) continue;
+          claimed.fill(true, i, i + sequence.length);
+          const hit = found.get(candidate.key);
+          if (hit) hit.mentions++;
+          // Chinese text keeps its own wording; Latin spellings show the canonical name.
+          else found.set(candidate.key, { candidate, label: IS_CJK.test(alias) ? alias : candidate.term, mentions: 1 });
+        }
+      }
+      return found;
+    },
+    covers: (candidate, tokens) =>
+      (sequencesByKey.get(candidate.key) ?? []).some(sequence => indexOfSequence(tokens, sequence) >= 0)
+  };
+};
+
+const uniqueCandidates = (candidates: Candidate[]): Candidate[] =>
+  [...new Map(candidates.map(c => [c.key, c])).values()];
+
+export const analyzeKeywords = (jd: string, resume: string): AtsReport => {
+  const matcher = createMatcher(heuristicCandidates(jd));
+  const found = matcher.find(matcher.tokenize(jd));
+  const resumeTokens = matcher.tokenize(resume);
+
+  const matched: AtsKeyword[] = [];
+  const missing: AtsKeyword[] = [];
+  for (const { candidate, label, mentions } of found.values()) {
+    const keyword: AtsKeyword = { term: label, category: candidate.category, mentions };
+    (matcher.covers(candidate, resumeTokens) ? matched : missing).push(keyword);
+  }
+
+  const order = (a: AtsKeyword, b: AtsKeyword) =>
+    CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) || b.mentions - a.mentions;
+  return {
+    coverage: found.size ? Math.round((matched.length / found.size) * 100) : null,
+    matched: matched.sort(order),
+    missing: missing.sort(order),
+  };
+};
+
+/**
+ * For each claim, the skills, tools and certifications it names that never appear
+ * in `source`. The source is tokenized once, so this stays cheap for a whole resume.
+ */
+export const unsupportedKeywords = (claims: string[], source: string): string[][] => {
+  const matcher = createMatcher(uniqueCandidates(claims.flatMap(heuristicCandidates)));
+  const sourceTokens = matcher.tokenize(source);
+  return claims.map(claim =>
+    [...matcher.find(matcher.tokenize(claim)).values()]
+      .filter(hit => hit.candidate.category !== 'seniority' && !matcher.covers(hit.candidate, sourceTokens))
+      .map(hit => hit.label)
+  );
+};
@@ -0,0 +1,251 @@
+// --- ATS keyword lexicon ---
+// Canonical terms with the spellings, abbreviations and Chinese names recruiters use
+// for them. Aliases are matched after the analyzer's normalization (lowercase,
+// light stemming), so plurals and verb forms need not be listed.
+// Deliberately missing: one-letter and everyday-word aliases ("Go", "R", "C") that
+// would match ordinary prose; their longer forms ("Golang") are listed instead.
+
+export type KeywordCategory = 'skill' | 'tool' | 'certification' | 'seniority';
+
+export interface LexiconEntry {
+  term: string;
+  category: KeywordCategory;
+  aliases: string[];
+}
+
+const entry = (category: KeywordCategory) => (term: string, ...aliases: string[]): LexiconEntry =>
+  ({ term, category, aliases: [term, ...aliases] });
+
+const skill = entry('skill');
+const tool = entry('tool');
+const cert = entry('certification');
+const level = entry('seniority');
+
+export const LEXICON: LexiconEntry[] = [
+  // Programming languages
+  skill('JavaScript', 'js', 'ecmascript', 'es6'),
+  skill('TypeScript', 'ts'),
+  skill('Python', 'py'),
+  skill('Java', 'jvm'),
+  skill('Kotlin'),
+  skill('Scala'),
+  skill('Golang', 'go language', 'go语言'),
+  skill('Rust'),
+  skill('C++', 'cpp'),
+  skill('C#', 'csharp', 'c sharp'),
+  skill('PHP'),
+  skill('Ruby'),
+  skill('Swift'),
+  skill('Objective-C', 'objc', 'objective c'),
+  skill('SQL', 't-sql', 'pl/sql'),
+  skill('HTML', 'html5'),
+  skill('CSS', 'css3', 'sass', 'scss'),
+  skill('Shell scripting', 'bash', 'shell', 'shell脚本'),
+  skill('MATLAB'),
+  skill('Solidity'),
+
+  // Engineering practice
+  skill('Machine learning', 'ml', '机器学习'),
+  skill('Deep learning', '深度学习'),
+  skill('Natural language processing', 'nlp', '自然语言处理'),
+  skill('Computer vision', '计算机视觉'),
+  skill('Large language models', 'llm', 'llms', '大模型', '大语言模型'),
+  skill('Reinforcement learning', '强化学习'),
+  skill('Recommender systems', 'recommendation system', 'recommender system', '推荐系统', '推荐算法'),
+  skill('Data analysis', 'data analytics', 'analytics', '数据分析'),
+  skill('Data mining', '数据挖掘'),
+  skill('Data visualization', 'visualization', '数据可视化', '可视化'),
+  skill('Data engineering', 'data pipeline', 'etl', '数据工程', '数仓', '数据仓库', 'data warehouse'),
+  skill('Statistics', 'statistical analysis', '统计', '统计学', '统计分析'),
+  skill('A/B testing', 'ab testing', 'a/b test', 'experimentation', 'ab测试', 'a/b测试'),
+  skill('Algorithms', 'data structures', '算法', '数据结构'),
+  skill('Distributed systems', 'distributed system', '分布式', '分布式系统'),
+  skill('Microservices', 'microservice', 'micro-service', '微服务'),
+  skill('System design', 'architecture design', '系统设计', '架构设计'),
+  skill('High concurrency', 'high availability', 'scalability', '高并发', '高可用'),
+  skill('RESTful APIs', 'restful', 'rest api', 'api design', '接口设计'),
+  skill('GraphQL'),
+  skill('gRPC'),
+  skill('Frontend development', 'front-end', 'frontend', 'front end', '前端', '前端开发'),
+  skill('Backend development', 'back-end', 'backend', 'back end', '后端', '后端开发', '服务端'),
+  skill('Full-stack development', 'full stack', 'full-stack', 'fullstack', '全栈'),
+  skill('Mobile development', 'mobile', '移动端', '移动开发'),
+  skill('iOS'),
+  skill('Android'),
+  skill('Unit testing', 'test automation', 'automated testing', 'tdd', '单元测试', '自动化测试'),
+  skill('CI/CD', 'continuous integration', 'continuous delivery', 'continuous deployment', '持续集成', '持续交付'),
+  skill('DevOps'),
+  skill('Site reliability engineering', 'sre'),
+  skill('Performance optimization', 'performance tuning', '性能优化', '性能调优'),
+  skill('Security', 'cybersecurity', 'information security', 'infosec', '信息安全', '网络安全'),
+  skill('Cloud computing', 'cloud', '云计算', '云原生', 'cloud native'),
+  skill('Blockchain', '区块链'),
+  skill('Embedded systems', 'embedded', '嵌入式'),
+
+  // Business, product and design
+  skill('Product management', 'product manager', '产品管理', '产品经理'),
+  skill('Project management', 'program management', '项目管理'),
+  skill('Agile', 'scrum', 'kanban', '敏捷', '敏捷开发'),
+  skill('Stakeholder management', 'stakeholder', 'cross-functional', '跨部门', '跨部门沟通', '跨团队'),
+  skill('Requirements analysis', 'requirement analysis', 'requirements gathering', 'prd', '需求分析'),
+  skill('User research', 'ux research', 'usability testing', '用户研究', '用户调研'),
+  skill('UX design', 'ux', 'user experience', 'interaction design', '交互设计', '用户体验'),
+  skill('UI design', 'ui', 'visual design', 'ui设计', '视觉设计'),
+  skill('Prototyping', 'wireframe', 'wireframing', '原型设计', '原型'),
+  skill('Digital marketing', 'online marketing', '数字营销', '线上营销'),
+  skill('SEO', 'search engine optimization', '搜索引擎优化'),
+  skill('SEM', 'search engine marketing', 'paid search', 'ppc'),
+  skill('Content marketing', 'content strategy', '内容营销', '内容运营'),
+  skill('Growth marketing', 'growth hacking', 'user acquisition', '用户增长', '增长黑客', '拉新'),
+  skill('User operations', 'community management', '用户运营', '社群运营'),
+  skill('Brand management', 'branding', '品牌', '品牌管理'),
+  skill('Sales', 'business development', 'bd', '销售', '商务拓展'),
+  skill('Account management', 'key account', '客户管理', '大客户'),
+  skill('Customer success', 'customer support', '客户成功', '客户服务'),
+  skill('Financial analysis', 'financial modeling', 'financial modelling', 'valuation', '财务分析', '财务建模', '估值'),
+  skill('Accounting', 'bookkeeping', '会计', '财务核算'),
+  skill('Budgeting', 'forecasting', 'budget', '预算', '预算管理'),
+  skill('Risk management', 'risk control', '风险管理', '风控'),
+  skill('Auditing', 'audit', '审计'),
+  skill('Supply chain', 'procurement', 'sourcing', 'logistics', '供应链', '采购', '物流'),
+  skill('Recruiting', 'talent acquisition', 'recruitment', '招聘'),
+  skill('Compliance', 'regulatory', '合规'),
+  skill('Negotiation', '谈判'),
+  skill('Team leadership', 'people management', 'team management', 'mentoring', '团队管理', '带团队', '团队领导'),
+  skill('Strategic planning', 'strategy', '战略规划', '战略'),
+  skill('Operations management', 'operations management', '运营管理', '运营'),
+  skill('Copywriting', '文案', '文案撰写'),
+  skill('Video editing', '视频剪辑', '剪辑'),
+  skill('English', 'fluent english', 'business english', '英语', '英文'),
+  skill('Mandarin', 'chinese', '普通话', '中文'),
+
+  // Frameworks, platforms and software
+  tool('React', 'react.js', 'reactjs'),
+  tool('React Native'),
+  tool('Vue', 'vue.js', 'vuejs'),
+  tool('Angular', 'angularjs'),
+  tool('Next.js', 'nextjs'),
+  tool('Node.js', 'nodejs'),
+  tool('Express', 'express.js'),
+  tool('Django'),
+  tool('Flask'),
+  tool('FastAPI'),
+  tool('Spring Boot', 'spring framework', 'spring cloud', 'springboot'),
+  tool('.NET', 'dotnet', 'asp.net'),
+  tool('Flutter'),
+  tool('Webpack', 'vite'),
+  tool('Redux'),
+  tool('Tailwind CSS', 'tailwind'),
+  tool('jQuery'),
+  tool('TensorFlow'),
+  tool('PyTorch'),
+  tool('scikit-learn', 'sklearn'),
+  tool('Pandas'),
+  tool('NumPy'),
+  tool('Spark', 'pyspark', 'apache spark'),
+  tool('Hadoop', 'hdfs', 'hive', 'mapreduce'),
+  tool('Flink'),
+  tool('Kafka'),
+  tool('Airflow'),
+  tool('dbt'),
+  tool('Snowflake'),
+  tool('BigQuery'),
+  tool('Redshift'),
+  tool('Databricks'),
+  tool('MySQL'),
+  tool('PostgreSQL', 'postgres'),
+  tool('Oracle Database', 'oracle'),
+  tool('SQL Server', 'mssql'),
+  tool('MongoDB', 'mongo'),
+  tool('Redis'),
+  tool('Elasticsearch', 'elk'),
+  tool('ClickHouse'),
+  tool('RabbitMQ'),
+  tool('AWS', 'amazon web services', 'ec2', 's3', 'lambda'),
+  tool('Azure', 'microsoft azure'),
+  tool('Google Cloud', 'gcp', 'google cloud platform'),
+  tool('Alibaba Cloud', 'aliyun', '阿里云'),
+  tool('Tencent Cloud', '腾讯云'),
+  tool('Docker', 'containerization', '容器化'),
+  tool('Kubernetes', 'k8s'),
+  tool('Terraform', 'infrastructure as code', 'iac'),
+  tool('Ansible'),
+  tool('Jenkins'),
+  tool('GitHub Actions'),
+  tool('GitLab CI', 'gitlab'),
+  tool('Git', 'github', 'version control'),
+  tool('Linux', 'unix'),
+  tool('Nginx'),
+  tool('Prometheus', 'grafana'),
+  tool('Jira', 'confluence'),
+  tool('Figma'),
+  tool('Sketch'),
+  tool('Adobe Photoshop', 'photoshop', 'ps'),
+  tool('Adobe Illustrator', 'illustrator'),
+  tool('Adobe Premiere', 'premiere'),
+  tool('Axure', 'axure rp'),
+  tool('Tableau'),
+  tool('Power BI', 'powerbi'),
+  tool('Looker'),
+  tool('Excel', 'microsoft excel', 'vlookup', 'pivot table', '数据透视表'),
+  tool('PowerPoint', 'ppt', 'keynote'),
+  tool('Google Analytics', 'ga4'),
+  tool('Salesforce'),
+  tool('CRM systems', 'crm'),
+  tool('HubSpot'),
+  tool('SAP'),
+  tool('SPSS'),
+  tool('Stata'),
+  tool('Unity'),
+  tool('Unreal Engine', 'unreal'),
+  tool('Selenium', 'cypress', 'playwright'),
+  tool('Postman'),
+  tool('LangChain'),
+  tool('OpenAI API', 'openai', 'gpt'),
+  tool('WeChat Mini Program', 'mini program', '小程序', '微信小程序'),
+
+  // Certifications and language tests
+  cert('PMP', 'project management professional'),
+  cert('CPA', 'certified public accountant', '注册会计师'),
+  cert('CFA', 'chartered financial analyst'),
+  cert('ACCA'),
+  cert('FRM'),
+  cert('CISSP'),
+  cert('CISA'),
+  cert('CCNA'),
+  cert('CCNP'),
+  cert('CKA', 'certified kubernetes administrator'),
+  cert('CKAD'),
+  cert('AWS Certified', 'aws certification', 'aws solutions architect', 'aws certified solutions architect'),
+  cert('Azure certification', 'azure certified', 'az-900', 'az 900'),
+  cert('Google Cloud certification', 'google cloud certified', 'professional cloud architect'),
+  cert('Certified ScrumMaster', 'csm', 'certified scrum master', 'psm', 'professional scrum master'),
+  cert('PRINCE2'),
+  cert('Six Sigma', 'green belt', 'black belt', '六西格玛'),
+  cert('ITIL'),
+  cert('SHRM', 'shrm-cp', 'shrm-scp'),
+  cert('CIPD'),
+  cert('IELTS', '雅思'),
+  cert('TOEFL', '托福'),
+  cert('CET-6', 'cet 6', 'cet6', '英语六级', '六级'),
+  cert('CET-4', 'cet 4', 'cet4', '英语四级', '四级'),
+  cert('TEM-8', 'tem 8', 'tem8', '专业八级', '专八'),
+  cert('Legal Professional Qualification', '法律职业资格', '法律职业资格证', '司法考试'),
+  cert('Teacher Qualification', '教师资格证', '教师资格'),
+  cert('Securities Qualification', '证券从业资格', '证券从业'),
+  cert('Fund Qualification', '基金从业资格', '基金从业'),
+
+  // Seniority
+  level('Intern', 'internship', '实习', '实习生'),
+  level('Junior', 'jr', 'entry-level', 'entry level', 'new grad', '初级', '应届', '应届生', '校招'),
+  level('Mid-level', 'mid level', 'intermediate', '中级'),
+  level('Senior', 'sr', '高级', '资深'),
+  level('Lead', 'tech lead', 'team lead', '组长'),
+  level('Staff', 'staff engineer'),
+  level('Principal', 'principal engineer'),
+  level('Expert', '专家'),
+  level('Architect', '架构师'),
+  level('Manager', '经理', '主管'),
+  level('Director', 'head of', '总监', '负责人'),
+  level('Vice President', 'vp', '副总裁'),
+];
@@ -0,0 +1,65 @@
+import { AnalysisResult, StructuredJd } from '../types';
+import type { JdSource } from '../server/contract';
+
+// --- Batch Fit Check ---
+
+// At most this many Fit Checks run at once, well inside the server's per-client rate limit.
+export const BATCH_CONCURRENCY = 3;
+
+export interface BatchPosting {
+  id: string;
+  title: string;
+  jd: string;
+  // Files and links still to be imported before their Fit Check.
+  source: JdSource | null;
+  jobPosting: StructuredJd | null;
+  status: 'pending' | 'running' | 'done' | 'error';
+  analysis: AnalysisResult | null;
+  // Local ATS keyword coverage of the profile against this JD.
+  coverage: number | null;
+  error: string;
+}
+
+export const createPosting = (title: string, jd: string, source: JdSource | null = null): BatchPosting => ({
+  id: crypto.randomUUID(),
+  title,
+  jd,
+  source,
+  jobPosting: null,
+  status: 'pending',
+  analysis: null,
+  coverage: null,
+  error: '',
+});
+
+// The first line, shortened, until an import supplies the real title.
+export const guessTitle = (jd: string): string => {
+  const first = jd.split('\n').map(l => l.replace(/^[#\-*\s]+/, '').trim()).find(Boolean) ?? '';
+  return first.length > 80 ? `${first.slice(0, 77)}…` : first;
+};
+
+const URL_ONLY = /^https?:\/\/\S+$/i;
+
+/**
+ * Pasted postings, separated by a line of three or more dashes. A chunk that is only
+ * links becomes one posting per link, fetched by the server.
+ */
+export const splitPostings = (text: string): BatchPosting[] =>
+  text.split(/^\s*-{3,}\s*$/m)
+    .map(chunk => chunk.trim())
+    .filter(Boolean)
+    .flatMap(chunk => {
+      const lines = chunk.split('\n').map(l => l.trim()).filter(Boolean);
+      return lines.every(l => URL_ONLY.test(l))
+        ? lines.map(url => createPosting(url, '', { kind: 'url', url }))
+        : [createPosting(guessTitle(chunk), chunk)];
+    });
+
+/** Runs `worker` over `items` with at most `limit` in flight; stops taking new items once `signal` aborts. */
+export const runPool = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>, signal?: AbortSignal) => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) await worker(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+};
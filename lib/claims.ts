@@ -0,0 +1,114 @@
+import { markdownLines, parseInline, parseMarkdown, runsToText, stripLineMarker } from './markdown';
+import { unsupportedKeywords } from './ats';
+
+// --- Fabrication guard ---
+// Splits a resume into sentence-level claims and traces each one back to the
+// source material (Experience Document, raw notes, facts the user confirmed).
+// Numbers and named skills that appear nowhere in the source are flagged.
+
+export interface UnsupportedValue {
+  kind: 'number' | 'skill';
+  value: string;
+}
+
+export interface ResumeClaim {
+  // First source line of the heading, paragraph or list item the claim sits in.
+  anchor: number;
+  // Source line holding the sentence, and the sentence as written there.
+  line: number;
+  raw: string;
+  // The sentence as plain text, also the key a confirmation is stored under.
+  text: string;
+  // Closest sentence in the source material, or null when nothing is similar.
+  evidence: string | null;
+  unsupported: UnsupportedValue[];
+}
+
+// Leading currency is kept for display; the digits alone decide support.
+const NUMBER = /(?<![A-Za-z\d.])[$€£¥]?\d+(?:[.,]\d+)*(?:\s?(?:%|percent|[kmb]\b|x\b|\+|万|亿|倍))?/gi;
+
+const digitsOf = (value: string) => value.replace(/[^\d.]/g, '').replace(/\.$/, '');
+
+const splitSentences = (text: string): string[] =>
+  text.split(/(?<=[.!?])\s+|(?<=[。！？；;])/).map(s => s.trim()).filter(Boolean);
+
+// Lowercased words and CJK character pairs, enough to rank source sentences by overlap.
+const roughTokens = (text: string): Set<string> => {
+  const tokens = new Set<string>();
+  for (const [word] of text.toLowerCase().matchAll(/[a-z0-9+#]{2,}|[㐀-鿿]+/g)) {
+    if (!/[㐀-鿿]/.test(word)) tokens.add(word);
+    else for (let i = 0; i < word.length - 1; i++) tokens.add(word.slice(i, i + 2));
+  }
+  return tokens;
+};
+
+const closestSentence = (claim: string, sources: { text: string; tokens: Set<string> }[]): string | null => {
+  const claimTokens = roughTokens(claim);
+  let best: string | null = null;
+  let bestScore = 1;
+  for (const source of sources) {
+    let score = 0;
+    for (const token of claimTokens) if (source.tokens.has(token)) score++;
+    if (score > bestScore) {
+      best = source.text;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// Normalized form a confirmation is matched by, so spacing edits do not lose it.
+export const claimKey = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Every sentence in the resume with its closest source sentence and the values
+ * it cannot back up. The name line is skipped; everything else is a claim.
+ */
+export const verifyClaims = (markdown: string, sourceTexts: string[], confirmed: string[]): ResumeClaim[] => {
+  const lines = markdownLines(markdown);
+  const claims: Omit<ResumeClaim, 'evidence' | 'unsupported'>[] = [];
+  for (const block of parseMarkdown(markdown)) {
+    if (block.type === 'rule' || (block.type === 'heading' && block.level === 1)) continue;
+    const spans = block.type === 'list' ? block.spans : [block.span];
+    for (const span of spans) {
+      for (let line = span.start; line < span.end; line++) {
+        for (const raw of splitSentences(stripLineMarker(lines[line]))) {
+          const text = runsToText(parseInline(raw)).trim();
+          if (text) claims.push({ anchor: span.start, line, raw, text });
+        }
+      }
+    }
+  }
+
+  const confirmedKeys = new Set(confirmed.map(claimKey));
+  const source = [...sourceTexts, ...confirmed].join('\n');
+  const sourceNumbers = new Set([...source.matchAll(NUMBER)].map(([n]) => digitsOf(n)));
+  const sourceSentences = [...sourceTexts, ...confirmed]
+    .flatMap(t => t.split(/\n+/))
+    .flatMap(splitSentences)
+    .map(text => ({ text, tokens: roughTokens(text) }));
+  const skills = unsupportedKeywords(claims.map(c => c.text), source);
+
+  return claims.map((claim, i) => {
+    const unsupported: UnsupportedValue[] = confirmedKeys.has(claimKey(claim.text)) ? [] : [
+      ...[...claim.text.matchAll(NUMBER)]
+        .filter(([n]) => !sourceNumbers.has(digitsOf(n)))
+        .map(([n]): UnsupportedValue => ({ kind: 'number', value: n.trim() })),
+      ...skills[i].map((value): UnsupportedValue => ({ kind: 'skill', value })),
+    ];
+    return { ...claim, evidence: closestSentence(claim.text, sourceSentences), unsupported };
+  });
+};
+
+/** Deletes one claim's sentence from the markdown, dropping the line if nothing is left. */
+export const removeClaim = (markdown: string, claim: ResumeClaim): string => {
+  const lines = markdownLines(markdown);
+  const line = lines[claim.line];
+  if (line === undefined || !line.includes(claim.raw)) return markdown;
+  if (stripLineMarker(line).replace(claim.raw, '').trim()) {
+    lines[claim.line] = line.replace(claim.raw, '').replace(/(\S)\s{2,}/g, '$1 ').trimEnd();
+  } else {
+    lines.splice(claim.line, 1);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,51 @@
+// --- CSV parsing (RFC 4180) ---
+
+/** Rows of a CSV document. Quoted fields may hold commas, doubled quotes and line breaks. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (quoted) {
+      if (c === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+/**
+ * Rows as records keyed by the header row. The header is the first row that has
+ * `required` as a column, since some exports put a notice above it.
+ */
+export const csvRecords = (text: string, required: string): Record<string, string>[] => {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex(r => r.some(cell => cell.trim() === required));
+  if (headerIndex < 0) return [];
+  const header = rows[headerIndex].map(cell => cell.trim());
+  return rows.slice(headerIndex + 1).map(r =>
+    Object.fromEntries(header.map((name, i) => [name, (r[i] ?? '').trim()])));
+};
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { DictatedNotes, appendSegment, removeSegment, replaceSegment, setNotesText } from './dictation';
+
+const dictate = (notes: DictatedNotes, id: string, text: string) => appendSegment(notes, { id, text, at: 0 });
+
+describe('dictated notes', () => {
+  it('changes the segment itself, not other text with the same words', () => {
+    let notes = dictate(dictate({ text: '', segments: [] }, 'a', 'yes'), 'b', 'yes');
+    notes = setNotesText(notes, `I worked at Acme.\n${notes.text}`);
+    notes = replaceSegment(notes, 'a', 'no');
+    expect(notes.text).toBe('I worked at Acme.\nno yes ');
+    expect(removeSegment(notes, 'b').text).toBe('I worked at Acme.\nno ');
+  });
+
+  it('appends instead of editing when the segment was rewritten by hand', () => {
+    let notes = dictate({ text: '', segments: [] }, 'a', 'I worked at Acme');
+    notes = setNotesText(notes, 'I worked at Initech. I worked at Acme');
+    expect(removeSegment(notes, 'a').text).toBe('I worked at Initech. I worked at Acme');
+    expect(replaceSegment(notes, 'a', 'I led at Acme').text).toBe('I worked at Initech. I worked at Acme I led at Acme ');
+  });
+});
@@ -0,0 +1,101 @@
+// --- Dictation transcript segments ---
+
+export interface DictationSegment {
+  id: string;
+  text: string;
+  // When the phrase was first heard (epoch ms).
+  at: number;
+  // The recorded chunk (WAV), when recording was used and the audio kept or not transcribed.
+  audio?: Blob;
+  // Where the text starts in the notes, or null once it can no longer be found there.
+  offset: number | null;
+}
+
+// The notes together with the dictated segments in them, updated as one.
+export interface DictatedNotes {
+  text: string;
+  segments: DictationSegment[];
+}
+
+/** Elapsed time as m:ss, or h:mm:ss past the hour. */
+export const formatElapsed = (ms: number): string => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const [h, m, s] = [Math.floor(total / 3600), Math.floor(total / 60) % 60, total % 60];
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return h ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+};
+
+// Phrases end with a space; one is added first if typed text ended without it.
+const addToEnd = (notes: string, text: string) => {
+  const gap = notes && !/\s$/.test(notes) ? ' ' : '';
+  return { text: `${notes}${gap}${text} `, offset: notes.length + gap.length };
+};
+
+/** Adds a dictated phrase to the end of the notes, as live dictation always has. */
+export const appendSegment = (notes: DictatedNotes, segment: Omit<DictationSegment, 'offset'>): DictatedNotes => {
+  if (!segment.text) return { text: notes.text, segments: [...notes.segments, { ...segment, offset: null }] };
+  const added = addToEnd(notes.text, segment.text);
+  return { text: added.text, segments: [...notes.segments, { ...segment, offset: added.offset }] };
+};
+
+/**
+ * Swaps a segment's text in the notes for its edited, re-recorded or deleted (empty)
+ * version, at the offset the segment was tracked to. If the segment is no longer there
+ * (the user has rewritten that passage by hand), the new text is appended instead and
+ * nothing else in the notes is touched.
+ */
+export const replaceSegment = (
+  notes: DictatedNotes,
+  id: string,
+  text: string,
+  changes: Partial<Pick<DictationSegment, 'audio'>> = {}
+): DictatedNotes => {
+  const segment = notes.segments.find(s => s.id === id);
+  if (!segment) return notes;
+  const at = segment.offset;
+  if (at === null || !segment.text || notes.text.slice(at, at + segment.text.length) !== segment.text) {
+    const added = text ? addToEnd(notes.text, text) : null;
+    return {
+      text: added ? added.text : notes.text,
+      segments: notes.segments.map(s => (s.id === id ? { ...s, ...changes, text, offset: added ? added.offset : null } : s)),
+    };
+  }
+  // A deleted segment takes the space that followed it along.
+  const end = at + segment.text.length + (!text && notes.text[at + segment.text.length] === ' ' ? 1 : 0);
+  const delta = text.length - (end - at);
+  return {
+    text: notes.text.slice(0, at) + text + notes.text.slice(end),
+    segments: notes.segments.map(s => {
+      if (s.id === id) return { ...s, ...changes, text, offset: text ? at : null };
+      return s.offset !== null && s.offset >= end ? { ...s, offset: s.offset + delta } : s;
+    }),
+  };
+};
+
+export const removeSegment = (notes: DictatedNotes, id: string): DictatedNotes => {
+  const { text, segments } = replaceSegment(notes, id, '');
+  return { text, segments: segments.filter(s => s.id !== id) };
+};
+
+/**
+ * Sets notes text changed by hand or by an import. The changed span is the part between
+ * the unchanged start and end; segments after it move with it, and segments inside it
+ * are no longer tracked.
+ */
+export const setNotesText = (notes: DictatedNotes, text: string): DictatedNotes => {
+  if (text === notes.text) return notes;
+  const before = notes.text;
+  let start = 0;
+  while (start < before.length && start < text.length && before[start] === text[start]) start++;
+  let tail = 0;
+  while (tail < before.length - start && tail < text.length - start && before[before.length - 1 - tail] === text[text.length - 1 - tail]) tail++;
+  const end = before.length - tail;
+  const delta = text.length - before.length;
+  return {
+    text,
+    segments: notes.segments.map(s => {
+      if (s.offset === null || s.offset + s.text.length <= start) return s;
+      return { ...s, offset: s.offset >= end ? s.offset + delta : null };
+    }),
+  };
+};
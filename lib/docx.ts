@@ -0,0 +1,31 @@
+import { readZip } from './zip';
+import { decodeEntities } from './html';
+
+// --- Word (.docx) to plain text ---
+
+// Runs of text, tabs and line breaks inside one paragraph, in document order.
+const RUN_CONTENT = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:(?:br|cr)\b[^>]*\/>/g;
+
+const paragraphText = (xml: string): string =>
+  [...xml.matchAll(RUN_CONTENT)]
+    .map(([token, text]) => (text !== undefined ? decodeEntities(text) : token.startsWith('<w:tab') ? '\t' : '\n'))
+    .join('');
+
+/**
+ * Text of the main document part, one line per paragraph. Numbered and bulleted
+ * paragraphs keep a "- " prefix so lists read the same as pasted notes.
+ */
+export const docxToText = async (bytes: Uint8Array): Promise<string> => {
+  const parts = await readZip(bytes, name => name === 'word/document.xml');
+  const document = parts.get('word/document.xml');
+  if (!document) throw new Error('This file is not a Word document.');
+  const xml = new TextDecoder().decode(document);
+  return [...xml.matchAll(/<w:p[\s>][\s\S]*?<\/w:p>/g)]
+    .map(([paragraph]) => {
+      const text = paragraphText(paragraph).replace(/[ \t\u00a0]+/g, ' ').trim();
+      return text && paragraph.includes('<w:numPr>') ? `- ${text}` : text;
+    })
+    .filter((line, i, lines) => line || (i > 0 && lines[i - 1]))
+    .join('\n')
+    .trim();
+};
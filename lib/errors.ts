@@ -0,0 +1,61 @@
+import { Language } from '../types';
+
+// --- Typed error reporting shared by the server and the React app ---
+
+export type ErrorCode =
+  | 'bad_request'
+  | 'not_configured'
+  | 'rate_limited'
+  | 'quota'
+  | 'network'
+  | 'upstream'
+  | 'invalid_response'
+  | 'fetch_failed'
+  | 'export_failed';
+
+// Codes worth retrying automatically with backoff.
+export const RETRYABLE_CODES: ErrorCode[] = ['rate_limited', 'quota', 'network', 'upstream'];
+
+const ERROR_TEXT: Record<ErrorCode, Record<Language, { title: string; hint: string }>> = {
+  bad_request: {
+    en: { title: 'The request was incomplete', hint: 'Check that the previous steps are filled in, then try again.' },
+    zh: { title: '请求内容不完整', hint: '请确认前面的步骤已填写完整后重试。' },
+  },
+  not_configured: {
+    en: { title: 'Model provider not configured', hint: 'Pick another provider in Models, or set its credentials on the server.' },
+    zh: { title: '模型服务未配置', hint: '请在「模型」中切换服务，或在服务器上配置相应密钥。' },
+  },
+  rate_limited: {
+    en: { title: 'Too many requests', hint: 'We retried automatically but the limit is still in effect. Wait a minute and try again.' },
+    zh: { title: '请求过于频繁', hint: '已自动重试但仍被限流，请稍等一分钟后再试。' },
+  },
+  quota: {
+    en: { title: 'Model quota exhausted', hint: 'The API key has run out of quota. Try later or switch provider.' },
+    zh: { title: '模型额度已用完', hint: '当前 API Key 额度不足，请稍后重试或切换模型服务。' },
+  },
+  network: {
+    en: { title: 'Could not reach the model', hint: 'The network or the model server is unavailable. Check your connection and retry.' },
+    zh: { title: '无法连接到模型', hint: '网络或模型服务暂不可用，请检查网络后重试。' },
+  },
+  upstream: {
+    en: { title: 'The model service returned an error', hint: 'This is usually temporary. Retry in a moment.' },
+    zh: { title: '模型服务返回错误', hint: '通常是暂时性问题，请稍后重试。' },
+  },
+  invalid_response: {
+    en: { title: 'The AI response was malformed', hint: 'The model returned data we could not use, even after asking it to fix it. Retry or try another model.' },
+    zh: { title: 'AI 返回的数据格式有误', hint: '模型返回的数据无法使用，自动修复也未成功。请重试或更换模型。' },
+  },
+  fetch_failed: {
+    en: { title: 'Could not load the job page', hint: 'The site may be down or block automated access. Save the page as HTML or PDF and import the file instead.' },
+    zh: { title: '无法读取职位页面', hint: '网站可能无法访问或禁止自动抓取。请将页面另存为 HTML 或 PDF 后导入文件。' },
+  },
+  export_failed: {
+    en: { title: 'Export failed', hint: 'The document could not be built or saved. For a Chinese PDF, the font is loaded from this app the first time; if the app was unreachable, retry once it is back. Otherwise check that the browser allows downloads, or try another format.' },
+    zh: { title: '导出失败', hint: '无法生成或保存文档。中文 PDF 首次导出时会从本应用加载字体，若当时应用无法访问，请恢复后重试；否则请检查浏览器是否允许下载，或换一种格式。' },
+  },
+};
+
+export const describeError = (code: ErrorCode, lang: Language) => ERROR_TEXT[code][lang];
+
+export const isErrorCode = (value: unknown): value is ErrorCode =>
+  typeof value === 'string' && value in ERROR_TEXT;
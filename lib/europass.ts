@@ -0,0 +1,184 @@
+import { StructuredResume } from '../types';
+import { EMAIL, ResumeDate, StructuredExport, UnmappedField, parseResumeDate, toUrl } from './structuredResume';
+
+// --- Europass CV XML (SkillsPassport, XSD V3.3) ---
+
+const NAMESPACE = 'http://europass.cedefop.europa.eu/Europass';
+const CEFR = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+const NATIVE = /native|mother tongue|母语/i;
+const HEADLINE_TYPES = ['position', 'preferred_job', 'job_applied_for', 'studies_applied_for', 'personal_statement'];
+
+interface XmlNode {
+  name: string;
+  attrs?: Record<string, string>;
+  text?: string;
+  children?: XmlNode[];
+}
+
+// Elements without content are dropped, so optional parts can be written unconditionally.
+const leaf = (name: string, text: string, attrs?: Record<string, string>): XmlNode | null =>
+  text.trim() ? { name, text: text.trim(), attrs } : null;
+
+const node = (name: string, children: (XmlNode | null)[], attrs?: Record<string, string>): XmlNode | null => {
+  const kept = children.filter((c): c is XmlNode => c !== null);
+  return kept.length || attrs ? { name, children: kept, attrs } : null;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const serialize = (n: XmlNode, indent = ''): string => {
+  const attrs = Object.entries(n.attrs ?? {}).map(([k, v]) => ` ${k}="${escapeXml(v)}"`).join('');
+  if (n.text !== undefined) return `${indent}<${n.name}${attrs}>${escapeXml(n.text)}</${n.name}>`;
+  if (!n.children?.length) return `${indent}<${n.name}${attrs}/>`;
+  return [`${indent}<${n.name}${attrs}>`, ...n.children.map(c => serialize(c, `${indent}  `)), `${indent}</${n.name}>`].join('\n');
+};
+
+// Europass descriptions are rich text: HTML stored as escaped element content.
+const richText = (lines: string[], lead = ''): string => {
+  const escape = (t: string) => t.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const items = lines.filter(l => l.trim());
+  return [
+    lead.trim() ? `<p>${escape(lead.trim())}</p>` : '',
+    items.length ? `<ul>${items.map(l => `<li>${escape(l.trim())}</li>`).join('')}</ul>` : '',
+  ].join('');
+};
+
+const dateAttrs = (date: ResumeDate): Record<string, string> => ({
+  year: String(date.year),
+  ...(date.month ? { month: `--${String(date.month).padStart(2, '0')}` } : {}),
+  ...(date.day ? { day: `---${String(date.day).padStart(2, '0')}` } : {}),
+});
+
+const achievement = (code: string, label: string, description: string) =>
+  node('Achievement', [node('Title', [leaf('Code', code), leaf('Label', label)]), leaf('Description', description)]);
+
+/** Rules of the Europass XSD the writer could break; the rest are guaranteed by how the tree is built. */
+const checkEuropass = (root: XmlNode): string[] => {
+  const issues: string[] = [];
+  if (root.name !== 'SkillsPassport' || root.attrs?.xmlns !== NAMESPACE) issues.push('The root element must be a Europass SkillsPassport.');
+  const walk = (n: XmlNode, path: string) => {
+    const here = `${path}/${n.name}`;
+    if (n.name === 'DocumentType' && n.text !== 'ECV') issues.push(`${here} must be ECV`);
+    if (n.name === 'From' || n.name === 'To') {
+      if (!/^\d{4}$/.test(n.attrs?.year ?? '')) issues.push(`${here} needs a four-digit year`);
+      if (n.attrs?.month !== undefined && !/^--(0[1-9]|1[0-2])$/.test(n.attrs.month)) issues.push(`${here} has an invalid month`);
+    }
+    if (['Listening', 'Reading', 'SpokenInteraction', 'SpokenProduction', 'Writing'].includes(n.name) && !CEFR.includes(n.text ?? '')) {
+      issues.push(`${here} must be a CEFR level`);
+    }
+    if (path.endsWith('/Email') && n.name === 'Contact' && !EMAIL.test(n.text ?? '')) issues.push(`${here} is not an email address`);
+    if (path.endsWith('/Headline/Type') && n.name === 'Code' && !HEADLINE_TYPES.includes(n.text ?? '')) issues.push(`${here} is not a headline type`);
+    n.children?.forEach(c => walk(c, here));
+  };
+  walk(root, '');
+  return issues;
+};
+
+/**
+ * Writes the split resume as a Europass CV. Europass has no summary next to a headline,
+ * and language levels must be CEFR grades; values it cannot hold are reported.
+ */
+export const toEuropassXml = (resume: StructuredResume): StructuredExport => {
+  const unmapped: UnmappedField[] = [];
+  const period = (start: string, end: string, current: boolean, field: string) => {
+    const from = start.trim() ? parseResumeDate(start) : null;
+    const to = end.trim() && !current ? parseResumeDate(end) : null;
+    if (start.trim() && !from) unmapped.push({ field: `${field}.startDate`, value: start });
+    if (end.trim() && !current && !to) unmapped.push({ field: `${field}.endDate`, value: end });
+    return node('Period', [
+      from ? node('From', [], dateAttrs(from)) : null,
+      to ? node('To', [], dateAttrs(to)) : null,
+      current ? leaf('Current', 'true') : null,
+    ]);
+  };
+
+  const [firstName, surname] = resume.name.includes(' ')
+    ? [resume.name.slice(0, resume.name.lastIndexOf(' ')), resume.name.slice(resume.name.lastIndexOf(' ') + 1)]
+    : ['', resume.name];
+  const urls = resume.links.flatMap(link => {
+    const url = toUrl(link);
+    if (!url) unmapped.push({ field: 'links', value: link });
+    return url ? [url] : [];
+  });
+  if (resume.email && !EMAIL.test(resume.email)) unmapped.push({ field: 'email', value: resume.email });
+
+  const headlineOf = (code: string, label: string, text: string) =>
+    text.trim() ? node('Headline', [node('Type', [leaf('Code', code), leaf('Label', label)]), node('Description', [leaf('Label', text)])]) : null;
+  const headline = resume.headline
+    ? headlineOf('position', 'Position', resume.headline)
+    : headlineOf('personal_statement', 'Personal statement', resume.summary);
+  if (resume.headline && resume.summary) unmapped.push({ field: 'summary', value: resume.summary });
+
+  const natives = resume.languages.filter(l => NATIVE.test(l.level));
+  const foreign = resume.languages.filter(l => !NATIVE.test(l.level));
+  foreign.filter(l => l.level && !CEFR.includes(l.level.trim().toUpperCase()))
+    .forEach(l => unmapped.push({ field: `languages: ${l.language}`, value: l.level }));
+
+  const root = node('SkillsPassport', [
+    node('DocumentInfo', [
+      leaf('DocumentType', 'ECV'),
+      leaf('CreationDate', new Date().toISOString()),
+      leaf('XSDVersion', 'V3.3'),
+      leaf('Generator', "Don't Start From JD"),
+      leaf('EuropassLogo', 'false'),
+    ]),
+    node('LearnerInfo', [
+      node('Identification', [
+        node('PersonName', [leaf('FirstName', firstName), leaf('Surname', surname)]),
+        node('ContactInfo', [
+          node('Address', [node('Contact', [leaf('AddressLine', resume.location)])]),
+          EMAIL.test(resume.email) ? node('Email', [leaf('Contact', resume.email)]) : null,
+          node('TelephoneList', [node('Telephone', [leaf('Contact', resume.phone)])]),
+          node('WebsiteList', urls.map(url => node('Website', [leaf('Contact', url), node('Use', [leaf('Code', 'personal')])]))),
+        ]),
+      ]),
+      headline,
+      node('WorkExperienceList', resume.work.map((w, i) => node('WorkExperience', [
+        period(w.startDate, w.endDate, w.current, `work[${i}]`),
+        node('Position', [leaf('Label', w.position)]),
+        leaf('Activities', richText(w.highlights)),
+        node('Employer', [
+          leaf('Name', w.employer),
+          node('ContactInfo', [node('Address', [node('Contact', [leaf('AddressLine', w.location)])])]),
+        ]),
+      ]))),
+      node('EducationList', resume.education.map((e, i) => node('Education', [
+        period(e.startDate, e.endDate, false, `education[${i}]`),
+        leaf('Title', [e.qualification, e.field].filter(Boolean).join(' ')),
+        leaf('Skills', richText(e.details)),
+        node('Organisation', [leaf('Name', e.institution)]),
+        node('Field', [leaf('Label', e.field)]),
+      ]))),
+      node('Skills', [
+        node('Linguistic', [
+          node('MotherTongueList', natives.map(l => node('MotherTongue', [node('Description', [leaf('Label', l.language)])]))),
+          node('ForeignLanguageList', foreign.map(l => {
+            const level = l.level.trim().toUpperCase();
+            return node('ForeignLanguage', [
+              node('Description', [leaf('Label', l.language)]),
+              CEFR.includes(level)
+                ? node('ProficiencyLevel', ['Listening', 'Reading', 'SpokenInteraction', 'SpokenProduction', 'Writing'].map(skill => leaf(skill, level)))
+                : null,
+            ]);
+          })),
+        ]),
+        node('JobRelated', [leaf('Description', richText(resume.skills))]),
+      ]),
+      node('AchievementList', [
+        resume.certifications.length
+          ? achievement('', 'Certifications', richText(resume.certifications.map(c => [c.name, c.issuer, c.date].filter(Boolean).join(', '))))
+          : null,
+        ...resume.projects.map(p => achievement('projects', p.name, richText(p.highlights, p.description))),
+        resume.awards.length
+          ? achievement('honors_awards', 'Honours and awards', richText(resume.awards.map(a => [a.title, a.awarder, a.date].filter(Boolean).join(', '))))
+          : null,
+        ...resume.other.map(o => achievement('', o.section, richText(o.lines))),
+      ]),
+    ]),
+  ], { xmlns: NAMESPACE, 'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance', locale: 'en' })!;
+
+  const issues = checkEuropass(root);
+  if (issues.length) throw new Error(`The Europass export does not match the schema: ${issues.slice(0, 5).join('; ')}`);
+  return { content: `<?xml version="1.0" encoding="UTF-8"?>\n${serialize(root)}\n`, unmapped };
+};
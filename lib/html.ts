@@ -0,0 +1,83 @@
+// --- HTML to plain text ---
+// Used for saved job pages in the browser and for pages fetched by the server, so it
+// relies on string handling only (no DOMParser).
+
+// Elements whose content is never part of the posting.
+const DROPPED = ['script', 'style', 'noscript', 'template', 'svg', 'nav', 'header', 'footer', 'aside', 'form', 'iframe'];
+const BLOCK = /<\/?(p|div|section|article|main|li|ul|ol|h[1-6]|br|tr|table|dd|dt|dl|blockquote|pre)\b[^>]*>/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', ndash: '–', mdash: '—', hellip: '…',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•', middot: '·', copy: '©', reg: '®', trade: '™',
+};
+
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) && n > 0 && n <= 0x10ffff ? String.fromCodePoint(n) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+// Tags become line breaks or nothing; list items keep a bullet so requirements stay one per line.
+const stripTags = (html: string) =>
+  decodeEntities(
+    html
+      .replace(/<\/li>/gi, '')
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(BLOCK, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .filter((line, i, lines) => line || (i > 0 && lines[i - 1]))
+    .join('\n')
+    .trim();
+
+type JsonLdNode = Record<string, unknown>;
+
+const isNode = (value: unknown): value is JsonLdNode => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// JSON-LD allows a single node or an array wherever a value is expected.
+const nodes = (value: unknown): JsonLdNode[] => [value].flat().filter(isNode);
+
+const str = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// Text of a schema.org JobPosting, which most job boards embed as JSON-LD.
+const jobPostingText = (html: string): string => {
+  const blocks = [...html.matchAll(/<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)];
+  for (const [, json] of blocks) {
+    let data: unknown;
+    try {
+      data = JSON.parse(json.trim());
+    } catch {
+      continue;
+    }
+    const candidates = [...nodes(data), ...(isNode(data) ? nodes(data['@graph']) : [])];
+    const posting = candidates.find(n => [n['@type']].flat().includes('JobPosting'));
+    if (!posting || typeof posting.description !== 'string') continue;
+    const place = nodes(posting.jobLocation).map(l => (isNode(l.address) ? str(l.address.addressLocality) : '')).filter(Boolean).join(', ');
+    const company = nodes(posting.hiringOrganization)[0];
+    return [
+      str(posting.title),
+      company ? str(company.name) : '',
+      place,
+      // The description is itself HTML, often entity-encoded once more.
+      stripTags(decodeEntities(posting.description)),
+    ].filter(v => v.trim()).join('\n');
+  }
+  return '';
+};
+
+/** Readable text of an HTML page: the embedded JobPosting if there is one, else the page body without chrome. */
+export const htmlToText = (html: string): string => {
+  const posting = jobPostingText(html);
+  if (posting) return posting;
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  const cleaned = DROPPED.reduce(
+    (text, tag) => text.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, 'gi'), '\n'),
+    body.replace(/<!--[\s\S]*?-->/g, '')
+  );
+  return stripTags(cleaned);
+};
@@ -0,0 +1,47 @@
+import { Language, StructuredJd } from '../types';
+
+// --- Structured job descriptions ---
+
+export const emptyJd = (): StructuredJd => ({
+  title: '',
+  company: '',
+  location: '',
+  seniority: '',
+  mustHaves: [],
+  niceToHaves: [],
+  responsibilities: [],
+});
+
+const LABELS: Record<Language, Record<Exclude<keyof StructuredJd, 'title'>, string>> = {
+  en: {
+    company: 'Company',
+    location: 'Location',
+    seniority: 'Seniority',
+    mustHaves: 'Must-haves',
+    niceToHaves: 'Nice-to-haves',
+    responsibilities: 'Responsibilities',
+  },
+  zh: {
+    company: '公司',
+    location: '地点',
+    seniority: '职级',
+    mustHaves: '必备要求',
+    niceToHaves: '加分项',
+    responsibilities: '岗位职责',
+  },
+};
+
+/** The JD text every later step reads, written from the reviewed structure. Empty parts are left out. */
+export const jdToText = (jd: StructuredJd, lang: Language): string => {
+  const labels = LABELS[lang];
+  const separator = lang === 'zh' ? '：' : ': ';
+  const listSeparator = lang === 'zh' ? '：' : ':';
+  const facts = (['company', 'location', 'seniority'] as const)
+    .filter(k => jd[k].trim())
+    .map(k => `${labels[k]}${separator}${jd[k].trim()}`);
+  const lists = (['responsibilities', 'mustHaves', 'niceToHaves'] as const)
+    .map(k => ({ label: labels[k], items: jd[k].filter(item => item.trim()) }))
+    .filter(list => list.items.length)
+    .map(list => [`${list.label}${listSeparator}`, ...list.items.map(item => `- ${item.trim()}`)].join('\n'));
+  return [[jd.title.trim(), ...facts].filter(Boolean).join('\n'), ...lists].filter(Boolean).join('\n\n');
+};
@@ -0,0 +1,224 @@
+import { ExperienceDocument, Language, StructuredResume } from '../types';
+import { emptyProfile, formatDuration } from './profile';
+import { JSON_RESUME_SCHEMA } from './schemas';
+import { checkSchema } from './validation';
+import { EMAIL, StructuredExport, UnmappedField, parseResumeDate, toUrl } from './structuredResume';
+
+// --- JSON Resume (https://jsonresume.org/schema) ---
+
+export interface JsonResumeWork {
+  name?: string;
+  position?: string;
+  location?: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+}
+
+export interface JsonResumeEducation {
+  institution?: string;
+  area?: string;
+  studyType?: string;
+  startDate?: string;
+  endDate?: string;
+  score?: string;
+  courses?: string[];
+}
+
+export interface JsonResumeSkill {
+  name?: string;
+  level?: string;
+  keywords?: string[];
+}
+
+export interface JsonResumeCertificate {
+  name?: string;
+  date?: string;
+  issuer?: string;
+  url?: string;
+}
+
+export interface JsonResumeProject {
+  name?: string;
+  description?: string;
+  highlights?: string[];
+}
+
+export interface JsonResumeAward {
+  title?: string;
+  awarder?: string;
+  date?: string;
+}
+
+// The parts of the schema the app reads and writes.
+export interface JsonResume {
+  $schema?: string;
+  basics?: {
+    name?: string;
+    label?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    location?: { address?: string; city?: string; region?: string; countryCode?: string };
+    profiles?: { network?: string; username?: string; url?: string }[];
+  };
+  work?: JsonResumeWork[];
+  education?: JsonResumeEducation[];
+  skills?: JsonResumeSkill[];
+  certificates?: JsonResumeCertificate[];
+  languages?: { language?: string; fluency?: string }[];
+  projects?: JsonResumeProject[];
+  awards?: JsonResumeAward[];
+  meta?: { version?: string; lastModified?: string };
+}
+
+const str = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const list = <T>(value: unknown): T[] => (Array.isArray(value) ? value.filter(v => v && typeof v === 'object') : []);
+
+const strings = (value: unknown): string[] => (Array.isArray(value) ? value.map(str).filter(Boolean) : []);
+
+const lines = (text: unknown): string[] => str(text).split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+
+/**
+ * Maps a JSON Resume document to an Experience Document. Positions, institutions and
+ * dates are copied as written; anything the profile has no field for is left out.
+ */
+export const jsonResumeToProfile = (raw: unknown, source: string, lang: Language): ExperienceDocument => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('A JSON Resume file must hold a JSON object.');
+  const data = raw as JsonResume;
+  if (!data.basics && !Array.isArray(data.work) && !Array.isArray(data.education)) {
+    throw new Error('This JSON file is not a JSON Resume: it has no basics, work or education.');
+  }
+  const basics = data.basics && typeof data.basics === 'object' ? data.basics : {};
+  const location = basics.location && typeof basics.location === 'object' ? basics.location : {};
+  const doc = emptyProfile();
+
+  doc.contact = {
+    name: str(basics.name),
+    email: str(basics.email),
+    phone: str(basics.phone),
+    location: [location.city, location.region, location.countryCode].map(str).filter(Boolean).join(', '),
+    links: [str(basics.url), ...list<{ url?: string }>(basics.profiles).map(p => str(p.url))].filter(Boolean),
+  };
+  doc.summary = str(basics.summary) || str(basics.label);
+  doc.experiences = list<JsonResumeWork>(data.work).map(w => ({
+    role: str(w.position),
+    company: str(w.name),
+    duration: formatDuration(str(w.startDate), str(w.endDate), lang),
+    details: [...lines(w.summary), ...strings(w.highlights)],
+    sources: [source],
+  }));
+  doc.education = list<JsonResumeEducation>(data.education).map(e => ({
+    school: str(e.institution),
+    degree: [str(e.studyType), str(e.area)].filter(Boolean).join(' '),
+    duration: formatDuration(str(e.startDate), str(e.endDate), lang),
+    details: [...(str(e.score) ? [`GPA: ${str(e.score)}`] : []), ...strings(e.courses)],
+    sources: [source],
+  }));
+  doc.skills = list<JsonResumeSkill>(data.skills).flatMap(s => [str(s.name), ...strings(s.keywords)]).filter(Boolean);
+  doc.certifications = list<JsonResumeCertificate>(data.certificates)
+    .map(c => [str(c.name), str(c.issuer), str(c.date)].filter(Boolean).join(', '))
+    .filter(Boolean);
+  return doc;
+};
+
+// --- Export ---
+
+export const JSON_RESUME_SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+// Empty strings, lists and objects are left out; the schema's date and email formats reject "".
+const compact = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    const items = value.map(compact).filter(v => v !== undefined);
+    return items.length ? items : undefined;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).map(([k, v]) => [k, compact(v)] as const).filter(([, v]) => v !== undefined);
+    return entries.length ? Object.fromEntries(entries) : undefined;
+  }
+  return value === '' ? undefined : value;
+};
+
+type DateField = [path: string, value: string | undefined];
+
+/** Format problems the JSON Resume schema would report, beyond the shape `checkSchema` covers. */
+export const checkJsonResume = (document: JsonResume): string[] => {
+  const issues = checkSchema(document, JSON_RESUME_SCHEMA);
+  const dates: DateField[] = [
+    ...(document.work ?? []).flatMap((w, i): DateField[] => [[`$.work[${i}].startDate`, w.startDate], [`$.work[${i}].endDate`, w.endDate]]),
+    ...(document.education ?? []).flatMap((e, i): DateField[] => [[`$.education[${i}].startDate`, e.startDate], [`$.education[${i}].endDate`, e.endDate]]),
+    ...(document.certificates ?? []).map((c, i): DateField => [`$.certificates[${i}].date`, c.date]),
+    ...(document.awards ?? []).map((a, i): DateField => [`$.awards[${i}].date`, a.date]),
+  ];
+  const urls = [document.basics?.url, ...(document.basics?.profiles ?? []).map(p => p.url)];
+  return [
+    ...issues,
+    ...dates.filter(([, d]) => d !== undefined && !parseResumeDate(d)).map(([path, d]) => `${path} "${d}" is not an ISO 8601 date`),
+    ...(document.basics?.email !== undefined && !EMAIL.test(document.basics.email) ? [`$.basics.email "${document.basics.email}" is not an email address`] : []),
+    ...urls.filter(u => u !== undefined && !toUrl(u)).map(u => `"${u}" is not a URL`),
+  ];
+};
+
+/**
+ * Writes the split resume as JSON Resume. Dates, emails and links the schema would reject
+ * are left out and reported, as are sections it has no place for.
+ */
+export const toJsonResume = (resume: StructuredResume): StructuredExport => {
+  const unmapped: UnmappedField[] = [];
+  const date = (value: string, field: string) => {
+    if (!value.trim() || parseResumeDate(value)) return value.trim();
+    unmapped.push({ field, value });
+    return '';
+  };
+  const urls = resume.links.flatMap(link => {
+    const url = toUrl(link);
+    if (!url) unmapped.push({ field: 'links', value: link });
+    return url ? [url] : [];
+  });
+  if (resume.email && !EMAIL.test(resume.email)) unmapped.push({ field: 'email', value: resume.email });
+  resume.other.forEach(o => unmapped.push({ field: `other: ${o.section}`, value: o.lines.join(' / ') }));
+
+  const document = compact({
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: {
+      name: resume.name,
+      label: resume.headline,
+      email: EMAIL.test(resume.email) ? resume.email : '',
+      phone: resume.phone,
+      url: urls[0] ?? '',
+      summary: resume.summary,
+      location: { address: resume.location },
+      profiles: urls.slice(1).map(url => ({ network: new URL(url).hostname.replace(/^www\./, ''), url })),
+    },
+    work: resume.work.map((w, i) => ({
+      name: w.employer,
+      position: w.position,
+      location: w.location,
+      startDate: date(w.startDate, `work[${i}].startDate`),
+      endDate: w.current ? '' : date(w.endDate, `work[${i}].endDate`),
+      highlights: w.highlights,
+    })),
+    education: resume.education.map((e, i) => ({
+      institution: e.institution,
+      area: e.field,
+      studyType: e.qualification,
+      startDate: date(e.startDate, `education[${i}].startDate`),
+      endDate: date(e.endDate, `education[${i}].endDate`),
+      courses: e.details,
+    })),
+    skills: resume.skills.map(name => ({ name })),
+    languages: resume.languages.map(l => ({ language: l.language, fluency: l.level })),
+    certificates: resume.certifications.map((c, i) => ({ name: c.name, issuer: c.issuer, date: date(c.date, `certifications[${i}].date`) })),
+    projects: resume.projects.map(p => ({ name: p.name, description: p.description, highlights: p.highlights })),
+    awards: resume.awards.map((a, i) => ({ title: a.title, awarder: a.awarder, date: date(a.date, `awards[${i}].date`) })),
+    meta: { version: 'v1.0.0', lastModified: new Date().toISOString() },
+  }) as JsonResume;
+
+  const issues = checkJsonResume(document);
+  if (issues.length) throw new Error(`The JSON Resume export does not match the schema: ${issues.slice(0, 5).join('; ')}`);
+  return { content: JSON.stringify(document, null, 2), unmapped };
+};
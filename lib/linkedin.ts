@@ -0,0 +1,63 @@
+import { ExperienceDocument, Language } from '../types';
+import { csvRecords } from './csv';
+import { emptyProfile, formatDuration } from './profile';
+import { readZip } from './zip';
+
+// --- LinkedIn "Download your data" export ---
+
+export const LINKEDIN_SOURCE = 'LinkedIn';
+
+// Free-text fields become one detail per line, without the bullets people type.
+const toLines = (...values: string[]): string[] =>
+  values.flatMap(v => v.split(/\r?\n/)).map(line => line.replace(/^[\s•\-*·]+/, '').trim()).filter(Boolean);
+
+/**
+ * Maps the CSV files of a LinkedIn data export to an Experience Document, keeping
+ * titles and dates exactly as LinkedIn wrote them. Files the export omits are skipped.
+ */
+export const linkedInToProfile = async (bytes: Uint8Array, lang: Language): Promise<ExperienceDocument> => {
+  const files = await readZip(bytes, name => name.toLowerCase().endsWith('.csv'));
+  const byName = new Map([...files].map(([path, data]) => [path.split('/').pop()!.toLowerCase(), new TextDecoder().decode(data)]));
+  const read = (name: string, required: string) => csvRecords(byName.get(name.toLowerCase()) ?? '', required);
+
+  const positions = read('Positions.csv', 'Company Name');
+  const education = read('Education.csv', 'School Name');
+  const skills = read('Skills.csv', 'Name');
+  const profile = read('Profile.csv', 'First Name')[0];
+  if (!positions.length && !education.length && !skills.length && !profile) {
+    throw new Error('This zip is not a LinkedIn data export: it has no Positions, Education, Skills or Profile file.');
+  }
+  const emails = read('Email Addresses.csv', 'Email Address');
+  const phones = read('PhoneNumbers.csv', 'Number');
+  const doc = emptyProfile();
+
+  if (profile) {
+    doc.contact.name = [profile['First Name'], profile['Last Name']].filter(Boolean).join(' ');
+    doc.contact.location = profile['Geo Location'] ?? '';
+    // Websites look like "[PORTFOLIO:https://...],[BLOG:https://...]".
+    doc.contact.links = (profile['Websites'] ?? '').match(/https?:\/\/[^\s,\]]+/g) ?? [];
+    doc.summary = profile['Summary'] || profile['Headline'] || '';
+  }
+  doc.contact.email = (emails.find(e => e['Primary'] === 'Yes') ?? emails[0])?.['Email Address'] ?? '';
+  doc.contact.phone = phones[0]?.['Number'] ?? '';
+
+  doc.experiences = positions.map(p => ({
+    role: p['Title'] ?? '',
+    company: p['Company Name'] ?? '',
+    duration: formatDuration(p['Started On'] ?? '', p['Finished On'] ?? '', lang),
+    details: toLines(p['Description'] ?? ''),
+    sources: [LINKEDIN_SOURCE],
+  }));
+  doc.education = education.map(e => ({
+    school: e['School Name'] ?? '',
+    degree: e['Degree Name'] ?? '',
+    duration: formatDuration(e['Start Date'] ?? '', e['End Date'] ?? '', lang),
+    details: toLines(e['Notes'] ?? '', e['Activities'] ?? ''),
+    sources: [LINKEDIN_SOURCE],
+  }));
+  doc.skills = skills.map(s => s['Name']).filter(Boolean);
+  doc.certifications = read('Certifications.csv', 'Name')
+    .map(c => [c['Name'], c['Authority'], c['Started On']].filter(Boolean).join(', '))
+    .filter(Boolean);
+  return doc;
+};
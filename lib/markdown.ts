@@ -0,0 +1,165 @@
+// --- Minimal Markdown model for resume rendering ---
+// Covers the subset the prompts ask for: headings, paragraphs, bullet and
+// numbered lists, horizontal rules, bold, italic, inline code and links.
+
+export interface MdRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+// Source lines [start, end) in `markdownLines(markdown)`, so a rendered block can be
+// traced back to the text it came from.
+export interface MdSpan {
+  start: number;
+  end: number;
+}
+
+export type MdBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; runs: MdRun[]; span: MdSpan }
+  | { type: 'paragraph'; runs: MdRun[]; span: MdSpan }
+  | { type: 'list'; ordered: boolean; items: MdRun[][]; spans: MdSpan[] }
+  | { type: 'rule' };
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const BULLET = /^\s*[-*+•]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+// Matches one inline token: **bold**, __bold__, *italic*, _italic_, `code` or [text](url).
+const INLINE = /(\*\*|__)(.+?)\1|(\*|_)(?!\s)(.+?)\3(?![A-Za-z0-9])|`([^`]+)`|\[([^\]]+)\]\(([^)]*)\)/g;
+
+// Models often wrap the whole answer in a ```markdown fence.
+const stripFence = (markdown: string) =>
+  markdown.trim().replace(/^```[a-z]*\s*\n/i, '').replace(/\n```\s*$/, '');
+
+export const markdownLines = (markdown: string): string[] => stripFence(markdown).split(/\r?\n/);
+
+// Where each of the markdownLines sits in the original text, so one line can be patched in place.
+export const markdownLineStarts = (markdown: string): number[] => {
+  const body = stripFence(markdown);
+  const start = markdown.indexOf(body);
+  return [start, ...[...body.matchAll(/\r?\n/g)].map(m => start + m.index! + m[0].length)];
+};
+
+// The text of a line without its heading, bullet or number marker.
+export const stripLineMarker = (line: string): string => {
+  const marked = HEADING.exec(line) ?? BULLET.exec(line) ?? NUMBERED.exec(line);
+  return marked ? marked[marked.length - 1] : line.trim();
+};
+
+export const parseInline = (text: string, inherited: Omit<MdRun, 'text'> = {}): MdRun[] => {
+  const runs: MdRun[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    if (match.index! > last) runs.push({ ...inherited, text: text.slice(last, match.index) });
+    const [, , boldText, , italicText, code, linkText] = match;
+    if (boldText !== undefined) runs.push(...parseInline(boldText, { ...inherited, bold: true }));
+    else if (italicText !== undefined) runs.push(...parseInline(italicText, { ...inherited, italic: true }));
+    else runs.push({ ...inherited, text: code ?? linkText });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) runs.push({ ...inherited, text: text.slice(last) });
+  return runs.filter(r => r.text);
+};
+
+export const parseMarkdown = (markdown: string): MdBlock[] => {
+  const blocks: MdBlock[] = [];
+  let paragraph: { lines: string[]; start: number } | null = null;
+  let list: { ordered: boolean; items: { text: string; start: number; end: number }[] } | null = null;
+
+  const flush = () => {
+    if (paragraph) {
+      const span = { start: paragraph.start, end: paragraph.start + paragraph.lines.length };
+      blocks.push({ type: 'paragraph', runs: parseInline(paragraph.lines.join(' ')), span });
+    }
+    if (list) {
+      blocks.push({
+        type: 'list',
+        ordered: list.ordered,
+        items: list.items.map(i => parseInline(i.text)),
+        spans: list.items.map(({ start, end }) => ({ start, end }))
+      });
+    }
+    paragraph = null;
+    list = null;
+  };
+
+  markdownLines(markdown).forEach((line, index) => {
+    if (!line.trim()) {
+      flush();
+      return;
+    }
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flush();
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3;
+      blocks.push({ type: 'heading', level, runs: parseInline(heading[2]), span: { start: index, end: index + 1 } });
+      return;
+    }
+    if (RULE.test(line)) {
+      flush();
+      blocks.push({ type: 'rule' });
+      return;
+    }
+    const bullet = BULLET.exec(line);
+    const numbered = bullet ? null : NUMBERED.exec(line);
+    if (bullet || numbered) {
+      const ordered = !!numbered;
+      if (paragraph || (list && list.ordered !== ordered)) flush();
+      if (!list) list = { ordered, items: [] };
+      list.items.push({ text: (bullet || numbered)![1], start: index, end: index + 1 });
+      return;
+    }
+    // A non-marker line right after a list item continues that item.
+    if (list) {
+      const item = list.items[list.items.length - 1];
+      item.text += ' ' + line.trim();
+      item.end = index + 1;
+    } else if (paragraph) {
+      paragraph.lines.push(line.trim());
+    } else {
+      paragraph = { lines: [line.trim()], start: index };
+    }
+  });
+  flush();
+  return blocks;
+};
+
+export const runsToText = (runs: MdRun[]) => runs.map(r => r.text).join('');
+
+// A "## " section, or the header above the first one, as a range of source lines.
+export interface MdSection {
+  heading: string;
+  span: MdSpan;
+}
+
+export const splitSections = (markdown: string): MdSection[] => {
+  const lines = markdownLines(markdown);
+  const sections: MdSection[] = [];
+  let current: MdSection = { heading: '', span: { start: 0, end: 0 } };
+  lines.forEach((line, index) => {
+    const heading = HEADING.exec(line);
+    if (heading && heading[1].length === 2) {
+      if (current.span.end > current.span.start) sections.push(current);
+      current = { heading: heading[2], span: { start: index, end: index + 1 } };
+    } else {
+      // The header section is named after the "# " line, usually the candidate's name.
+      if (heading && heading[1].length === 1 && !current.heading && !sections.length) current.heading = heading[2];
+      current.span.end = index + 1;
+    }
+  });
+  if (current.span.end > current.span.start) sections.push(current);
+  return sections;
+};
+
+export const sectionText = (markdown: string, section: MdSection): string =>
+  markdownLines(markdown).slice(section.span.start, section.span.end).join('\n').trim();
+
+export const replaceSection = (markdown: string, section: MdSection, replacement: string): string => {
+  const lines = markdownLines(markdown);
+  const old = lines.slice(section.span.start, section.span.end);
+  // Keep the blank lines that separated the old section from the next one.
+  const blankAfter = old.length - 1 - old.map(l => !!l.trim()).lastIndexOf(true);
+  lines.splice(section.span.start, old.length, ...replacement.trim().split('\n'), ...new Array<string>(blankAfter).fill(''));
+  return lines.join('\n');
+};
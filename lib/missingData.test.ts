@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { fillMissingData, findMissingData, gapKey } from './missingData';
+
+describe('fillMissingData', () => {
+  it('fills the marker that was answered when two identical markers share a line', () => {
+    const resume = '```markdown\n## Experience\n- Led a team of [MISSING DATA] engineers, cutting costs by [MISSING DATA].\n  - Kept as written  \n```';
+    const gaps = findMissingData(resume);
+    expect(gaps.map(gapKey)).toEqual(['1:0', '1:1']);
+    const patch = fillMissingData(resume, gaps[1], '30%');
+    expect(patch?.line).toBe('Led a team of [MISSING DATA] engineers, cutting costs by 30%.');
+    // Only the answered line changes; the fence and the other lines stay as written.
+    expect(patch?.markdown).toBe(resume.replace('by [MISSING DATA]', 'by 30%'));
+  });
+});
@@ -0,0 +1,79 @@
+import { markdownLineStarts, markdownLines, parseInline, runsToText, stripLineMarker } from './markdown';
+
+// --- [MISSING DATA] placeholders ---
+// The prompts ask the model to mark gaps instead of inventing facts. These helpers
+// find the markers and patch answers into their exact spot, leaving the rest alone.
+
+export interface MissingDataGap {
+  // Position among the markers in the text, used as the id in question requests.
+  index: number;
+  // The marker as written, e.g. "[MISSING DATA: team size]".
+  marker: string;
+  // What the model said is missing, when it said so after a colon.
+  hint: string;
+  // Source line holding the marker, and its position among the markers on that line.
+  line: number;
+  ordinal: number;
+  // That line as plain text, and the role or section above it.
+  context: string;
+  heading: string;
+}
+
+// [MISSING], [MISSING DATA], [MISSING_DATA: team size], and the Chinese forms models produce.
+const MARKER = /\[\s*(?:MISSING(?:[ _-]?DATA)?|缺失(?:数据|信息)?|待补充)\s*(?:[:：]\s*([^\]]*))?\]/gi;
+
+const plain = (line: string) => runsToText(parseInline(stripLineMarker(line))).trim();
+
+export const findMissingData = (markdown: string): MissingDataGap[] => {
+  const gaps: MissingDataGap[] = [];
+  let heading = '';
+  markdownLines(markdown).forEach((line, lineIndex) => {
+    if (/^#{2,}\s/.test(line)) heading = plain(line);
+    [...line.matchAll(MARKER)].forEach((match, ordinal) => {
+      gaps.push({
+        index: gaps.length,
+        marker: match[0],
+        hint: (match[1] ?? '').trim(),
+        line: lineIndex,
+        ordinal,
+        context: plain(line),
+        heading,
+      });
+    });
+  });
+  return gaps;
+};
+
+// Identical markers can share a line, so a gap is known by its line and its place on it.
+export const gapKey = (gap: Pick<MissingDataGap, 'line' | 'ordinal'>) => `${gap.line}:${gap.ordinal}`;
+
+// Where the marker sits in the gap's context line, for highlighting.
+export const markerRange = (gap: MissingDataGap): { start: number; end: number } | null => {
+  const match = [...gap.context.matchAll(MARKER)][gap.ordinal];
+  return match ? { start: match.index!, end: match.index! + match[0].length } : null;
+};
+
+/**
+ * Replaces one marker with `answer`. The gap is looked up again in the current text
+ * by its line, its place on that line and its wording, so edits made since it was found
+ * do not misplace the answer. Only that line changes; the rest of the text is kept
+ * as it was. Returns null when the marker is gone.
+ */
+export const fillMissingData = (
+  markdown: string,
+  gap: MissingDataGap,
+  answer: string
+): { markdown: string; line: string } | null => {
+  const current = findMissingData(markdown);
+  const same = (g: MissingDataGap) => g.ordinal === gap.ordinal && g.marker === gap.marker;
+  const target = current.find(g => same(g) && g.line === gap.line && g.context === gap.context)
+    ?? current.find(g => same(g) && g.context === gap.context)
+    ?? current.find(g => same(g) && g.line === gap.line);
+  if (!target) return null;
+
+  const original = markdownLines(markdown)[target.line];
+  const at = markdownLineStarts(markdown)[target.line];
+  let seen = 0;
+  const filled = original.replace(MARKER, (marker) => (seen++ === target.ordinal ? answer.trim() : marker));
+  return { markdown: markdown.slice(0, at) + filled + markdown.slice(at + original.length), line: plain(filled) };
+};
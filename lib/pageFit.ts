@@ -0,0 +1,40 @@
+import { ResumeTemplate } from './templates';
+
+// --- One-page A4 fit ---
+
+export const A4_HEIGHT_MM = 297;
+// CSS defines 1in as 96px regardless of zoom, so rendered heights convert exactly.
+const PX_PER_MM = 96 / 25.4;
+const PT_TO_MM = 25.4 / 72;
+
+// Below this share of the page the resume reads as thin.
+export const UNDERFILLED_RATIO = 0.8;
+export const MAX_CONDENSE_ATTEMPTS = 3;
+
+export interface PageFit {
+  contentMm: number;
+  availableMm: number;
+  // Positive when the content spills past the bottom margin.
+  overflowMm: number;
+  // contentMm / availableMm.
+  fill: number;
+  // Overflow expressed in body-text lines of the current template, rounded up.
+  overflowLines: number;
+}
+
+export const measureFit = (contentPx: number, template: ResumeTemplate): PageFit => {
+  const contentMm = contentPx / PX_PER_MM;
+  const availableMm = A4_HEIGHT_MM - template.margin * 2;
+  const overflowMm = Math.max(0, contentMm - availableMm);
+  const lineMm = template.bodySize * template.lineHeight * PT_TO_MM;
+  return {
+    contentMm,
+    availableMm,
+    overflowMm,
+    fill: contentMm / availableMm,
+    overflowLines: Math.ceil(overflowMm / lineMm),
+  };
+};
+
+// Half a millimetre of slack absorbs sub-pixel rounding between layouts.
+export const fitsOnePage = (fit: PageFit) => fit.overflowMm <= 0.5;
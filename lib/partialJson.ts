@@ -0,0 +1,119 @@
+// --- Tolerant parser for JSON that is still streaming in ---
+
+interface Cursor {
+  text: string;
+  pos: number;
+}
+
+// Marks a value cut off by the end of input, e.g. a half-written `tru`.
+const INCOMPLETE = Symbol('incomplete');
+
+const skipWhitespace = (c: Cursor) => {
+  while (c.pos < c.text.length && /\s/.test(c.text[c.pos])) c.pos++;
+};
+
+const parseString = (c: Cursor): string => {
+  c.pos++; // opening quote
+  let out = '';
+  while (c.pos < c.text.length) {
+    const ch = c.text[c.pos];
+    if (ch === '"') {
+      c.pos++;
+      return out;
+    }
+    if (ch === '\\') {
+      const next = c.text[c.pos + 1];
+      if (next === undefined) break;
+      if (next === 'u') {
+        const hex = c.text.slice(c.pos + 2, c.pos + 6);
+        if (hex.length < 4) break;
+        out += String.fromCharCode(parseInt(hex, 16));
+        c.pos += 6;
+        continue;
+      }
+      out += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[next] ?? next;
+      c.pos += 2;
+      continue;
+    }
+    out += ch;
+    c.pos++;
+  }
+  c.pos = c.text.length;
+  return out;
+};
+
+const parseLiteral = (c: Cursor): unknown => {
+  const match = /^(true|false|null|-?\d+(\.\d+)?([eE][+-]?\d+)?)/.exec(c.text.slice(c.pos));
+  if (!match) {
+    c.pos = c.text.length;
+    return INCOMPLETE;
+  }
+  c.pos += match[0].length;
+  return JSON.parse(match[0]);
+};
+
+const parseValue = (c: Cursor): unknown => {
+  skipWhitespace(c);
+  if (c.pos >= c.text.length) return INCOMPLETE;
+  const ch = c.text[c.pos];
+  if (ch === '{') return parseObject(c);
+  if (ch === '[') return parseArray(c);
+  if (ch === '"') return parseString(c);
+  return parseLiteral(c);
+};
+
+const parseObject = (c: Cursor): Record<string, unknown> => {
+  c.pos++;
+  const out: Record<string, unknown> = {};
+  while (true) {
+    skipWhitespace(c);
+    if (c.pos >= c.text.length) return out;
+    if (c.text[c.pos] === '}') {
+      c.pos++;
+      return out;
+    }
+    if (c.text[c.pos] === ',') {
+      c.pos++;
+      continue;
+    }
+    if (c.text[c.pos] !== '"') {
+      c.pos = c.text.length;
+      return out;
+    }
+    const key = parseString(c);
+    skipWhitespace(c);
+    if (c.text[c.pos] !== ':') return out;
+    c.pos++;
+    const value = parseValue(c);
+    if (value !== INCOMPLETE) out[key] = value;
+  }
+};
+
+const parseArray = (c: Cursor): unknown[] => {
+  c.pos++;
+  const out: unknown[] = [];
+  while (true) {
+    skipWhitespace(c);
+    if (c.pos >= c.text.length) return out;
+    if (c.text[c.pos] === ']') {
+      c.pos++;
+      return out;
+    }
+    if (c.text[c.pos] === ',') {
+      c.pos++;
+      continue;
+    }
+    const value = parseValue(c);
+    if (value !== INCOMPLETE) out.push(value);
+  }
+};
+
+/**
+ * Parses as much of a possibly truncated JSON document as possible.
+ * Open strings, arrays and objects are closed where the input stops, so
+ * `{"a": ["x", "y` yields `{ a: ['x', 'y'] }`. Returns undefined for empty input.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  const value = parseValue({ text, pos: 0 });
+  return value === INCOMPLETE ? undefined : value;
+};
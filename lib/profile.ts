@@ -0,0 +1,157 @@
+import { ContactInfo, Education, Experience, ExperienceDocument, Language } from '../types';
+
+// --- Experience Document helpers ---
+
+export const emptyExperience = (): Experience => ({ role: '', company: '', duration: '', details: [], sources: [] });
+
+export const emptyEducation = (): Education => ({ school: '', degree: '', duration: '', details: [], sources: [] });
+
+export const emptyProfile = (): ExperienceDocument => ({
+  contact: { name: '', email: '', phone: '', location: '', links: [] },
+  summary: '',
+  experiences: [],
+  education: [],
+  skills: [],
+  certifications: [],
+});
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(asString).filter(Boolean) : [];
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+/**
+ * Validates a model response against the Experience Document shape.
+ * Missing fields fall back to empty values; a non-object payload is rejected.
+ */
+export const normalizeProfile = (raw: unknown): ExperienceDocument => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Experience Document must be a JSON object.');
+  }
+  const data = raw as Record<string, unknown>;
+  const contact = asRecord(data.contact);
+
+  const normalizedContact: ContactInfo = {
+    name: asString(contact.name),
+    email: asString(contact.email),
+    phone: asString(contact.phone),
+    location: asString(contact.location),
+    links: asStringList(contact.links),
+  };
+
+  const experiences: Experience[] = (Array.isArray(data.experiences) ? data.experiences : [])
+    .map(asRecord)
+    .map(e => ({
+      role: asString(e.role),
+      company: asString(e.company),
+      duration: asString(e.duration),
+      details: asStringList(e.details),
+      sources: asStringList(e.sources),
+    }))
+    .filter(e => e.role || e.company || e.details.length > 0);
+
+  const education: Education[] = (Array.isArray(data.education) ? data.education : [])
+    .map(asRecord)
+    .map(e => ({
+      school: asString(e.school),
+      degree: asString(e.degree),
+      duration: asString(e.duration),
+      details: asStringList(e.details),
+      sources: asStringList(e.sources),
+    }))
+    .filter(e => e.school || e.degree);
+
+  return {
+    contact: normalizedContact,
+    summary: asString(data.summary),
+    experiences,
+    education,
+    skills: asStringList(data.skills),
+    certifications: asStringList(data.certifications),
+  };
+};
+
+export const isProfileEmpty = (profile: ExperienceDocument): boolean =>
+  profile.experiences.length === 0 &&
+  profile.education.length === 0 &&
+  profile.skills.length === 0 &&
+  !profile.summary;
+
+// Returns a copy of `list` with the item at `from` moved to `to`.
+export const moveItem = <T>(list: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= list.length) return list;
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+// Serialized form used inside prompts, re-normalized so blank lines left by the editor are dropped.
+export const profileToPrompt = (profile: ExperienceDocument): string =>
+  JSON.stringify(normalizeProfile(profile), null, 2);
+
+// Flattens the profile to plain text for keyword matching and claim checks.
+export const profileText = (profile: ExperienceDocument): string => [
+  profile.contact.name,
+  [profile.contact.email, profile.contact.phone, profile.contact.location, ...profile.contact.links].join(' '),
+  profile.summary,
+  ...profile.experiences.flatMap(e => [e.role, e.company, ...e.details]),
+  ...profile.education.flatMap(e => [e.school, e.degree, ...e.details]),
+  ...profile.skills,
+  ...profile.certifications,
+].filter(Boolean).join('\n');
+
+// --- Merging structured imports ---
+
+const mergeKey = (...parts: string[]) => parts.map(p => p.toLowerCase().replace(/\s+/g, ' ').trim()).join('|');
+
+// `a` followed by the items of `b` it does not already have, ignoring case and spacing.
+const union = (a: string[], b: string[]): string[] => {
+  const seen = new Set(a.map(item => mergeKey(item)));
+  const added = b.filter(item => {
+    const key = mergeKey(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return [...a, ...added];
+};
+
+const fillBlanks = <T extends object>(a: T, b: T): T =>
+  Object.fromEntries(Object.entries(a).map(([k, v]) => [k, v === '' ? (b as Record<string, unknown>)[k] : v])) as T;
+
+const mergeEntries = <T extends Experience | Education>(a: T[], b: T[], key: (entry: T) => string): T[] =>
+  b.reduce((merged, entry) => {
+    const i = merged.findIndex(e => key(e) === key(entry));
+    if (i < 0) return [...merged, entry];
+    const existing = merged[i];
+    const combined = { ...fillBlanks(existing, entry), details: union(existing.details, entry.details), sources: union(existing.sources, entry.sources) };
+    return merged.map((e, j) => (j === i ? combined : e));
+  }, a);
+
+/**
+ * Adds `incoming` to `base` without a model call. Entries with the same role and company
+ * (or school and degree) become one: `base` keeps its values, blanks are filled from
+ * `incoming`, and details and sources are combined. Merging the same data twice changes nothing.
+ */
+export const mergeProfiles = (base: ExperienceDocument, incoming: ExperienceDocument): ExperienceDocument => ({
+  contact: { ...fillBlanks(base.contact, incoming.contact), links: union(base.contact.links, incoming.contact.links) },
+  summary: base.summary || incoming.summary,
+  experiences: mergeEntries(base.experiences, incoming.experiences, e => mergeKey(e.role, e.company)),
+  education: mergeEntries(base.education, incoming.education, e => mergeKey(e.school, e.degree)),
+  skills: union(base.skills, incoming.skills),
+  certifications: union(base.certifications, incoming.certifications),
+});
+
+// Role and school names the brainstorm should reuse so its entries merge with imported ones.
+export const profileEntryNames = (profile: ExperienceDocument): string[] => [
+  ...profile.experiences.map(e => [e.role, e.company].filter(Boolean).join(' @ ')),
+  ...profile.education.map(e => [e.degree, e.school].filter(Boolean).join(' @ ')),
+];
+
+/** "Jan 2020 – Mar 2022", or open-ended while the role is current. */
+export const formatDuration = (start: string, end: string, lang: Language): string =>
+  start ? `${start} – ${end || (lang === 'zh' ? '至今' : 'Present')}` : end;
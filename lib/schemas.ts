@@ -0,0 +1,219 @@
+import { JsonSchema } from '../llm/types';
+
+// --- Response Schemas ---
+
+const str: JsonSchema = { type: 'string' };
+const stringList: JsonSchema = { type: 'array', items: str };
+
+export const EXPERIENCE_DOC_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    contact: {
+      type: 'object',
+      properties: { name: str, email: str, phone: str, location: str, links: stringList },
+      required: ['name', 'email', 'phone', 'location', 'links']
+    },
+    summary: str,
+    experiences: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { role: str, company: str, duration: str, details: stringList, sources: stringList },
+        required: ['role', 'company', 'duration', 'details', 'sources']
+      }
+    },
+    education: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { school: str, degree: str, duration: str, details: stringList, sources: stringList },
+        required: ['school', 'degree', 'duration', 'details', 'sources']
+      }
+    },
+    skills: stringList,
+    certifications: stringList
+  },
+  required: ['contact', 'summary', 'experiences', 'education', 'skills', 'certifications']
+};
+
+export const JD_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: str,
+    company: str,
+    location: str,
+    seniority: str,
+    mustHaves: stringList,
+    niceToHaves: stringList,
+    responsibilities: stringList
+  },
+  required: ['title', 'company', 'location', 'seniority', 'mustHaves', 'niceToHaves', 'responsibilities']
+};
+
+const objectOf = (fields: Record<string, JsonSchema>): JsonSchema => ({
+  type: 'object',
+  properties: fields,
+  required: Object.keys(fields)
+});
+
+export const STRUCTURED_RESUME_SCHEMA: JsonSchema = objectOf({
+  name: str,
+  headline: str,
+  email: str,
+  phone: str,
+  location: str,
+  links: stringList,
+  summary: str,
+  work: {
+    type: 'array',
+    items: objectOf({
+      position: str, employer: str, location: str, startDate: str, endDate: str, current: { type: 'boolean' }, highlights: stringList
+    })
+  },
+  education: {
+    type: 'array',
+    items: objectOf({ institution: str, qualification: str, field: str, startDate: str, endDate: str, details: stringList })
+  },
+  skills: stringList,
+  languages: { type: 'array', items: objectOf({ language: str, level: str }) },
+  certifications: { type: 'array', items: objectOf({ name: str, issuer: str, date: str }) },
+  projects: { type: 'array', items: objectOf({ name: str, description: str, highlights: stringList }) },
+  awards: { type: 'array', items: objectOf({ title: str, awarder: str, date: str }) },
+  other: { type: 'array', items: objectOf({ section: str, lines: stringList }) }
+});
+
+// The part of the JSON Resume v1.0.0 schema the export writes; every field there is optional.
+const optionalObject = (fields: Record<string, JsonSchema>): JsonSchema => ({ type: 'object', properties: fields });
+
+export const JSON_RESUME_SCHEMA: JsonSchema = optionalObject({
+  $schema: str,
+  basics: optionalObject({
+    name: str,
+    label: str,
+    email: str,
+    phone: str,
+    url: str,
+    summary: str,
+    location: optionalObject({ address: str }),
+    profiles: { type: 'array', items: optionalObject({ network: str, url: str }) }
+  }),
+  work: {
+    type: 'array',
+    items: optionalObject({ name: str, position: str, location: str, startDate: str, endDate: str, highlights: stringList })
+  },
+  education: {
+    type: 'array',
+    items: optionalObject({ institution: str, area: str, studyType: str, startDate: str, endDate: str, courses: stringList })
+  },
+  skills: { type: 'array', items: optionalObject({ name: str }) },
+  languages: { type: 'array', items: optionalObject({ language: str, fluency: str }) },
+  certificates: { type: 'array', items: optionalObject({ name: str, issuer: str, date: str }) },
+  projects: { type: 'array', items: optionalObject({ name: str, description: str, highlights: stringList }) },
+  awards: { type: 'array', items: optionalObject({ title: str, awarder: str, date: str }) },
+  meta: optionalObject({ version: str, lastModified: str })
+});
+
+export const ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'number' },
+    dnaComparison: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { dna: str, jd: str },
+        required: ['dna', 'jd']
+      }
+    },
+    pros: stringList,
+    cons: stringList,
+    conclusion: str,
+    alternatives: stringList
+  },
+  required: ['score', 'dnaComparison', 'pros', 'cons', 'conclusion', 'alternatives']
+};
+
+export const CRITIQUE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    level: { type: 'string', enum: ['fatal', 'important', 'minor'] },
+    text: str,
+    suggestion: str
+  },
+  required: ['level', 'text', 'suggestion']
+};
+
+export const MISSING_DATA_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { id: { type: 'integer' }, question: str },
+        required: ['id', 'question']
+      }
+    }
+  },
+  required: ['questions']
+};
+
+export const CRITIQUE_FIX_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { section: str, markdown: str },
+  required: ['section', 'markdown']
+};
+
+export const COVER_LETTER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    letterMarkdown: str,
+    critiques: { type: 'array', items: CRITIQUE_SCHEMA }
+  },
+  required: ['letterMarkdown', 'critiques']
+};
+
+export const STAR_OUTLINE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { situation: str, task: str, action: str, result: str },
+  required: ['situation', 'task', 'action', 'result']
+};
+
+export const INTERVIEW_PREP_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: ['requirement', 'weakness'] },
+          topic: str,
+          question: str,
+          outline: STAR_OUTLINE_SCHEMA
+        },
+        required: ['kind', 'topic', 'question', 'outline']
+      }
+    }
+  },
+  required: ['questions']
+};
+
+export const ANSWER_FEEDBACK_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'number' },
+    strengths: stringList,
+    improvements: stringList
+  },
+  required: ['score', 'strengths', 'improvements']
+};
+
+export const DRAFT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    resumeMarkdown: str,
+    critiques: { type: 'array', items: CRITIQUE_SCHEMA }
+  },
+  required: ['resumeMarkdown', 'critiques']
+};
@@ -0,0 +1,94 @@
+import { ExperienceDocument, Language } from '../types';
+import { htmlToText } from './html';
+import { docxToText } from './docx';
+import { linkedInToProfile } from './linkedin';
+import { jsonResumeToProfile } from './jsonResume';
+
+// --- Brainstorm sources ---
+// Every imported file is appended to the raw notes under a marker line naming the file
+// and a content id. The brainstorm prompt uses the names to tag where each entry came
+// from; the ids let a second import of the same content be skipped. Structured exports
+// (LinkedIn, JSON Resume) skip the notes and map straight to profile entries.
+
+export type SourceKind = 'pdf' | 'image' | 'docx' | 'html' | 'text' | 'linkedin' | 'jsonResume';
+
+export const SOURCE_ACCEPT = '.txt,.md,.pdf,.docx,.html,.htm,.png,.jpg,.jpeg,.webp,.zip,.json';
+
+// Name for text typed or dictated straight into the notes, before any marker.
+export const NOTES_SOURCE = 'notes';
+
+const MARKER = /^=== Source: (.+) \[([0-9a-f]{12})\] ===$/gm;
+
+/** Picks the reader for a file from its type, falling back to the extension. */
+export const sourceKind = (file: File): SourceKind | null => {
+  const name = file.name.toLowerCase();
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (file.type.startsWith('image/')) return 'image';
+  if (name.endsWith('.docx')) return 'docx';
+  if (name.endsWith('.zip')) return 'linkedin';
+  if (file.type === 'application/json' || name.endsWith('.json')) return 'jsonResume';
+  if (file.type === 'text/html' || /\.html?$/.test(name)) return 'html';
+  if (file.type.startsWith('text/') || /\.(txt|md)$/.test(name)) return 'text';
+  return null;
+};
+
+// PDFs and images need the model to read them; everything else is read in the browser.
+export const needsExtraction = (kind: SourceKind) => kind === 'pdf' || kind === 'image';
+
+export const isStructured = (kind: SourceKind) => kind === 'linkedin' || kind === 'jsonResume';
+
+/** Profile entries of a structured export, mapped without the model. */
+export const readStructuredSource = async (file: File, kind: SourceKind, lang: Language): Promise<ExperienceDocument> => {
+  if (kind === 'linkedin') return linkedInToProfile(new Uint8Array(await file.arrayBuffer()), lang);
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  return jsonResumeToProfile(data, file.name, lang);
+};
+
+// "3 roles · 1 school · 12 skills" for the import list.
+export const describeProfile = (profile: ExperienceDocument, lang: Language): string =>
+  lang === 'zh'
+    ? `${profile.experiences.length} 段经历 · ${profile.education.length} 段教育 · ${profile.skills.length} 项技能`
+    : `${profile.experiences.length} roles · ${profile.education.length} schools · ${profile.skills.length} skills`;
+
+/** Text of a file the browser can read itself. */
+export const readSourceText = async (file: File, kind: SourceKind): Promise<string> => {
+  if (kind === 'docx') return docxToText(new Uint8Array(await file.arrayBuffer()));
+  const text = await file.text();
+  return kind === 'html' ? htmlToText(text) : text.trim();
+};
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/** Short content id: the file bytes for PDFs and images, the whitespace-normalized text otherwise. */
+export const contentId = async (content: Uint8Array | string): Promise<string> => {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(normalize(content)) : content;
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return Array.from(digest.slice(0, 6), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const sourceIds = (rawText: string): Set<string> =>
+  new Set([...rawText.matchAll(MARKER)].map(match => match[2]));
+
+/** True when the notes already carry this text, imported or pasted. */
+export const containsText = (rawText: string, text: string) => {
+  const needle = normalize(text);
+  return !!needle && normalize(rawText).includes(needle);
+};
+
+export const sourceBlock = (name: string, id: string, text: string) =>
+  `=== Source: ${name.replace(/[\r\n]+/g, ' ')} [${id}] ===\n${text.trim()}`;
+
+// One file in the import list, with its progress.
+export interface SourceImport {
+  id: string;
+  name: string;
+  status: 'queued' | 'reading' | 'extracting' | 'done' | 'duplicate' | 'error';
+  // What a structured import added.
+  detail: string;
+  error: string;
+}
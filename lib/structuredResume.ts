@@ -0,0 +1,43 @@
+// --- Helpers shared by the structured export formats ---
+
+// Resume content a format has no place for, or a value its schema rejects.
+export interface UnmappedField {
+  // Where the value sits in the split resume, e.g. "work[1].endDate" or "other: Hobbies".
+  field: string;
+  value: string;
+}
+
+export interface StructuredExport {
+  // The serialized document, ready to download.
+  content: string;
+  unmapped: UnmappedField[];
+}
+
+export interface ResumeDate {
+  year: number;
+  month?: number;
+  day?: number;
+}
+
+/** "YYYY", "YYYY-MM" or "YYYY-MM-DD"; anything else is not a date either format accepts. */
+export const parseResumeDate = (value: string): ResumeDate | null => {
+  const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(part => (part === undefined ? undefined : Number(part)));
+  if (month !== undefined && (month < 1 || month > 12)) return null;
+  if (day !== undefined && (day < 1 || day > 31)) return null;
+  return { year: year!, month, day };
+};
+
+export const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** An http(s) URL for a link, adding the scheme resumes usually leave out. */
+export const toUrl = (link: string): string | null => {
+  const value = /^[a-z][a-z\d+.-]*:/i.test(link.trim()) ? link.trim() : `https://${link.trim()}`;
+  try {
+    const url = new URL(value);
+    return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.includes('.') ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
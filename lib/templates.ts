@@ -0,0 +1,99 @@
+import { TemplateId } from '../types';
+
+// --- Resume Templates ---
+// Every template is single-column with real text and standard section headings,
+// so ATS parsers read the exported PDF and DOCX the same way as the preview.
+
+export interface ResumeTemplate {
+  id: TemplateId;
+  name: { en: string; zh: string };
+  description: { en: string; zh: string };
+  font: 'serif' | 'sans';
+  // Sizes in points, margins in millimetres.
+  bodySize: number;
+  nameSize: number;
+  sectionSize: number;
+  subheadingSize: number;
+  lineHeight: number;
+  margin: number;
+  sectionGap: number;
+  blockGap: number;
+  accent: string;
+  text: string;
+  centerHeader: boolean;
+  uppercaseSections: boolean;
+  sectionRule: boolean;
+}
+
+export const TEMPLATES: ResumeTemplate[] = [
+  {
+    id: 'classic',
+    name: { en: 'Classic', zh: '经典' },
+    description: { en: 'Serif, centered header, ruled sections', zh: '衬线字体，居中页眉，分隔线' },
+    font: 'serif',
+    bodySize: 10.5,
+    nameSize: 20,
+    sectionSize: 12,
+    subheadingSize: 11,
+    lineHeight: 1.3,
+    margin: 18,
+    sectionGap: 10,
+    blockGap: 4,
+    accent: '#111827',
+    text: '#111827',
+    centerHeader: true,
+    uppercaseSections: true,
+    sectionRule: true,
+  },
+  {
+    id: 'modern',
+    name: { en: 'Modern', zh: '现代' },
+    description: { en: 'Sans-serif with an accent colour', zh: '无衬线字体，强调色标题' },
+    font: 'sans',
+    bodySize: 10,
+    nameSize: 22,
+    sectionSize: 11.5,
+    subheadingSize: 10.5,
+    lineHeight: 1.35,
+    margin: 16,
+    sectionGap: 11,
+    blockGap: 4,
+    accent: '#1d4ed8',
+    text: '#1f2937',
+    centerHeader: false,
+    uppercaseSections: true,
+    sectionRule: false,
+  },
+  {
+    id: 'compact',
+    name: { en: 'Compact', zh: '紧凑' },
+    description: { en: 'Smaller type and margins for dense histories', zh: '更小字号与页边距，适合内容较多' },
+    font: 'sans',
+    bodySize: 9,
+    nameSize: 16,
+    sectionSize: 10,
+    subheadingSize: 9.5,
+    lineHeight: 1.22,
+    margin: 12,
+    sectionGap: 7,
+    blockGap: 2.5,
+    accent: '#111827',
+    text: '#111827',
+    centerHeader: false,
+    uppercaseSections: true,
+    sectionRule: true,
+  },
+];
+
+export const DEFAULT_TEMPLATE_ID: TemplateId = 'classic';
+
+export const getTemplate = (id: TemplateId | undefined): ResumeTemplate =>
+  TEMPLATES.find(t => t.id === id) ?? TEMPLATES[0];
+
+// CSS stacks for the on-screen preview; the exporters map `font` to their own families.
+export const PREVIEW_FONTS: Record<ResumeTemplate['font'], string> = {
+  serif: "'Times New Roman', Times, 'Songti SC', SimSun, serif",
+  sans: "Helvetica, Arial, 'PingFang SC', 'Microsoft YaHei', sans-serif",
+};
+
+export const MM_TO_PT = 72 / 25.4;
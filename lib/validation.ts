@@ -0,0 +1,122 @@
+import { AnalysisResult, AnswerFeedback, Critique, StructuredJd, StructuredResume } from '../types';
+import type { CritiqueFixResponse, InterviewPrepResponse, MissingDataResponse } from '../server/contract';
+import { JsonSchema } from '../llm/types';
+import {
+  ANALYSIS_SCHEMA,
+  ANSWER_FEEDBACK_SCHEMA,
+  CRITIQUE_FIX_SCHEMA,
+  CRITIQUE_SCHEMA,
+  INTERVIEW_PREP_SCHEMA,
+  JD_SCHEMA,
+  MISSING_DATA_SCHEMA,
+  STRUCTURED_RESUME_SCHEMA
+} from './schemas';
+
+// --- Runtime validation of model output ---
+
+export class ValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid response: ${issues.slice(0, 5).join('; ')}`);
+    this.name = 'ValidationError';
+  }
+}
+
+// Checks `value` against the provider-neutral schema and returns every mismatch found.
+export const checkSchema = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+  switch (schema.type) {
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path} must be an object`];
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required || []).filter(k => record[k] === undefined).map(k => `${path}.${k} is missing`);
+      const nested = Object.entries(schema.properties || {})
+        .filter(([k]) => record[k] !== undefined)
+        .flatMap(([k, child]) => checkSchema(record[k], child, `${path}.${k}`));
+      return [...missing, ...nested];
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      return schema.items ? value.flatMap((v, i) => checkSchema(v, schema.items!, `${path}[${i}]`)) : [];
+    case 'number':
+    case 'integer':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} must be a number`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+    default:
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      return schema.enum && !schema.enum.includes(value) ? [`${path} must be one of ${schema.enum.join(', ')}`] : [];
+  }
+};
+
+export const validateAnalysis = (raw: unknown): AnalysisResult => {
+  const issues = checkSchema(raw, ANALYSIS_SCHEMA);
+  if (issues.length) throw new ValidationError(issues);
+  const analysis = raw as AnalysisResult;
+  if (analysis.dnaComparison.length === 0) throw new ValidationError(['$.dnaComparison must not be empty']);
+  return { ...analysis, score: Math.round(Math.min(100, Math.max(0, analysis.score))) };
+};
+
+export const validateCritiques = (raw: unknown): Critique[] => {
+  const issues = checkSchema(raw, { type: 'array', items: CRITIQUE_SCHEMA }, '$.critiques');
+  if (issues.length) throw new ValidationError(issues);
+  return raw as Critique[];
+};
+
+// Every requested gap needs a question; extra or duplicate ids are dropped.
+export const validateMissingDataQuestions = (raw: unknown, ids: number[]): MissingDataResponse => {
+  const issues = checkSchema(raw, MISSING_DATA_SCHEMA);
+  if (issues.length) throw new ValidationError(issues);
+  const byId = new Map((raw as MissingDataResponse).questions.filter(q => q.question.trim()).map(q => [q.id, q.question.trim()]));
+  const missing = ids.filter(id => !byId.has(id));
+  if (missing.length) throw new ValidationError(missing.map(id => `$.questions has no question for gap ${id}`));
+  return { questions: ids.map(id => ({ id, question: byId.get(id)! })) };
+};
+
+// The rewrite must name one of the offered sections, so the client knows what it replaces.
+export const validateCritiqueFix = (raw: unknown, sections: string[]): CritiqueFixResponse => {
+  const issues = checkSchema(raw, CRITIQUE_FIX_SCHEMA);
+  if (issues.length) throw new ValidationError(issues);
+  const fix = raw as CritiqueFixResponse;
+  const section = sections.find(s => s.trim().toLowerCase() === fix.section.trim().toLowerCase());
+  if (section === undefined) throw new ValidationError([`$.section must be one of: ${sections.join(', ')}`]);
+  if (!fix.markdown.trim()) throw new ValidationError(['$.markdown must be a non-empty string']);
+  return { section, markdown: fix.markdown };
+};
+
+export const validateInterviewPrep = (raw: unknown): InterviewPrepResponse => {
+  const issues = checkSchema(raw, INTERVIEW_PREP_SCHEMA);
+  if (issues.length) throw new ValidationError(issues);
+  const questions = (raw as InterviewPrepResponse).questions.filter(q => q.question.trim());
+  if (!questions.length) throw new ValidationError(['$.questions must not be empty']);
+  return { questions };
+};
+
+export const validateAnswerFeedback = (raw: unknown): AnswerFeedback => {
+  const issues = checkSchema(raw, ANSWER_FEEDBACK_SCHEMA);
+  if (issues.length) throw new ValidationError(issues);
+  const feedback = raw as AnswerFeedback;
+  return { ...feedback, score: Math.round(Math.min(10, Math.max(1, feedback.score))) };
+};
+
+// A posting with no requirements and no responsibilities was not found in the input.
+export const validateJd = (raw: unknown): StructuredJd => {
+  const issues = checkSchema(raw, JD_SCHEMA);
+  if (issues.length) throw new ValidationError(issues);
+  const jd = raw as StructuredJd;
+  const clean = (items: string[]) => items.map(i => i.trim()).filter(Boolean);
+  const result = { ...jd, mustHaves: clean(jd.mustHaves), niceToHaves: clean(jd.niceToHaves), responsibilities: clean(jd.responsibilities) };
+  if (!result.mustHaves.length && !result.responsibilities.length) {
+    throw new ValidationError(['$.mustHaves and $.responsibilities must not both be empty']);
+  }
+  return result;
+};
+
+// A split with no name, roles or schools means the resume text was not recognized.
+export const validateStructuredResume = (raw: unknown): StructuredResume => {
+  const issues = checkSchema(raw, STRUCTURED_RESUME_SCHEMA);
+  if (issues.length) throw new ValidationError(issues);
+  const resume = raw as StructuredResume;
+  if (!resume.name.trim() && !resume.work.length && !resume.education.length) {
+    throw new ValidationError(['$.name, $.work and $.education must not all be empty']);
+  }
+  return resume;
+};
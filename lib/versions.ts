@@ -0,0 +1,70 @@
+import { JobApplication, ResumeVersion } from '../types';
+
+// --- Resume version history ---
+// Every generated draft and final resume is kept as a numbered version with the
+// inputs that produced it, so iterations can be compared, restored and branched.
+
+export type VersionInput = Pick<ResumeVersion, 'target' | 'source' | 'markdown'>
+  & Partial<Pick<ResumeVersion, 'additionalInfo' | 'critiques'>>;
+
+// The newest version of `target` holding exactly `markdown`, if one exists.
+export const findVersion = (versions: ResumeVersion[], target: ResumeVersion['target'], markdown: string) =>
+  [...versions].reverse().find(v => v.target === target && v.markdown === markdown);
+
+/**
+ * Adds a version unless the text is unchanged from the newest one of the same target.
+ * `base` is the text it was produced from; the version holding it becomes the parent.
+ */
+export const appendVersion = (versions: ResumeVersion[], input: VersionInput, base = ''): ResumeVersion[] => {
+  if (!input.markdown.trim()) return versions;
+  const latest = [...versions].reverse().find(v => v.target === input.target);
+  if (latest?.markdown === input.markdown) return versions;
+  const parent = base ? findVersion(versions, 'final', base) ?? findVersion(versions, 'draft', base) : undefined;
+  return [...versions, {
+    id: crypto.randomUUID(),
+    number: versions.reduce((max, v) => Math.max(max, v.number), 0) + 1,
+    createdAt: Date.now(),
+    parentId: parent?.id ?? null,
+    additionalInfo: '',
+    critiques: [],
+    ...input,
+  }];
+};
+
+// Label for the text on screen: its version number, starred once it has been hand-edited.
+export const versionLabel = (versions: ResumeVersion[], target: ResumeVersion['target'], markdown: string): string | null => {
+  const exact = findVersion(versions, target, markdown);
+  if (exact) return `v${exact.number}`;
+  const latest = [...versions].reverse().find(v => v.target === target);
+  return latest ? `v${latest.number}*` : null;
+};
+
+// The version and its ancestors, oldest first.
+const lineage = (versions: ResumeVersion[], version: ResumeVersion): ResumeVersion[] => {
+  const byId = new Map(versions.map(v => [v.id, v]));
+  const chain: ResumeVersion[] = [];
+  for (let v: ResumeVersion | undefined = version; v && !chain.includes(v); v = v.parentId ? byId.get(v.parentId) : undefined) {
+    chain.unshift(v);
+  }
+  return chain;
+};
+
+/**
+ * A new application that starts from `version`: same job and critiques, with the
+ * version's lineage as its history. A final version keeps the draft it grew from.
+ */
+export const branchApplication = (app: JobApplication, version: ResumeVersion, title: string): JobApplication => {
+  const history = lineage(app.versions, version);
+  const draft = version.target === 'draft' ? version : [...history].reverse().find(v => v.target === 'draft');
+  return {
+    ...app,
+    id: crypto.randomUUID(),
+    title,
+    createdAt: Date.now(),
+    resumeDraft: draft?.markdown ?? app.resumeDraft,
+    finalResume: version.target === 'final' ? version.markdown : '',
+    polishSource: version.target,
+    versions: history,
+    refineChat: [],
+  };
+};
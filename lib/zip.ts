@@ -0,0 +1,50 @@
+// --- Minimal ZIP reader ---
+// Enough of the format for .docx files and data exports: stored and deflated entries,
+// no encryption, no ZIP64. Inflating uses the platform's DecompressionStream.
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const findEndOfDirectory = (view: DataView): number => {
+  // The record is 22 bytes plus a comment of up to 64 KB.
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_DIRECTORY) return i;
+  }
+  throw new Error('Not a ZIP archive.');
+};
+
+/** Reads the entries of a ZIP archive whose names pass `include`, keyed by their path inside the archive. */
+export const readZip = async (bytes: Uint8Array, include: (name: string) => boolean = () => true): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = findEndOfDirectory(view);
+  const count = view.getUint16(end + 10, true);
+  const names = new TextDecoder();
+  const entries = new Map<string, Uint8Array>();
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== DIRECTORY_ENTRY) throw new Error('The ZIP directory is damaged.');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = names.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || !include(name)) continue;
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER) throw new Error(`The ZIP entry ${name} is damaged.`);
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(start, start + compressedSize);
+    if (method === 0) entries.set(name, data);
+    else if (method === 8) entries.set(name, await inflate(data));
+    else throw new Error(`The ZIP entry ${name} uses an unsupported compression method.`);
+  }
+  return entries;
+};
@@ -0,0 +1,56 @@
+import { ProviderId, WorkflowStep } from './types';
+
+// --- Provider configuration shared by the client and the server ---
+
+// Who transcribes recorded audio where the browser has no speech recognition:
+// the provider's extract model, or a Whisper-compatible endpoint on the server.
+export type TranscriptionBackend = 'model' | 'whisper';
+
+// The user's choice, sent with every API request. Credentials never leave the server.
+export interface ProviderSettings {
+  provider: ProviderId;
+  models: Record<WorkflowStep, string>;
+  transcription: TranscriptionBackend;
+}
+
+export interface ProviderCredentials {
+  geminiApiKey?: string;
+  openaiBaseUrl?: string;
+  openaiApiKey?: string;
+  // e.g. https://api.openai.com/v1 or a local whisper.cpp / faster-whisper server
+  whisperBaseUrl?: string;
+  whisperApiKey?: string;
+  whisperModel?: string;
+}
+
+export const WORKFLOW_STEPS: WorkflowStep[] = ['brainstorm', 'extract', 'fitCheck', 'draft', 'polish'];
+
+export const DEFAULT_MODELS: Record<ProviderId, Record<WorkflowStep, string>> = {
+  gemini: {
+    brainstorm: 'gemini-3-flash-preview',
+    extract: 'gemini-3-flash-preview',
+    fitCheck: 'gemini-3-pro-preview',
+    draft: 'gemini-3-pro-preview',
+    polish: 'gemini-3-pro-preview',
+  },
+  openai: {
+    brainstorm: 'gpt-4o-mini',
+    extract: 'gpt-4o-mini',
+    fitCheck: 'gpt-4o',
+    draft: 'gpt-4o',
+    polish: 'gpt-4o',
+  },
+  mock: {
+    brainstorm: 'mock',
+    extract: 'mock',
+    fitCheck: 'mock',
+    draft: 'mock',
+    polish: 'mock',
+  },
+};
+
+export const availableProviders = (credentials: ProviderCredentials): ProviderId[] => [
+  ...(credentials.geminiApiKey ? ['gemini' as const] : []),
+  ...(credentials.openaiBaseUrl ? ['openai' as const] : []),
+  'mock',
+];
@@ -0,0 +1,28 @@
+import { ErrorCode } from '../lib/errors';
+
+// --- Provider error classification ---
+
+export class ProviderError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export const isAbortError = (e: unknown) => (e as Error)?.name === 'AbortError';
+
+/**
+ * Maps SDK, HTTP and network failures onto an ErrorCode.
+ * The Gemini SDK and ProviderError both expose the HTTP status as `status`.
+ */
+export const classifyProviderError = (e: unknown): ErrorCode => {
+  const status = typeof (e as { status?: unknown })?.status === 'number' ? (e as { status: number }).status : undefined;
+  const message = String((e as Error)?.message || e);
+  if (status === 429) return /quota|RESOURCE_EXHAUSTED|insufficient_quota/i.test(message) ? 'quota' : 'rate_limited';
+  if (status === 401 || status === 403) return 'not_configured';
+  if (status !== undefined && status >= 400 && status < 500) return 'bad_request';
+  if (status !== undefined) return 'upstream';
+  if (e instanceof SyntaxError) return 'invalid_response';
+  if (/fetch failed|ECONNRESET|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|network/i.test(message)) return 'network';
+  return 'upstream';
+};
@@ -0,0 +1,80 @@
+import { GenerateContentConfig, GoogleGenAI, Schema, Type } from '@google/genai';
+import { GenerateRequest, JsonGenerateRequest, JsonSchema, LLMProvider, StreamRequest } from './types';
+
+const TYPE_MAP: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: TYPE_MAP[schema.type],
+  ...(schema.description && { description: schema.description }),
+  ...(schema.enum && { enum: schema.enum }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)])),
+  }),
+});
+
+const toContents = ({ prompt, files, history }: GenerateRequest) => {
+  const parts = [...(files ?? []).map(f => ({ inlineData: { data: f.data, mimeType: f.mimeType } })), { text: prompt }];
+  if (!history?.length) return files?.length ? parts : prompt;
+  return [
+    ...history.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+    { role: 'user', parts },
+  ];
+};
+
+export class GeminiProvider implements LLMProvider {
+  readonly id = 'gemini' as const;
+  private client: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  private config(request: StreamRequest): GenerateContentConfig {
+    return {
+      systemInstruction: request.system,
+      abortSignal: request.signal,
+      ...(request.schema && {
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(request.schema),
+      }),
+    };
+  }
+
+  async generateText(request: GenerateRequest): Promise<string> {
+    const response = await this.client.models.generateContent({
+      model: request.model,
+      contents: toContents(request),
+      config: this.config(request),
+    });
+    return response.text || '';
+  }
+
+  async generateJson(request: JsonGenerateRequest): Promise<unknown> {
+    const response = await this.client.models.generateContent({
+      model: request.model,
+      contents: toContents(request),
+      config: this.config(request),
+    });
+    return JSON.parse(response.text || '{}');
+  }
+
+  async *stream(request: StreamRequest): AsyncIterable<string> {
+    const chunks = await this.client.models.generateContentStream({
+      model: request.model,
+      contents: toContents(request),
+      config: this.config(request),
+    });
+    for await (const chunk of chunks) {
+      if (chunk.text) yield chunk.text;
+    }
+  }
+}
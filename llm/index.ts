@@ -0,0 +1,24 @@
+import { GeminiProvider } from './gemini';
+import { MockProvider } from './mock';
+import { OpenAICompatibleProvider } from './openai';
+import { ProviderCredentials, availableProviders } from './config';
+import { LLMProvider, ProviderId } from './types';
+
+// Server-side entry point: importing this pulls in the provider SDKs.
+export * from './types';
+export * from './config';
+export * from './errors';
+
+export const createProvider = (provider: ProviderId, credentials: ProviderCredentials): LLMProvider => {
+  if (!availableProviders(credentials).includes(provider)) {
+    throw new Error(`Provider "${provider}" is not configured on the server.`);
+  }
+  switch (provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider({ baseUrl: credentials.openaiBaseUrl!, apiKey: credentials.openaiApiKey });
+    case 'mock':
+      return new MockProvider();
+    default:
+      return new GeminiProvider(credentials.geminiApiKey!);
+  }
+};
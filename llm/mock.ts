@@ -0,0 +1,61 @@
+import { GenerateRequest, JsonGenerateRequest, JsonSchema, LLMProvider, StreamRequest } from './types';
+
+// FNV-1a, so identical requests always yield identical output.
+const hash = (input: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const sample = (schema: JsonSchema, seed: number, label: string): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, child], i) => [key, sample(child, seed + i, key)])
+      );
+    case 'array':
+      return schema.items ? [0, 1].map(i => sample(schema.items!, seed + i + 1, `${label} ${i + 1}`)) : [];
+    case 'number':
+    case 'integer':
+      return seed % 101;
+    case 'boolean':
+      return seed % 2 === 0;
+    default:
+      return schema.enum?.length ? schema.enum[seed % schema.enum.length] : `[mock] ${label}`;
+  }
+};
+
+/**
+ * Offline provider for demos and tests. JSON responses are sampled from the schema
+ * unless a fixture is registered for the schema name.
+ */
+export class MockProvider implements LLMProvider {
+  readonly id = 'mock' as const;
+
+  constructor(private fixtures: Record<string, unknown> = {}) {}
+
+  async generateText(request: GenerateRequest): Promise<string> {
+    const seed = hash(request.prompt);
+    return `# [mock] ${request.model}\n\n- Deterministic response #${seed % 10000}\n- Prompt length: ${request.prompt.length} characters\n- Attached files: ${request.files?.length ?? 0}\n- Earlier turns: ${request.history?.length ?? 0}`;
+  }
+
+  async generateJson(request: JsonGenerateRequest): Promise<unknown> {
+    if (request.schemaName in this.fixtures) return structuredClone(this.fixtures[request.schemaName]);
+    return sample(request.schema, hash(request.schemaName + request.prompt), request.schemaName);
+  }
+
+  // Replays the non-streaming output in small chunks so progressive UIs can be exercised offline.
+  async *stream(request: StreamRequest): AsyncIterable<string> {
+    const full = request.schema
+      ? JSON.stringify(await this.generateJson({ ...request, schema: request.schema, schemaName: request.schemaName || 'response' }))
+      : await this.generateText(request);
+    for (let i = 0; i < full.length; i += 16) {
+      if (request.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      await new Promise(resolve => setTimeout(resolve, 15));
+      yield full.slice(i, i + 16);
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { GenerateRequest, JsonGenerateRequest, LLMProvider, StreamRequest } from './types';
+import { ProviderError } from './errors';
+
+export interface OpenAICompatibleOptions {
+  // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  baseUrl: string;
+  apiKey?: string;
+}
+
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'input_audio'; input_audio: { data: string; format: 'wav' | 'mp3' } }
+  | { type: 'file'; file: { filename: string; file_data: string } };
+
+const toUserContent = ({ prompt, files }: GenerateRequest): string | ContentPart[] => {
+  if (!files?.length) return prompt;
+  const parts: ContentPart[] = files.map((f, i) => {
+    const dataUrl = `data:${f.mimeType};base64,${f.data}`;
+    if (f.mimeType.startsWith('audio/')) {
+      return { type: 'input_audio', input_audio: { data: f.data, format: f.mimeType === 'audio/mpeg' ? 'mp3' : 'wav' } };
+    }
+    return f.mimeType.startsWith('image/')
+      ? { type: 'image_url', image_url: { url: dataUrl } }
+      : { type: 'file', file: { filename: `upload-${i + 1}`, file_data: dataUrl } };
+  });
+  return [...parts, { type: 'text', text: prompt }];
+};
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` API,
+ * including local runtimes such as Ollama, LM Studio or vLLM.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id = 'openai' as const;
+
+  constructor(private options: OpenAICompatibleOptions) {}
+
+  private post(request: StreamRequest, stream: boolean): Promise<Response> {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      ...(request.history ?? []).map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text })),
+      { role: 'user', content: toUserContent(request) },
+    ];
+    const responseFormat = request.schema && {
+      type: 'json_schema',
+      json_schema: { name: request.schemaName || 'response', schema: request.schema },
+    };
+    return fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal: request.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey && { Authorization: `Bearer ${this.options.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages,
+        ...(responseFormat && { response_format: responseFormat }),
+        ...(stream && { stream: true }),
+      }),
+    });
+  }
+
+  private async complete(request: StreamRequest): Promise<string> {
+    const res = await this.post(request, false);
+    if (!res.ok) {
+      throw new ProviderError(`OpenAI-compatible request failed (${res.status}): ${await res.text()}`, res.status);
+    }
+    const data = await res.json();
+    return data.choices?.[0]?.message?.content || '';
+  }
+
+  generateText(request: GenerateRequest): Promise<string> {
+    return this.complete(request);
+  }
+
+  async generateJson(request: JsonGenerateRequest): Promise<unknown> {
+    return JSON.parse((await this.complete(request)) || '{}');
+  }
+
+  // Parses the server-sent event stream of `chat.completion.chunk` objects.
+  async *stream(request: StreamRequest): AsyncIterable<string> {
+    const res = await this.post(request, true);
+    if (!res.ok || !res.body) {
+      throw new ProviderError(`OpenAI-compatible request failed (${res.status}): ${await res.text()}`, res.status);
+    }
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !payload) continue;
+        if (payload === '[DONE]') return;
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  }
+}
@@ -0,0 +1,56 @@
+// --- LLM Provider Layer ---
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+// Each workflow step can run on its own model.
+export type WorkflowStep = 'brainstorm' | 'extract' | 'fitCheck' | 'draft' | 'polish';
+
+// Provider-neutral subset of JSON Schema; each provider translates it to its own dialect.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+// Inline file for vision/document input, base64 encoded without the data URL prefix.
+export interface FilePart {
+  data: string;
+  mimeType: string;
+}
+
+// An earlier turn of a conversation, oldest first; `prompt` is always the newest user turn.
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface GenerateRequest {
+  model: string;
+  prompt: string;
+  history?: ChatMessage[];
+  system?: string;
+  files?: FilePart[];
+  // Aborts the upstream call, e.g. when the browser disconnects.
+  signal?: AbortSignal;
+}
+
+export interface JsonGenerateRequest extends GenerateRequest {
+  schema: JsonSchema;
+  // Short identifier some APIs require alongside the schema.
+  schemaName: string;
+}
+
+// Streams plain text, or raw JSON text when a schema is given.
+export type StreamRequest = GenerateRequest & Partial<Pick<JsonGenerateRequest, 'schema' | 'schemaName'>>;
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  generateText(request: GenerateRequest): Promise<string>;
+  // Resolves with the parsed JSON payload; shape checks are left to the caller.
+  generateJson(request: JsonGenerateRequest): Promise<unknown>;
+  // Yields text deltas as they arrive.
+  stream(request: StreamRequest): AsyncIterable<string>;
+}
@@ -0,0 +1,402 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import {
+  DEFAULT_MODELS,
+  LLMProvider,
+  ProviderCredentials,
+  ProviderSettings,
+  WORKFLOW_STEPS,
+  ChatMessage,
+  availableProviders,
+  classifyProviderError,
+  createProvider
+} from '../llm';
+import { ErrorCode } from '../lib/errors';
+import { normalizeProfile } from '../lib/profile';
+import { ValidationError } from '../lib/validation';
+import { CoverLetterLength, CoverLetterTone, Critique, Language } from '../types';
+import { HttpError, optionalStringList, readJson, requireNumber, requireString, sendJson } from './http';
+import { CritiqueFeedback, StreamEvent } from './contract';
+import { fetchPageText } from './fetchPage';
+import { createRateLimiter } from './rateLimit';
+import { transcribeWithWhisper } from './transcribe';
+import { runPlan, streamPlan } from './runner';
+import * as workflows from './workflows';
+import { WorkflowPlan } from './workflows';
+
+// --- API middleware: routes, rate limiting and request logging ---
+
+export interface ApiOptions extends ProviderCredentials {
+  // Requests per client per minute across all model-backed routes.
+  rateLimitPerMinute: number;
+  // Honour X-Forwarded-For when running behind a reverse proxy.
+  trustProxy: boolean;
+}
+
+const ALLOWED_UPLOAD_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/webp'];
+// The browser converts recordings to WAV; MP3 is the other format both backends accept.
+const ALLOWED_AUDIO_TYPES = ['audio/wav', 'audio/mpeg'];
+
+// Job pages can be long; the posting itself fits well within this.
+const MAX_JD_SOURCE_CHARS = 40_000;
+const truncate = (text: string) => text.slice(0, MAX_JD_SOURCE_CHARS);
+
+type Body = Record<string, unknown>;
+interface BaseFields {
+  lang: Language;
+  settings: ProviderSettings;
+}
+interface Route {
+  // Streamed routes answer with NDJSON events, the others with a single JSON body.
+  stream: boolean;
+  // Async only for routes that load their input first (URL imports).
+  plan: (body: Body, base: BaseFields, signal: AbortSignal) => WorkflowPlan<unknown> | Promise<WorkflowPlan<unknown>>;
+  // Answers without the model provider when it returns a promise instead of null.
+  direct?: (body: Body, base: BaseFields, options: ApiOptions, signal: AbortSignal) => Promise<unknown> | null;
+}
+
+const parseLang = (body: Body): Language => (body.lang === 'en' ? 'en' : 'zh');
+
+const parseSettings = (body: Body): ProviderSettings => {
+  const raw = (body.settings || {}) as Partial<ProviderSettings>;
+  const provider = typeof raw.provider === 'string' && Object.hasOwn(DEFAULT_MODELS, raw.provider) ? raw.provider : 'gemini';
+  const models = Object.fromEntries(
+    WORKFLOW_STEPS.map(s => [s, typeof raw.models?.[s] === 'string' && raw.models[s] ? raw.models[s] : DEFAULT_MODELS[provider][s]])
+  ) as ProviderSettings['models'];
+  return { provider, models, transcription: raw.transcription === 'whisper' ? 'whisper' : 'model' };
+};
+
+const parseProfile = (body: Body) => {
+  try {
+    return normalizeProfile(body.profile);
+  } catch (e) {
+    throw new HttpError(400, (e as Error).message);
+  }
+};
+
+const parseAudio = (body: Body) => {
+  const audio = (body.audio || {}) as Body;
+  const mimeType = requireString(audio, 'mimeType');
+  if (!ALLOWED_AUDIO_TYPES.includes(mimeType)) throw new HttpError(415, `Unsupported audio type: ${mimeType}`);
+  return { mimeType, data: requireString(audio, 'data') };
+};
+
+const parseFeedback = (body: Body): CritiqueFeedback[] =>
+  (Array.isArray(body.feedback) ? body.feedback : [])
+    .map(raw => (raw || {}) as Body)
+    .filter(f => typeof f.critique === 'string' && (f.status === 'dismissed' || f.status === 'answered'))
+    .map(f => ({
+      critique: f.critique as string,
+      status: f.status as CritiqueFeedback['status'],
+      note: typeof f.note === 'string' ? f.note : ''
+    }));
+
+const parseCritique = (raw: unknown): Critique => {
+  const critique = (raw || {}) as Body;
+  const level = critique.level === 'fatal' || critique.level === 'important' ? critique.level : 'minor';
+  return { level, text: requireString(critique, 'text'), suggestion: typeof critique.suggestion === 'string' ? critique.suggestion : '' };
+};
+
+const parseHistory = (body: Body): ChatMessage[] =>
+  (Array.isArray(body.history) ? body.history : [])
+    .map(raw => (raw || {}) as Body)
+    .filter(m => typeof m.text === 'string' && m.text.trim())
+    .map(m => ({ role: m.role === 'model' ? 'model' : 'user', text: m.text as string }));
+
+const COVER_LETTER_TONES: CoverLetterTone[] = ['formal', 'warm', 'confident'];
+const COVER_LETTER_LENGTHS: CoverLetterLength[] = ['short', 'standard', 'detailed'];
+
+const parseCoverLetter = (body: Body, base: BaseFields) => ({
+  ...base,
+  profile: parseProfile(body),
+  jd: requireString(body, 'jd'),
+  strengths: optionalStringList(body, 'strengths'),
+  resumeMarkdown: typeof body.resumeMarkdown === 'string' ? body.resumeMarkdown : '',
+  tone: COVER_LETTER_TONES.find(t => t === body.tone) ?? 'formal',
+  length: COVER_LETTER_LENGTHS.find(l => l === body.length) ?? 'standard',
+  feedback: parseFeedback(body)
+});
+
+const ROUTES: Record<string, Route> = {
+  '/api/brainstorm': {
+    stream: true,
+    plan: (body, base) => workflows.brainstorm({
+      ...base,
+      rawText: requireString(body, 'rawText'),
+      knownEntries: optionalStringList(body, 'knownEntries')
+    })
+  },
+
+  '/api/extract': {
+    stream: false,
+    plan: (body, base) => {
+      const file = (body.file || {}) as Body;
+      const mimeType = requireString(file, 'mimeType');
+      if (!ALLOWED_UPLOAD_TYPES.includes(mimeType)) throw new HttpError(415, `Unsupported file type: ${mimeType}`);
+      return workflows.extract({ ...base, file: { mimeType, data: requireString(file, 'data') } });
+    }
+  },
+
+  '/api/transcribe': {
+    stream: false,
+    plan: (body, base) => workflows.transcribe({ ...base, audio: parseAudio(body) }),
+    direct: (body, base, options, signal) => base.settings.transcription === 'whisper'
+      ? transcribeWithWhisper(options, parseAudio(body), base.lang, signal).then(text => ({ text }))
+      : null
+  },
+
+  '/api/jd-import': {
+    stream: false,
+    plan: async (body, base, signal) => {
+      const source = (body.source || {}) as Body;
+      if (source.kind === 'url') {
+        const url = requireString(source, 'url');
+        return workflows.importJd({ ...base, source: { kind: 'url', url } }, truncate(await fetchPageText(url, signal)));
+      }
+      if (source.kind === 'file') {
+        const file = (source.file || {}) as Body;
+        const mimeType = requireString(file, 'mimeType');
+        if (!ALLOWED_UPLOAD_TYPES.includes(mimeType)) throw new HttpError(415, `Unsupported file type: ${mimeType}`);
+        return workflows.importJd({ ...base, source: { kind: 'file', file: { mimeType, data: requireString(file, 'data') } } });
+      }
+      return workflows.importJd({ ...base, source: { kind: 'text', text: truncate(requireString(source, 'text')) } });
+    }
+  },
+
+  '/api/structure-resume': {
+    stream: false,
+    plan: (body, base) => workflows.structureResume({ ...base, resumeMarkdown: requireString(body, 'resumeMarkdown') })
+  },
+
+  '/api/fit-check': {
+    stream: false,
+    plan: (body, base) => workflows.fitCheck({ ...base, profile: parseProfile(body), jd: requireString(body, 'jd') })
+  },
+
+  '/api/draft': {
+    stream: true,
+    plan: (body, base) =>
+      workflows.draft({ ...base, profile: parseProfile(body), jd: requireString(body, 'jd'), feedback: parseFeedback(body) })
+  },
+
+  '/api/polish': {
+    stream: true,
+    plan: (body, base) =>
+      workflows.polish({
+        ...base,
+        profile: parseProfile(body),
+        jd: requireString(body, 'jd'),
+        resumeDraft: requireString(body, 'resumeDraft'),
+        additionalInfo: typeof body.additionalInfo === 'string' ? body.additionalInfo : '',
+        confirmedFacts: optionalStringList(body, 'confirmedFacts'),
+        feedback: parseFeedback(body),
+        critiques: (Array.isArray(body.critiques) ? body.critiques : []).map(parseCritique)
+      })
+  },
+
+  '/api/refine': {
+    stream: true,
+    plan: (body, base) =>
+      workflows.refine({
+        ...base,
+        profile: parseProfile(body),
+        jd: typeof body.jd === 'string' ? body.jd : '',
+        resumeMarkdown: requireString(body, 'resumeMarkdown'),
+        instruction: requireString(body, 'instruction'),
+        history: parseHistory(body),
+        confirmedFacts: optionalStringList(body, 'confirmedFacts'),
+        feedback: parseFeedback(body)
+      })
+  },
+
+  '/api/cover-letter': {
+    stream: true,
+    plan: (body, base) => workflows.coverLetter(parseCoverLetter(body, base))
+  },
+
+  '/api/cover-letter/polish': {
+    stream: true,
+    plan: (body, base) =>
+      workflows.polishCoverLetter({
+        ...parseCoverLetter(body, base),
+        letterMarkdown: requireString(body, 'letterMarkdown'),
+        critiques: (Array.isArray(body.critiques) ? body.critiques : []).map(parseCritique),
+        additionalInfo: typeof body.additionalInfo === 'string' ? body.additionalInfo : ''
+      })
+  },
+
+  '/api/condense': {
+    stream: true,
+    plan: (body, base) =>
+      workflows.condense({
+        ...base,
+        jd: typeof body.jd === 'string' ? body.jd : '',
+        resumeMarkdown: requireString(body, 'resumeMarkdown'),
+        overflowLines: requireNumber(body, 'overflowLines'),
+        overflowPercent: requireNumber(body, 'overflowPercent')
+      })
+  },
+
+  '/api/critique-fix': {
+    stream: false,
+    plan: (body, base) =>
+      workflows.fixCritique({
+        ...base,
+        profile: parseProfile(body),
+        jd: typeof body.jd === 'string' ? body.jd : '',
+        resumeMarkdown: requireString(body, 'resumeMarkdown'),
+        critique: parseCritique(body.critique),
+        evidence: typeof body.evidence === 'string' ? body.evidence : ''
+      })
+  },
+
+  '/api/interview-prep': {
+    stream: false,
+    plan: (body, base) =>
+      workflows.interviewPrep({
+        ...base,
+        profile: parseProfile(body),
+        jd: requireString(body, 'jd'),
+        requirements: optionalStringList(body, 'requirements'),
+        weaknesses: optionalStringList(body, 'weaknesses')
+      })
+  },
+
+  '/api/answer-feedback': {
+    stream: false,
+    plan: (body, base) => {
+      const outline = (body.outline || {}) as Body;
+      const part = (key: string) => (typeof outline[key] === 'string' ? outline[key] as string : '');
+      return workflows.answerFeedback({
+        ...base,
+        profile: parseProfile(body),
+        jd: typeof body.jd === 'string' ? body.jd : '',
+        question: requireString(body, 'question'),
+        outline: { situation: part('situation'), task: part('task'), action: part('action'), result: part('result') },
+        answer: requireString(body, 'answer')
+      });
+    }
+  },
+
+  '/api/missing-data': {
+    stream: false,
+    plan: (body, base) => {
+      const gaps = (Array.isArray(body.gaps) ? body.gaps : []).map((raw, i) => {
+        const gap = (raw || {}) as Body;
+        return {
+          id: typeof gap.id === 'number' ? gap.id : i,
+          hint: typeof gap.hint === 'string' ? gap.hint : '',
+          context: requireString(gap, 'context'),
+          heading: typeof gap.heading === 'string' ? gap.heading : ''
+        };
+      });
+      if (!gaps.length) throw new HttpError(400, 'Field "gaps" must list at least one gap.');
+      return workflows.missingDataQuestions({ ...base, profile: parseProfile(body), jd: typeof body.jd === 'string' ? body.jd : '', gaps });
+    }
+  },
+};
+
+const toErrorCode = (e: unknown): ErrorCode => {
+  if (e instanceof HttpError) return e.code;
+  if (e instanceof ValidationError || e instanceof SyntaxError) return 'invalid_response';
+  return classifyProviderError(e);
+};
+
+const STATUS_BY_CODE: Record<ErrorCode, number> = {
+  bad_request: 400,
+  not_configured: 400,
+  rate_limited: 429,
+  quota: 429,
+  network: 503,
+  upstream: 502,
+  invalid_response: 502,
+  fetch_failed: 502,
+  // Raised by the browser exporters, never by a route.
+  export_failed: 500,
+};
+
+const writeEvent = (res: ServerResponse, event: StreamEvent<unknown>) => res.write(JSON.stringify(event) + '\n');
+
+// Relays model deltas as NDJSON. Errors after the 200 header are reported as an error event.
+const sendStream = async (res: ServerResponse, llm: LLMProvider, plan: WorkflowPlan<unknown>, signal: AbortSignal) => {
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    'X-Accel-Buffering': 'no'
+  });
+  try {
+    const result = await streamPlan(llm, plan, text => writeEvent(res, { type: 'delta', text }), signal);
+    writeEvent(res, { type: 'done', result });
+  } catch (e) {
+    if (signal.aborted) return;
+    console.error('[api] stream failed:', e);
+    writeEvent(res, { type: 'error', error: (e as Error)?.message || 'Upstream model call failed.', code: toErrorCode(e) });
+  } finally {
+    res.end();
+  }
+};
+
+const clientId = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+export const createApiMiddleware = (options: ApiOptions) => {
+  const limit = createRateLimiter(options.rateLimitPerMinute);
+
+  return async (req: IncomingMessage, res: ServerResponse, next: (err?: unknown) => void) => {
+    const path = (req.url || '').split('?')[0];
+    if (!path.startsWith('/api/')) return next();
+
+    const started = Date.now();
+    const client = clientId(req, options.trustProxy);
+    // Abort the upstream model call if the client disconnects (e.g. the user pressed Cancel).
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+      const outcome = res.writableFinished ? res.statusCode : 'aborted';
+      console.log(`[api] ${req.method} ${path} ${outcome} ${Date.now() - started}ms client=${client}`);
+    });
+
+    try {
+      if (path === '/api/config' && req.method === 'GET') {
+        return sendJson(res, 200, { providers: availableProviders(options), whisper: !!options.whisperBaseUrl });
+      }
+
+      const route = ROUTES[path];
+      if (!route) throw new HttpError(404, `Unknown endpoint: ${path}`);
+      if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed.');
+
+      const { allowed, retryAfter } = limit(client);
+      if (!allowed) {
+        res.setHeader('Retry-After', String(retryAfter));
+        throw new HttpError(429, `Rate limit exceeded. Try again in ${retryAfter}s.`, 'rate_limited');
+      }
+
+      const body = await readJson(req);
+      if (!body || typeof body !== 'object' || Array.isArray(body)) throw new HttpError(400, 'Request body must be a JSON object.');
+      const base: BaseFields = { lang: parseLang(body as Body), settings: parseSettings(body as Body) };
+
+      const answer = route.direct?.(body as Body, base, options, controller.signal);
+      if (answer) return sendJson(res, 200, await answer);
+
+      let llm: LLMProvider;
+      try {
+        llm = createProvider(base.settings.provider, options);
+      } catch (e) {
+        throw new HttpError(400, (e as Error).message, 'not_configured');
+      }
+
+      // Build the plan first so bad input is rejected with a 4xx before any streaming starts.
+      const plan = await route.plan(body as Body, base, controller.signal);
+      if (route.stream) return await sendStream(res, llm, plan, controller.signal);
+      sendJson(res, 200, await runPlan(llm, plan, controller.signal));
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      const code = toErrorCode(e);
+      if (!(e instanceof HttpError)) console.error(`[api] ${path} failed:`, e);
+      const status = e instanceof HttpError ? e.status : STATUS_BY_CODE[code];
+      sendJson(res, status, { error: (e as Error)?.message || 'Upstream model call failed.', code });
+    }
+  };
+};
@@ -0,0 +1,216 @@
+import type {
+  AnalysisResult,
+  AnswerFeedback,
+  CoverLetterLength,
+  CoverLetterTone,
+  Critique,
+  ExperienceDocument,
+  InterviewQuestion,
+  Language,
+  StarOutline,
+  StructuredJd,
+  StructuredResume
+} from '../types';
+import type { ProviderSettings } from '../llm/config';
+import type { ChatMessage, FilePart } from '../llm/types';
+import type { ErrorCode } from '../lib/errors';
+
+// --- API contract shared by the React app and the server routes ---
+
+interface BaseRequest {
+  lang: Language;
+  settings: ProviderSettings;
+}
+
+export interface BrainstormRequest extends BaseRequest {
+  rawText: string;
+  // "Role @ Company" and "Degree @ School" of imported entries, so matching ones merge.
+  knownEntries?: string[];
+}
+
+export interface ExtractRequest extends BaseRequest {
+  file: FilePart;
+}
+
+// A posting to clean up: text the browser already extracted (pasted or from an HTML file),
+// a PDF or image sent inline, or a URL the server fetches.
+export type JdSource =
+  | { kind: 'text'; text: string }
+  | { kind: 'file'; file: FilePart }
+  | { kind: 'url'; url: string };
+
+// One recorded chunk of dictation, as WAV.
+export interface TranscribeRequest extends BaseRequest {
+  audio: FilePart;
+}
+
+export interface StructureResumeRequest extends BaseRequest {
+  resumeMarkdown: string;
+}
+
+export interface JdImportRequest extends BaseRequest {
+  source: JdSource;
+}
+
+export type JdImportResponse = StructuredJd;
+
+export interface FitCheckRequest extends BaseRequest {
+  profile: ExperienceDocument;
+  jd: string;
+}
+
+// A critique the candidate dismissed or answered, carried into later iterations.
+export interface CritiqueFeedback {
+  critique: string;
+  status: 'dismissed' | 'answered';
+  note: string;
+}
+
+export interface DraftRequest extends BaseRequest {
+  profile: ExperienceDocument;
+  jd: string;
+  feedback: CritiqueFeedback[];
+}
+
+export interface PolishRequest extends BaseRequest {
+  profile: ExperienceDocument;
+  jd: string;
+  resumeDraft: string;
+  additionalInfo: string;
+  // Resume claims the candidate confirmed as true although the profile does not show them.
+  confirmedFacts: string[];
+  feedback: CritiqueFeedback[];
+  // Open critiques of the draft for this polish to address.
+  critiques: Critique[];
+}
+
+// One chat instruction applied to the current final resume, with the earlier turns for context.
+export interface RefineRequest extends BaseRequest {
+  profile: ExperienceDocument;
+  jd: string;
+  resumeMarkdown: string;
+  instruction: string;
+  history: ChatMessage[];
+  confirmedFacts: string[];
+  feedback: CritiqueFeedback[];
+}
+
+// Rewrites the one section a critique concerns, leaving the rest of the resume untouched.
+export interface CritiqueFixRequest extends BaseRequest {
+  profile: ExperienceDocument;
+  jd: string;
+  resumeMarkdown: string;
+  critique: Critique;
+  // Evidence the candidate supplied for this critique, if any.
+  evidence: string;
+}
+
+export interface CritiqueFixResponse {
+  section: string;
+  markdown: string;
+}
+
+// A cover letter drafted from the same profile and JD as the resume, with critiques of its own.
+export interface CoverLetterRequest extends BaseRequest {
+  profile: ExperienceDocument;
+  jd: string;
+  // The Fit Check's pros, as the strengths to lead with.
+  strengths: string[];
+  resumeMarkdown: string;
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+  feedback: CritiqueFeedback[];
+}
+
+export interface CoverLetterResponse {
+  letterMarkdown: string;
+  critiques: Critique[];
+}
+
+export interface CoverLetterPolishRequest extends CoverLetterRequest {
+  letterMarkdown: string;
+  // Open critiques of the letter for this polish to address.
+  critiques: Critique[];
+  additionalInfo: string;
+}
+
+// Likely interview questions for the JD's requirements and the Fit Check's weaknesses.
+export interface InterviewPrepRequest extends BaseRequest {
+  profile: ExperienceDocument;
+  jd: string;
+  requirements: string[];
+  weaknesses: string[];
+}
+
+export interface InterviewPrepResponse {
+  questions: Omit<InterviewQuestion, 'id'>[];
+}
+
+// One practice answer, transcribed or typed, to be judged against its question and outline.
+export interface AnswerFeedbackRequest extends BaseRequest {
+  profile: ExperienceDocument;
+  jd: string;
+  question: string;
+  outline: StarOutline;
+  answer: string;
+}
+
+export type AnswerFeedbackResponse = AnswerFeedback;
+
+// A resume that overflows one A4 page, with the overflow measured in the browser.
+export interface CondenseRequest extends BaseRequest {
+  jd: string;
+  resumeMarkdown: string;
+  overflowLines: number;
+  overflowPercent: number;
+}
+
+// One [MISSING DATA] marker, with the resume line it sits in.
+export interface MissingDataPrompt {
+  id: number;
+  hint: string;
+  context: string;
+  heading: string;
+}
+
+export interface MissingDataRequest extends BaseRequest {
+  profile: ExperienceDocument;
+  jd: string;
+  gaps: MissingDataPrompt[];
+}
+
+export interface MissingDataResponse {
+  questions: { id: number; question: string }[];
+}
+
+export interface DraftResponse {
+  resumeMarkdown: string;
+  critiques: Critique[];
+}
+
+export interface TextResponse {
+  text: string;
+}
+
+export type FitCheckResponse = AnalysisResult;
+
+export type BrainstormResponse = ExperienceDocument;
+
+export type StructureResumeResponse = StructuredResume;
+
+// Which providers the server has credentials for, and whether a Whisper endpoint is set.
+export interface ConfigResponse {
+  providers: ProviderSettings['provider'][];
+  whisper: boolean;
+}
+
+export interface ErrorResponse {
+  error: string;
+  code: ErrorCode;
+}
+
+// Streaming routes (brainstorm, draft, polish, cover letter) answer with newline-delimited JSON events.
+export type StreamEvent<T> =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; result: T }
+  | { type: 'error'; error: string; code: ErrorCode };
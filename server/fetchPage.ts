@@ -0,0 +1,176 @@
+import { lookup } from 'dns/promises';
+import type { LookupAddress } from 'dns';
+import { IncomingMessage, request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, LookupFunction } from 'net';
+import { htmlToText } from '../lib/html';
+import { HttpError } from './http';
+
+// --- Job page fetching for URL imports ---
+
+const MAX_PAGE_BYTES = 3 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const TIMEOUT_MS = 15_000;
+
+// Addresses the server must not be pointed at: unspecified, loopback, private, CGNAT,
+// link-local (including cloud metadata), IETF protocol assignments, benchmarking,
+// multicast and reserved, unique-local, and local-use NAT64.
+const BLOCKED = new BlockList();
+for (const [net, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) BLOCKED.addSubnet(net, prefix, 'ipv4');
+for (const [net, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b:1::', 48], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) BLOCKED.addSubnet(net, prefix, 'ipv6');
+
+// The eight 16-bit groups of an IPv6 address, which may end in dotted IPv4.
+const ipv6Groups = (address: string): number[] => {
+  let text = address.split('%')[0];
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const hex = (part: string) => (part ? part.split(':').map(h => parseInt(h, 16)) : []);
+  const [left, right] = text.split('::');
+  if (right === undefined) return hex(left);
+  const [head, tail] = [hex(left), hex(right)];
+  return [...head, ...new Array<number>(8 - head.length - tail.length).fill(0), ...tail];
+};
+
+// The IPv4 address carried inside an IPv4-mapped, IPv4-compatible, NAT64 (64:ff9b::/96)
+// or 6to4 (2002::/16) address, which would reach that host all the same.
+const embeddedIpv4 = (address: string): string | null => {
+  const g = ipv6Groups(address);
+  const ipv4 = (hi: number, lo: number) => [hi >> 8, hi & 255, lo >> 8, lo & 255].join('.');
+  const zero = (from: number, to: number) => g.slice(from, to).every(x => x === 0);
+  if (zero(0, 5) && (g[5] === 0 || g[5] === 0xffff)) return ipv4(g[6], g[7]);
+  if (g[0] === 0x64 && g[1] === 0xff9b && zero(2, 6)) return ipv4(g[6], g[7]);
+  if (g[0] === 0x2002) return ipv4(g[1], g[2]);
+  return null;
+};
+
+const isBlocked = ({ address, family }: LookupAddress) => {
+  if (family !== 6) return BLOCKED.check(address, 'ipv4');
+  const ipv4 = embeddedIpv4(address);
+  return BLOCKED.check(address, 'ipv6') || (ipv4 !== null && BLOCKED.check(ipv4, 'ipv4'));
+};
+
+const isLocalName = (host: string) =>
+  host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal');
+
+const checkUrl = (raw: string): URL => {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new HttpError(400, `Not a valid URL: ${raw}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new HttpError(400, 'Only http and https URLs can be imported.');
+  return url;
+};
+
+/**
+ * Resolves a URL's host and checks every address it resolves to. The caller connects to
+ * the returned address, so a second DNS answer cannot swap in a private one.
+ */
+const resolvePublicAddress = async (url: URL): Promise<LookupAddress> => {
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (isLocalName(host)) throw new HttpError(400, 'URLs on private or local networks cannot be imported.');
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch (e) {
+    throw new HttpError(502, `Could not resolve ${host}: ${(e as Error).message}`, 'fetch_failed');
+  }
+  if (!addresses.length) throw new HttpError(502, `Could not resolve ${host}.`, 'fetch_failed');
+  if (addresses.some(isBlocked)) {
+    throw new HttpError(400, 'URLs on private or local networks cannot be imported.');
+  }
+  return addresses[0];
+};
+
+// One GET to `url`, connecting to `address` whatever the host name resolves to by then.
+// TLS still verifies the certificate against the host name.
+const get = (url: URL, address: LookupAddress, signal: AbortSignal): Promise<IncomingMessage> =>
+  new Promise((resolve, reject) => {
+    const pinned: LookupFunction = (_host, options, callback) =>
+      options.all ? callback(null, [address]) : callback(null, address.address, address.family);
+    const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+    const req = send(url, {
+      method: 'GET',
+      lookup: pinned,
+      signal,
+      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; resume-builder JD import)', Accept: 'text/html,text/plain;q=0.9' },
+    }, resolve);
+    req.on('error', reject);
+    req.end();
+  });
+
+const readLimited = async (res: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of res) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_PAGE_BYTES) {
+      res.destroy();
+      throw new HttpError(502, 'The page is too large to import.', 'fetch_failed');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+// Decodes with the charset from Content-Type or, for HTML, an early <meta> tag, so
+// GBK and Big5 job sites import as text. Unknown labels fall back to UTF-8.
+const decodeBody = (body: Buffer, type: string): string => {
+  const head = type.includes('html') ? body.subarray(0, 4096).toString('latin1') : '';
+  const charset = /charset\s*=\s*["']?([\w.:-]+)/i.exec(type)?.[1]
+    ?? /<meta\b[^>]*charset\s*=\s*["']?([\w.:-]+)/i.exec(head)?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(body);
+  } catch {
+    return new TextDecoder('utf-8').decode(body);
+  }
+};
+
+/**
+ * Fetches a job page and returns its readable text. Redirects are followed by hand
+ * so every hop is resolved and checked against the private-address guard.
+ */
+export const fetchPageText = async (raw: string, signal?: AbortSignal): Promise<string> => {
+  let url = checkUrl(raw);
+  const timeout = AbortSignal.timeout(TIMEOUT_MS);
+  const combined = signal ? AbortSignal.any([signal, timeout]) : timeout;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const address = await resolvePublicAddress(url);
+    let res: IncomingMessage;
+    try {
+      res = await get(url, address, combined);
+    } catch (e) {
+      throw new HttpError(502, `Could not load ${url.host}: ${(e as Error).message}`, 'fetch_failed');
+    }
+    const status = res.statusCode ?? 0;
+    const location = res.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      res.resume();
+      url = checkUrl(new URL(location, url).toString());
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      res.resume();
+      throw new HttpError(502, `${url.host} answered ${status}.`, 'fetch_failed');
+    }
+    const type = res.headers['content-type'] || '';
+    if (!/text\/(html|plain)|application\/xhtml/.test(type)) {
+      res.resume();
+      throw new HttpError(415, `Unsupported page type: ${type || 'unknown'}. Download the file and import it instead.`);
+    }
+    const body = decodeBody(await readLimited(res), type);
+    const text = type.includes('text/plain') ? body.trim() : htmlToText(body);
+    if (!text) throw new HttpError(502, 'The page has no readable text. It may need JavaScript to load.', 'fetch_failed');
+    return text;
+  }
+  throw new HttpError(502, 'Too many redirects.', 'fetch_failed');
+};
@@ -0,0 +1,65 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { ErrorCode } from '../lib/errors';
+
+// --- HTTP helpers ---
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public code: ErrorCode = 'bad_request') {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Base64 file uploads go through JSON bodies, so allow a generous limit.
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+export const readJson = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+};
+
+export const requireString = (body: Record<string, unknown>, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `Field "${field}" must be a non-empty string.`);
+  }
+  return value;
+};
+
+// Optional string arrays: anything else becomes an empty list, non-strings are dropped.
+export const optionalStringList = (body: Record<string, unknown>, field: string): string[] => {
+  const value = body[field];
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && !!v.trim()) : [];
+};
+
+export const requireNumber = (body: Record<string, unknown>, field: string): number => {
+  const value = body[field];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new HttpError(400, `Field "${field}" must be a number.`);
+  }
+  return value;
+};
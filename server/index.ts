@@ -0,0 +1,19 @@
+import type { Plugin } from 'vite';
+import { ApiOptions, createApiMiddleware } from './api';
+
+/**
+ * Mounts the API routes on both `vite` (dev) and `vite preview` (production),
+ * so model credentials stay on the server and never reach the client bundle.
+ */
+export const apiPlugin = (options: ApiOptions): Plugin => {
+  const middleware = createApiMiddleware(options);
+  return {
+    name: 'dsfj-api',
+    configureServer(server) {
+      server.middlewares.use(middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(middleware);
+    },
+  };
+};
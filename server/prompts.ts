@@ -0,0 +1,61 @@
+import { CoverLetterLength, CoverLetterTone, Language } from '../types';
+import type { CritiqueFeedback } from './contract';
+
+// --- AI System Prompts ---
+
+export const SYSTEM_PROMPT_BASE = `
+ROLE: You are a result-oriented recruiting expert and resume analysis system.
+OBJECTIVE: Maximize resume success (ATS + Human review).
+STRICT RULES:
+- Never fabricate, hallucinate, or exaggerate.
+- No flattery or filler language.
+- Stay objective and technical.
+- If data is missing, mark as [MISSING].
+- Strictly output in the user's requested language.
+- Final resume must fit one A4 page.
+`;
+
+// Shared by every step that returns a full resume, so the renderer and exporters can rely on it.
+export const RESUME_MARKDOWN_FORMAT = `Output only the resume as Markdown: the candidate's name as a "# " heading, contact details on the next line,
+    "## " section headings, "### " for each role or school, and "- " bullets. No code fences or commentary.`;
+
+export const COVER_LETTER_MARKDOWN_FORMAT = `Output the letter as Markdown: the candidate's name as a "# " heading, contact details on the next line,
+    then the salutation, body paragraphs and sign-off as plain paragraphs. No other headings, bullets, code fences or commentary.`;
+
+export const COVER_LETTER_TONES: Record<CoverLetterTone, string> = {
+  formal: 'formal and reserved',
+  warm: 'warm and personable, still professional',
+  confident: 'direct and confident, leading with results',
+};
+
+export const COVER_LETTER_LENGTHS: Record<CoverLetterLength, string> = {
+  short: 'about 150 words (250 Chinese characters), three short paragraphs',
+  standard: 'about 250 words (400 Chinese characters), four paragraphs',
+  detailed: 'about 400 words (650 Chinese characters), at most five paragraphs',
+};
+
+export const languageName = (lang: Language) => (lang === 'en' ? 'English' : 'Chinese');
+
+// Imported entries the brainstorm should name identically, so the app can merge them.
+export const knownEntriesToPrompt = (entries: string[]): string =>
+  entries.length
+    ? ['Entries already known from imported data. When the input is about one of them, reuse its role, company, degree and school names exactly:',
+      ...entries.map(e => `- ${e}`)].join('\n')
+    : '';
+
+// What the candidate said about earlier critiques, so later iterations respect it.
+export const feedbackToPrompt = (feedback: CritiqueFeedback[]): string => {
+  const dismissed = feedback.filter(f => f.status === 'dismissed');
+  const answered = feedback.filter(f => f.status === 'answered');
+  if (!dismissed.length && !answered.length) return '';
+  return [
+    ...(dismissed.length ? [
+      'Critiques the candidate dismissed (do not raise or act on them again):',
+      ...dismissed.map(f => `- ${f.critique}${f.note ? ` (reason: ${f.note})` : ''}`),
+    ] : []),
+    ...(answered.length ? [
+      'Evidence the candidate supplied in answer to critiques (treat as verified facts):',
+      ...answered.map(f => `- ${f.critique}: ${f.note}`),
+    ] : []),
+  ].join('\n    ');
+};
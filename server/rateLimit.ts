@@ -0,0 +1,25 @@
+// --- Per-client fixed-window rate limiter ---
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the client's window resets.
+  retryAfter: number;
+}
+
+export const createRateLimiter = (limit: number, windowMs = 60_000) => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return (clientId: string, now = Date.now()): RateLimitResult => {
+    // Drop expired windows so the map doesn't grow with every client ever seen.
+    if (windows.size > 1000) {
+      for (const [id, w] of windows) if (w.resetAt <= now) windows.delete(id);
+    }
+    let window = windows.get(clientId);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(clientId, window);
+    }
+    window.count += 1;
+    return { allowed: window.count <= limit, retryAfter: Math.ceil((window.resetAt - now) / 1000) };
+  };
+};
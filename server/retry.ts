@@ -0,0 +1,39 @@
+import { RETRYABLE_CODES } from '../lib/errors';
+import { classifyProviderError, isAbortError } from '../llm';
+
+// --- Retry with exponential backoff for transient and quota errors ---
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  signal?: AbortSignal;
+  // Extra veto on top of the error classification.
+  shouldRetry?: (e: unknown) => boolean;
+}
+
+export const DEFAULT_RETRY: RetryOptions = { retries: 3, baseDelayMs: 1000 };
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+export const isRetryable = (e: unknown) => !isAbortError(e) && RETRYABLE_CODES.includes(classifyProviderError(e));
+
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = DEFAULT_RETRY): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      if (attempt >= options.retries || !isRetryable(e) || options.shouldRetry?.(e) === false) throw e;
+      // Jitter keeps many clients from retrying in lockstep.
+      const delay = options.baseDelayMs * 2 ** attempt * (0.5 + Math.random() / 2);
+      console.warn(`[api] attempt ${attempt + 1} failed (${classifyProviderError(e)}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, options.signal);
+    }
+  }
+};
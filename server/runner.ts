@@ -0,0 +1,72 @@
+import { LLMProvider } from '../llm';
+import { ValidationError } from '../lib/validation';
+import { DEFAULT_RETRY, isRetryable, withRetry } from './retry';
+import { WorkflowPlan } from './workflows';
+
+// --- Executes workflow plans: retries, streaming and schema repair ---
+
+const MAX_REPAIRS = 2;
+
+const collect = async (chunks: AsyncIterable<string>): Promise<string> => {
+  let text = '';
+  for await (const delta of chunks) text += delta;
+  return text;
+};
+
+const isInvalidOutput = (e: unknown) => e instanceof ValidationError || e instanceof SyntaxError;
+
+const repairPrompt = (original: string, output: string, error: unknown) => `${original}
+
+YOUR PREVIOUS RESPONSE WAS REJECTED:
+${error instanceof ValidationError ? error.issues.join('\n') : `Not valid JSON (${(error as Error).message}).`}
+
+Previous response:
+${output}
+
+Return the complete, corrected JSON only. Keep every valid part unchanged.`;
+
+/**
+ * Runs `plan.finish` on the output; when a JSON step comes back malformed or off-schema,
+ * re-prompts the model with the validation issues, up to MAX_REPAIRS times.
+ */
+const finishWithRepair = async <T>(llm: LLMProvider, plan: WorkflowPlan<T>, text: string, signal?: AbortSignal): Promise<T> => {
+  let output = text;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return plan.finish(output);
+    } catch (e) {
+      if (!isInvalidOutput(e) || !plan.request.schema || attempt >= MAX_REPAIRS) throw e;
+      console.warn(`[api] ${plan.request.schemaName} output invalid, repair attempt ${attempt + 1}`);
+      const request = { ...plan.request, prompt: repairPrompt(plan.request.prompt, output, e), signal };
+      output = await withRetry(() => collect(llm.stream(request)), { ...DEFAULT_RETRY, signal });
+    }
+  }
+};
+
+export const runPlan = async <T>(llm: LLMProvider, plan: WorkflowPlan<T>, signal?: AbortSignal): Promise<T> => {
+  const request = { ...plan.request, signal };
+  const text = await withRetry(() => collect(llm.stream(request)), { ...DEFAULT_RETRY, signal });
+  return finishWithRepair(llm, plan, text, signal);
+};
+
+/**
+ * Like runPlan, but reports deltas as they arrive. A failed attempt is only retried
+ * if nothing has been forwarded yet, so the client never sees output twice.
+ */
+export const streamPlan = async <T>(
+  llm: LLMProvider,
+  plan: WorkflowPlan<T>,
+  onDelta: (text: string) => void,
+  signal?: AbortSignal
+): Promise<T> => {
+  const request = { ...plan.request, signal };
+  let text = '';
+  const attempt = async () => {
+    for await (const delta of llm.stream(request)) {
+      text += delta;
+      onDelta(delta);
+    }
+  };
+  await withRetry(attempt, { ...DEFAULT_RETRY, signal, shouldRetry: () => text === '' });
+  return finishWithRepair(llm, plan, text, signal);
+};
@@ -0,0 +1,42 @@
+import { FilePart, ProviderCredentials, ProviderError } from '../llm';
+import { Language } from '../types';
+import { HttpError } from './http';
+import { DEFAULT_RETRY, withRetry } from './retry';
+
+// --- Transcription through a Whisper-compatible `/audio/transcriptions` endpoint ---
+
+const DEFAULT_WHISPER_MODEL = 'whisper-1';
+
+const EXTENSIONS: Record<string, string> = { 'audio/wav': 'wav', 'audio/mpeg': 'mp3' };
+
+/**
+ * Sends one audio chunk to the configured endpoint (OpenAI, or a local whisper.cpp or
+ * faster-whisper server) and resolves with its text. Failures are classified like model errors.
+ */
+export const transcribeWithWhisper = async (
+  credentials: ProviderCredentials,
+  audio: FilePart,
+  lang: Language,
+  signal?: AbortSignal
+): Promise<string> => {
+  if (!credentials.whisperBaseUrl) throw new HttpError(400, 'WHISPER_BASE_URL is not set on the server.', 'not_configured');
+  const url = `${credentials.whisperBaseUrl.replace(/\/+$/, '')}/audio/transcriptions`;
+
+  const send = async () => {
+    const form = new FormData();
+    form.append('file', new Blob([Buffer.from(audio.data, 'base64')], { type: audio.mimeType }), `dictation.${EXTENSIONS[audio.mimeType] ?? 'wav'}`);
+    form.append('model', credentials.whisperModel || DEFAULT_WHISPER_MODEL);
+    form.append('language', lang);
+    form.append('response_format', 'json');
+    const res = await fetch(url, {
+      method: 'POST',
+      signal,
+      headers: credentials.whisperApiKey ? { Authorization: `Bearer ${credentials.whisperApiKey}` } : undefined,
+      body: form,
+    });
+    if (!res.ok) throw new ProviderError(`Whisper request failed (${res.status}): ${await res.text()}`, res.status);
+    const data = await res.json();
+    return typeof data?.text === 'string' ? data.text.trim() : '';
+  };
+  return withRetry(send, { ...DEFAULT_RETRY, signal });
+};
@@ -0,0 +1,500 @@
+import { StreamRequest } from '../llm';
+import { sectionText, splitSections } from '../lib/markdown';
+import { normalizeProfile, profileToPrompt } from '../lib/profile';
+import { NOTES_SOURCE } from '../lib/sources';
+import {
+  ANALYSIS_SCHEMA,
+  ANSWER_FEEDBACK_SCHEMA,
+  COVER_LETTER_SCHEMA,
+  CRITIQUE_FIX_SCHEMA,
+  DRAFT_SCHEMA,
+  EXPERIENCE_DOC_SCHEMA,
+  INTERVIEW_PREP_SCHEMA,
+  JD_SCHEMA,
+  MISSING_DATA_SCHEMA,
+  STRUCTURED_RESUME_SCHEMA
+} from '../lib/schemas';
+import {
+  ValidationError,
+  validateAnalysis,
+  validateAnswerFeedback,
+  validateCritiqueFix,
+  validateCritiques,
+  validateInterviewPrep,
+  validateJd,
+  validateMissingDataQuestions,
+  validateStructuredResume
+} from '../lib/validation';
+import {
+  COVER_LETTER_LENGTHS,
+  COVER_LETTER_MARKDOWN_FORMAT,
+  COVER_LETTER_TONES,
+  RESUME_MARKDOWN_FORMAT,
+  SYSTEM_PROMPT_BASE,
+  feedbackToPrompt,
+  knownEntriesToPrompt,
+  languageName
+} from './prompts';
+import {
+  AnswerFeedbackRequest,
+  AnswerFeedbackResponse,
+  BrainstormRequest,
+  BrainstormResponse,
+  CondenseRequest,
+  CoverLetterPolishRequest,
+  CoverLetterRequest,
+  CoverLetterResponse,
+  CritiqueFixRequest,
+  CritiqueFixResponse,
+  DraftRequest,
+  DraftResponse,
+  ExtractRequest,
+  FitCheckRequest,
+  FitCheckResponse,
+  InterviewPrepRequest,
+  JdImportRequest,
+  InterviewPrepResponse,
+  JdImportResponse,
+  MissingDataRequest,
+  MissingDataResponse,
+  PolishRequest,
+  RefineRequest,
+  StructureResumeRequest,
+  StructureResumeResponse,
+  TextResponse,
+  TranscribeRequest
+} from './contract';
+
+// --- Workflow steps: one prompt per API route ---
+
+// One model call: the request, and how to turn the full output into the route's result.
+// `finish` throws SyntaxError or ValidationError when the output is unusable.
+export interface WorkflowPlan<T> {
+  request: StreamRequest;
+  finish: (text: string) => T;
+}
+
+const requireText = (text: string): string => {
+  if (!text.trim()) throw new ValidationError(['response is empty']);
+  return text;
+};
+
+const validateDraft = (raw: unknown): DraftResponse => {
+  const data = (raw || {}) as Partial<DraftResponse>;
+  if (typeof data.resumeMarkdown !== 'string' || !data.resumeMarkdown.trim()) {
+    throw new ValidationError(['$.resumeMarkdown must be a non-empty string']);
+  }
+  return { resumeMarkdown: data.resumeMarkdown, critiques: validateCritiques(data.critiques) };
+};
+
+const validateCoverLetter = (raw: unknown): CoverLetterResponse => {
+  const data = (raw || {}) as Partial<CoverLetterResponse>;
+  if (typeof data.letterMarkdown !== 'string' || !data.letterMarkdown.trim()) {
+    throw new ValidationError(['$.letterMarkdown must be a non-empty string']);
+  }
+  return { letterMarkdown: data.letterMarkdown, critiques: validateCritiques(data.critiques) };
+};
+
+// Inputs shared by the cover letter draft and its polish.
+const coverLetterContext = (req: CoverLetterRequest) => `Tone: ${COVER_LETTER_TONES[req.tone]}.
+    Length: ${COVER_LETTER_LENGTHS[req.length]}.
+    Strictly stick to facts from the Experience Document and the resume. No fabrication.
+    If a fact the letter needs is missing (e.g. the hiring manager's name or the company's product), mark it as [MISSING DATA].
+    ${COVER_LETTER_MARKDOWN_FORMAT}
+    Language: ${languageName(req.lang)}.
+
+    Experience Document (JSON):
+    ${profileToPrompt(req.profile)}
+
+    Job Description:
+    ${req.jd}
+
+    Strengths from the Fit Check to lead with:
+    ${req.strengths.map(s => `- ${s}`).join('\n') || '(none)'}
+
+    Final Resume:
+    ${req.resumeMarkdown || '(none yet)'}
+
+    ${feedbackToPrompt(req.feedback)}`;
+
+export const brainstorm = (req: BrainstormRequest): WorkflowPlan<BrainstormResponse> => ({
+  request: {
+    model: req.settings.models.brainstorm,
+    prompt: `Process this raw input into a structured "Experience Document". 
+    Remove fillers, oral artifacts, repetitive phrases, and non-essential noise. 
+    Focus on facts: what was done, tools used, and results achieved.
+    Split work history into one entry per role, with one fact per detail line.
+    Leave a field empty if the input does not mention it.
+    The input may combine several sources. Each starts with a line "=== Source: <name> [<id>] ===";
+    text before the first such line is the user's own notes, source "${NOTES_SOURCE}".
+    When sources repeat the same role, degree or fact, merge them into one entry and one detail line.
+    List in "sources" the names (without the id) of every source each experience and education entry comes from.
+    ${knownEntriesToPrompt(req.knownEntries ?? [])}
+    Return JSON format.
+    Language: ${languageName(req.lang)}.
+    
+    Raw Input:
+    ${req.rawText}`,
+    system: SYSTEM_PROMPT_BASE,
+    schema: EXPERIENCE_DOC_SCHEMA,
+    schemaName: 'experience_document'
+  },
+  finish: text => normalizeProfile(JSON.parse(text))
+});
+
+export const extract = (req: ExtractRequest): WorkflowPlan<TextResponse> => ({
+  request: {
+    model: req.settings.models.extract,
+    files: [req.file],
+    prompt: `Extract and structure all professional experiences from this ${req.file.mimeType === 'application/pdf' ? 'PDF' : 'image'} into text. Keep it factual and detailed. Language: ${languageName(req.lang)}.`,
+    system: SYSTEM_PROMPT_BASE
+  },
+  finish: text => ({ text: requireText(text) })
+});
+
+// Dictation recorded where the browser has no speech recognition. Silence yields "".
+export const transcribe = (req: TranscribeRequest): WorkflowPlan<TextResponse> => ({
+  request: {
+    model: req.settings.models.extract,
+    files: [req.audio],
+    prompt: `Transcribe this recording verbatim, in the language spoken (usually ${languageName(req.lang)}).
+    Return only the transcript as plain text: no timestamps, speaker labels, headings or commentary.
+    Do not summarize, correct or complete what was said. If nothing is said, return nothing.`
+  },
+  finish: text => ({ text: text.trim() })
+});
+
+// Splits the polished resume into fields for JSON Resume and Europass export.
+export const structureResume = (req: StructureResumeRequest): WorkflowPlan<StructureResumeResponse> => ({
+  request: {
+    model: req.settings.models.extract,
+    prompt: `Split this resume into the fields of the JSON schema. Copy the wording exactly; do not add, drop or rephrase facts.
+    Dates are "YYYY-MM" when the month is known, else "YYYY". Leave "endDate" empty and set "current" to true for a role that is ongoing.
+    "headline" is a job title or tagline under the name, if any. "qualification" is the degree (e.g. BSc, MBA) and "field" the subject.
+    "languages" are spoken languages with the level as written (e.g. "Native", "C1", "Fluent").
+    Put every section that fits none of the fields in "other", with its heading and lines, so nothing is lost.
+
+    Resume:
+    ${req.resumeMarkdown}`,
+    system: SYSTEM_PROMPT_BASE,
+    schema: STRUCTURED_RESUME_SCHEMA,
+    schemaName: 'structured_resume'
+  },
+  finish: output => validateStructuredResume(JSON.parse(output))
+});
+
+// URL sources are fetched by the route first and passed in as `pageText`.
+export const importJd = (req: JdImportRequest, pageText = ''): WorkflowPlan<JdImportResponse> => {
+  const { source } = req;
+  const text = source.kind === 'text' ? source.text : pageText;
+  return {
+    request: {
+      model: req.settings.models.extract,
+      files: source.kind === 'file' ? [source.file] : undefined,
+      prompt: `Extract the job posting ${source.kind === 'file' ? 'in the attached file' : 'below'} into a structured job description.
+      Ignore everything that is not about this role: site navigation, cookie notices, other job listings,
+      benefits and perks boilerplate, "about us" marketing, equal-opportunity and legal statements.
+      "mustHaves" are stated requirements; "niceToHaves" are items marked preferred, a plus or a bonus;
+      "responsibilities" are what the person will do. One item per entry, close to the posting's wording.
+      "seniority" is the level (e.g. Junior, Senior, Staff, Lead) if stated or clear from the title, else "".
+      Leave any field empty if the posting does not say it. Do not invent requirements.
+      Keep the posting's own language, so its keywords match what ATS systems look for.
+      Return JSON format.
+      ${text ? `\n      Posting:\n      ${text}` : ''}`,
+      system: SYSTEM_PROMPT_BASE,
+      schema: JD_SCHEMA,
+      schemaName: 'job_description'
+    },
+    finish: output => validateJd(JSON.parse(output))
+  };
+};
+
+export const fitCheck = (req: FitCheckRequest): WorkflowPlan<FitCheckResponse> => ({
+  request: {
+    model: req.settings.models.fitCheck,
+    prompt: `Perform a "Fit Check" between this Experience Document and Job Description.
+    Compare "Professional DNA" vs "JD Requirements".
+    Return JSON format.
+    Language: ${languageName(req.lang)}.
+
+    Experience Document (JSON):
+    ${profileToPrompt(req.profile)}
+
+    Job Description:
+    ${req.jd}`,
+    system: SYSTEM_PROMPT_BASE,
+    schema: ANALYSIS_SCHEMA,
+    schemaName: 'fit_check'
+  },
+  finish: text => validateAnalysis(JSON.parse(text))
+});
+
+export const draft = (req: DraftRequest): WorkflowPlan<DraftResponse> => ({
+  request: {
+    model: req.settings.models.draft,
+    prompt: `Generate a single-page A4 resume draft and provide 5 brutal but actionable critiques.
+    The resume must be ATS-friendly, quantified, and highlight both hard and soft skills found in the JD.
+    Language: ${languageName(req.lang)}.
+
+    Experience Document (JSON):
+    ${profileToPrompt(req.profile)}
+
+    Job Description:
+    ${req.jd}
+
+    ${feedbackToPrompt(req.feedback)}`,
+    system: SYSTEM_PROMPT_BASE,
+    schema: DRAFT_SCHEMA,
+    schemaName: 'resume_draft'
+  },
+  finish: text => validateDraft(JSON.parse(text))
+});
+
+export const polish = (req: PolishRequest): WorkflowPlan<TextResponse> => ({
+  request: {
+    model: req.settings.models.polish,
+    prompt: `Perform final ATS polishing. Ensure all outcomes are quantified.
+    Strictly stick to verified facts from the Experience Document. No fabrication.
+    If information is missing for a key JD requirement, mark it as [MISSING DATA].
+    Fit to single A4 page.
+    ${RESUME_MARKDOWN_FORMAT}
+    Language: ${languageName(req.lang)}.
+    
+    Experience Document (JSON):
+    ${profileToPrompt(req.profile)}
+
+    Job Description:
+    ${req.jd}
+
+    Current Draft (may contain the candidate's own hand edits; keep their wording and facts):
+    ${req.resumeDraft}
+    
+    Critiques of the draft to address:
+    ${req.critiques.map(c => `- (${c.level}) ${c.text} Fix: ${c.suggestion}`).join('\n') || '(none)'}
+
+    Facts the candidate confirmed as true (treat them as verified):
+    ${req.confirmedFacts.map(f => `- ${f}`).join('\n') || '(none)'}
+
+    ${feedbackToPrompt(req.feedback)}
+
+    Additional Context/Corrections:
+    ${req.additionalInfo}`,
+    system: SYSTEM_PROMPT_BASE
+  },
+  finish: text => ({ text: requireText(text) })
+});
+
+export const refine = (req: RefineRequest): WorkflowPlan<TextResponse> => ({
+  request: {
+    model: req.settings.models.polish,
+    history: req.history,
+    prompt: `Revise the resume below according to the candidate's latest instruction.
+    Earlier turns of this conversation are instructions you already applied; keep honouring them
+    unless the latest instruction overrides them. Change only what the instruction calls for.
+    Strictly stick to verified facts from the Experience Document. No fabrication.
+    Keep every [MISSING DATA] marker that is still unresolved.
+    ${RESUME_MARKDOWN_FORMAT}
+    Language: ${languageName(req.lang)}.
+
+    Latest instruction:
+    ${req.instruction}
+
+    Experience Document (JSON):
+    ${profileToPrompt(req.profile)}
+
+    Job Description:
+    ${req.jd}
+
+    Facts the candidate confirmed as true (treat them as verified):
+    ${req.confirmedFacts.map(f => `- ${f}`).join('\n') || '(none)'}
+
+    ${feedbackToPrompt(req.feedback)}
+
+    Current Resume:
+    ${req.resumeMarkdown}`,
+    system: SYSTEM_PROMPT_BASE
+  },
+  finish: text => ({ text: requireText(text) })
+});
+
+export const coverLetter = (req: CoverLetterRequest): WorkflowPlan<CoverLetterResponse> => ({
+  request: {
+    model: req.settings.models.draft,
+    prompt: `Write a cover letter for this job and provide 3 to 5 brutal but actionable critiques of it.
+    Connect the candidate's strongest evidence to the JD's key requirements; do not restate the resume line by line.
+    Put the letter in "letterMarkdown". Return JSON format.
+    ${coverLetterContext(req)}`,
+    system: SYSTEM_PROMPT_BASE,
+    schema: COVER_LETTER_SCHEMA,
+    schemaName: 'cover_letter'
+  },
+  finish: text => validateCoverLetter(JSON.parse(text))
+});
+
+export const polishCoverLetter = (req: CoverLetterPolishRequest): WorkflowPlan<TextResponse> => ({
+  request: {
+    model: req.settings.models.polish,
+    prompt: `Polish the cover letter below. Address the critiques listed, keep the candidate's own edits,
+    and change nothing else.
+    ${coverLetterContext(req)}
+
+    Current Letter (may contain the candidate's own hand edits; keep their wording and facts):
+    ${req.letterMarkdown}
+
+    Critiques of the letter to address:
+    ${req.critiques.map(c => `- (${c.level}) ${c.text} Fix: ${c.suggestion}`).join('\n') || '(none)'}
+
+    Additional Context/Corrections:
+    ${req.additionalInfo}`,
+    system: SYSTEM_PROMPT_BASE
+  },
+  finish: text => ({ text: requireText(text) })
+});
+
+export const condense = (req: CondenseRequest): WorkflowPlan<TextResponse> => ({
+  request: {
+    model: req.settings.models.polish,
+    prompt: `The resume below does not fit on one A4 page. With the current template it runs over by about
+    ${req.overflowLines} lines of body text (${req.overflowPercent}% of the page height).
+    Shorten it so it fits on one page with a little room to spare:
+    - Cut or merge the bullets least relevant to the Job Description first, then tighten wording.
+    - Keep every heading, date, metric and [MISSING DATA] marker that remains; do not add anything new.
+    - Do not change facts. No fabrication.
+    ${RESUME_MARKDOWN_FORMAT}
+    Language: ${languageName(req.lang)}.
+
+    Job Description:
+    ${req.jd}
+
+    Resume:
+    ${req.resumeMarkdown}`,
+    system: SYSTEM_PROMPT_BASE
+  },
+  finish: text => ({ text: requireText(text) })
+});
+
+export const missingDataQuestions = (req: MissingDataRequest): WorkflowPlan<MissingDataResponse> => ({
+  request: {
+    model: req.settings.models.polish,
+    prompt: `The resume below marks facts the candidate has not given yet with [MISSING DATA].
+    For each gap, write one short, specific question that asks the candidate for exactly that fact,
+    naming the role or project it belongs to (e.g. "What was the team size on the payments migration at Acme?").
+    Ask for something the candidate can answer in a few words; do not suggest an answer.
+    Use the Experience Document and Job Description only to make the question precise.
+    Return JSON format with one question per gap id.
+    Language: ${languageName(req.lang)}.
+
+    Gaps (JSON):
+    ${JSON.stringify(req.gaps)}
+
+    Experience Document (JSON):
+    ${profileToPrompt(req.profile)}
+
+    Job Description:
+    ${req.jd}`,
+    system: SYSTEM_PROMPT_BASE,
+    schema: MISSING_DATA_SCHEMA,
+    schemaName: 'missing_data_questions'
+  },
+  finish: text => validateMissingDataQuestions(JSON.parse(text), req.gaps.map(g => g.id))
+});
+
+// The sections offered to the model are the ones the client will find again with the same split.
+export const fixCritique = (req: CritiqueFixRequest): WorkflowPlan<CritiqueFixResponse> => {
+  const sections = splitSections(req.resumeMarkdown);
+  const headings = sections.map(s => s.heading);
+  const header = sections.find(s => !sectionText(req.resumeMarkdown, s).startsWith('## '));
+  return {
+    request: {
+      model: req.settings.models.polish,
+      prompt: `Apply one critique to the resume below by rewriting only the section it concerns.
+      Critique (${req.critique.level}): ${req.critique.text}
+      Suggested fix: ${req.critique.suggestion}
+      ${req.evidence ? `Evidence the candidate supplied for this critique (treat as verified): ${req.evidence}` : ''}
+
+      Pick the section from this list and return its exact heading as "section"${header ? ` (${JSON.stringify(header.heading)} is the header with name and contact)` : ''}:
+      ${JSON.stringify(headings)}
+      Return that whole section, heading line included, as "markdown". Change nothing the critique does not call for.
+      Use only facts from the Experience Document and the evidence above; mark anything else as [MISSING DATA].
+      ${RESUME_MARKDOWN_FORMAT}
+      Return JSON format.
+      Language: ${languageName(req.lang)}.
+
+      Experience Document (JSON):
+      ${profileToPrompt(req.profile)}
+
+      Job Description:
+      ${req.jd}
+
+      Resume:
+      ${req.resumeMarkdown}`,
+      system: SYSTEM_PROMPT_BASE,
+      schema: CRITIQUE_FIX_SCHEMA,
+      schemaName: 'critique_fix'
+    },
+    finish: text => validateCritiqueFix(JSON.parse(text), headings)
+  };
+};
+
+export const interviewPrep = (req: InterviewPrepRequest): WorkflowPlan<InterviewPrepResponse> => ({
+  request: {
+    model: req.settings.models.draft,
+    prompt: `Prepare the candidate for interviews for this job.
+    Write one or two likely interview questions for each JD requirement (kind "requirement") and
+    for each weakness (kind "weakness"), with the requirement or weakness as "topic".
+    Weakness questions are the hard ones an interviewer would ask to probe the gap.
+    For each question, outline a STAR answer (situation, task, action, result) in a sentence or two per part,
+    using only facts from the Experience Document. Where it has no fitting fact, write [MISSING] for that part
+    and say in a few words what the candidate should prepare instead. No fabrication.
+    Return JSON format.
+    Language: ${languageName(req.lang)}.
+
+    JD requirements:
+    ${req.requirements.map(r => `- ${r}`).join('\n') || '(take them from the Job Description)'}
+
+    Weaknesses from the Fit Check:
+    ${req.weaknesses.map(w => `- ${w}`).join('\n') || '(none)'}
+
+    Experience Document (JSON):
+    ${profileToPrompt(req.profile)}
+
+    Job Description:
+    ${req.jd}`,
+    system: SYSTEM_PROMPT_BASE,
+    schema: INTERVIEW_PREP_SCHEMA,
+    schemaName: 'interview_prep'
+  },
+  finish: text => validateInterviewPrep(JSON.parse(text))
+});
+
+export const answerFeedback = (req: AnswerFeedbackRequest): WorkflowPlan<AnswerFeedbackResponse> => ({
+  request: {
+    model: req.settings.models.polish,
+    prompt: `Act as the interviewer for this job and judge the candidate's spoken practice answer.
+    Score it from 1 to 10 on structure (clear situation, task, action, result), relevance to the question,
+    and concrete evidence such as numbers. List what worked in "strengths" and the most useful changes in
+    "improvements". Point out claims that contradict the Experience Document. The answer is a speech
+    transcript, so ignore filler words and recognition errors.
+    Return JSON format.
+    Language: ${languageName(req.lang)}.
+
+    Question:
+    ${req.question}
+
+    Suggested STAR outline:
+    ${JSON.stringify(req.outline)}
+
+    Answer:
+    ${req.answer}
+
+    Experience Document (JSON):
+    ${profileToPrompt(req.profile)}
+
+    Job Description:
+    ${req.jd}`,
+    system: SYSTEM_PROMPT_BASE,
+    schema: ANSWER_FEEDBACK_SCHEMA,
+    schemaName: 'answer_feedback'
+  },
+  finish: text => validateAnswerFeedback(JSON.parse(text))
+});
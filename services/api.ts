@@ -0,0 +1,158 @@
+import type {
+  AnswerFeedbackRequest,
+  AnswerFeedbackResponse,
+  BrainstormRequest,
+  BrainstormResponse,
+  CondenseRequest,
+  CoverLetterPolishRequest,
+  CoverLetterRequest,
+  CoverLetterResponse,
+  ConfigResponse,
+  CritiqueFixRequest,
+  CritiqueFixResponse,
+  DraftRequest,
+  DraftResponse,
+  ErrorResponse,
+  ExtractRequest,
+  FitCheckRequest,
+  FitCheckResponse,
+  InterviewPrepRequest,
+  InterviewPrepResponse,
+  JdImportRequest,
+  JdImportResponse,
+  MissingDataRequest,
+  MissingDataResponse,
+  PolishRequest,
+  RefineRequest,
+  StreamEvent,
+  StructureResumeRequest,
+  StructureResumeResponse,
+  TextResponse,
+  TranscribeRequest
+} from '../server/contract';
+import { ErrorCode, isErrorCode } from '../lib/errors';
+
+// --- Client for the server-side API routes ---
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string, public code: ErrorCode) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Falls back to a code derived from the HTTP status when the body carries none.
+const errorFromResponse = (status: number, data: Partial<ErrorResponse>, fallback: string) =>
+  new ApiError(
+    status,
+    data.error || fallback,
+    isErrorCode(data.code) ? data.code : status === 429 ? 'rate_limited' : status >= 500 ? 'upstream' : 'bad_request'
+  );
+
+const post = async <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+  const res = await fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw errorFromResponse(res.status, data, res.statusText);
+  return data as T;
+};
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  // Called with the accumulated model output after every delta.
+  onText?: (text: string) => void;
+}
+
+// Reads an NDJSON event stream, resolving with the route's final result.
+const postStream = async <T>(path: string, body: unknown, { signal, onText }: StreamOptions): Promise<T> => {
+  const res = await fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok || !res.body) {
+    const data = await res.json().catch(() => ({}));
+    throw errorFromResponse(res.status, data, res.statusText);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as StreamEvent<T>;
+      if (event.type === 'delta') {
+        text += event.text;
+        onText?.(text);
+      } else if (event.type === 'done') {
+        return event.result;
+      } else {
+        throw new ApiError(502, event.error, event.code);
+      }
+    }
+  }
+  throw new ApiError(502, 'Stream ended before the response was complete.', 'network');
+};
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+// Normalizes anything thrown by a request into an ApiError; fetch network failures become `network`.
+export const toApiError = (e: unknown): ApiError =>
+  e instanceof ApiError ? e : new ApiError(0, (e as Error)?.message || String(e), e instanceof TypeError ? 'network' : 'upstream');
+
+export const fetchConfig = async (): Promise<ConfigResponse> => {
+  const res = await fetch('/api/config');
+  if (!res.ok) throw errorFromResponse(res.status, {}, res.statusText);
+  return res.json();
+};
+
+export const brainstorm = (req: BrainstormRequest, options: StreamOptions = {}) =>
+  postStream<BrainstormResponse>('/api/brainstorm', req, options);
+
+export const extractFile = (req: ExtractRequest) => post<TextResponse>('/api/extract', req);
+
+export const transcribe = (req: TranscribeRequest, signal?: AbortSignal) => post<TextResponse>('/api/transcribe', req, signal);
+
+export const importJd = (req: JdImportRequest, signal?: AbortSignal) => post<JdImportResponse>('/api/jd-import', req, signal);
+
+export const fitCheck = (req: FitCheckRequest, signal?: AbortSignal) => post<FitCheckResponse>('/api/fit-check', req, signal);
+
+export const structureResume = (req: StructureResumeRequest) => post<StructureResumeResponse>('/api/structure-resume', req);
+
+export const draftResume = (req: DraftRequest, options: StreamOptions = {}) =>
+  postStream<DraftResponse>('/api/draft', req, options);
+
+export const polishResume = (req: PolishRequest, options: StreamOptions = {}) =>
+  postStream<TextResponse>('/api/polish', req, options);
+
+export const refineResume = (req: RefineRequest, options: StreamOptions = {}) =>
+  postStream<TextResponse>('/api/refine', req, options);
+
+export const draftCoverLetter = (req: CoverLetterRequest, options: StreamOptions = {}) =>
+  postStream<CoverLetterResponse>('/api/cover-letter', req, options);
+
+export const polishCoverLetter = (req: CoverLetterPolishRequest, options: StreamOptions = {}) =>
+  postStream<TextResponse>('/api/cover-letter/polish', req, options);
+
+export const condenseResume = (req: CondenseRequest, options: StreamOptions = {}) =>
+  postStream<TextResponse>('/api/condense', req, options);
+
+export const fixCritique = (req: CritiqueFixRequest) => post<CritiqueFixResponse>('/api/critique-fix', req);
+
+export const missingDataQuestions = (req: MissingDataRequest) => post<MissingDataResponse>('/api/missing-data', req);
+
+export const interviewPrep = (req: InterviewPrepRequest) => post<InterviewPrepResponse>('/api/interview-prep', req);
+
+export const answerFeedback = (req: AnswerFeedbackRequest) => post<AnswerFeedbackResponse>('/api/answer-feedback', req);
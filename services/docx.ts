@@ -0,0 +1,132 @@
+import { AlignmentType, BorderStyle, Document, LevelFormat, Packer, Paragraph, TextRun } from 'docx';
+import { MdBlock, MdRun, parseMarkdown, runsToText } from '../lib/markdown';
+import { ResumeTemplate } from '../lib/templates';
+
+// --- DOCX Export ---
+// Plain paragraphs, real Word lists and no tables or text boxes, so ATS parsers
+// and recruiters' Word installs read the file the way it looks.
+
+const FONTS: Record<ResumeTemplate['font'], { ascii: string; eastAsia: string }> = {
+  serif: { ascii: 'Times New Roman', eastAsia: 'SimSun' },
+  sans: { ascii: 'Arial', eastAsia: 'Microsoft YaHei' },
+};
+
+// Word measures in twentieths of a point and font sizes in half points.
+const twips = (pt: number) => Math.round(pt * 20);
+const halfPoints = (pt: number) => Math.round(pt * 2);
+const mmToTwips = (mm: number) => Math.round((mm / 25.4) * 1440);
+const hex = (color: string) => color.replace('#', '');
+
+const runsFor = (runs: MdRun[], options: { bold?: boolean; size?: number; color?: string; allCaps?: boolean } = {}) =>
+  runs.map(r => new TextRun({
+    text: r.text,
+    bold: options.bold || r.bold,
+    italics: r.italic,
+    size: options.size,
+    color: options.color,
+    allCaps: options.allCaps,
+  }));
+
+const toParagraphs = (blocks: MdBlock[], t: ResumeTemplate): Paragraph[] => {
+  const paragraphs: Paragraph[] = [];
+  const headerAlignment = t.centerHeader ? AlignmentType.CENTER : AlignmentType.LEFT;
+  let inHeader = true;
+  let listInstance = 0;
+
+  for (const block of blocks) {
+    if (block.type === 'heading' && block.level === 1) {
+      paragraphs.push(new Paragraph({
+        alignment: headerAlignment,
+        spacing: { after: twips(t.blockGap) },
+        children: runsFor(block.runs, { bold: true, size: halfPoints(t.nameSize), color: hex(t.accent) }),
+      }));
+    } else if (block.type === 'heading' && block.level === 2) {
+      inHeader = false;
+      paragraphs.push(new Paragraph({
+        keepNext: true,
+        spacing: { before: twips(t.sectionGap), after: twips(t.blockGap) },
+        border: t.sectionRule
+          ? { bottom: { style: BorderStyle.SINGLE, size: 6, color: hex(t.accent), space: 1 } }
+          : undefined,
+        children: runsFor(block.runs, {
+          bold: true, size: halfPoints(t.sectionSize), color: hex(t.accent), allCaps: t.uppercaseSections
+        }),
+      }));
+    } else if (block.type === 'heading') {
+      paragraphs.push(new Paragraph({
+        keepNext: true,
+        spacing: { before: twips(t.blockGap) },
+        children: runsFor(block.runs, { bold: true, size: halfPoints(t.subheadingSize) }),
+      }));
+    } else if (block.type === 'paragraph') {
+      paragraphs.push(new Paragraph({
+        alignment: inHeader ? headerAlignment : AlignmentType.LEFT,
+        spacing: { after: twips(t.blockGap) },
+        children: runsFor(block.runs),
+      }));
+    } else if (block.type === 'list') {
+      // Each numbered list restarts at 1.
+      const instance = listInstance++;
+      block.items.forEach((item, i) => paragraphs.push(new Paragraph({
+        numbering: { reference: block.ordered ? 'numbers' : 'bullets', level: 0, instance },
+        spacing: { after: i === block.items.length - 1 ? twips(t.blockGap) : 0 },
+        children: runsFor(item),
+      })));
+    } else {
+      paragraphs.push(new Paragraph({
+        border: { bottom: { style: BorderStyle.SINGLE, size: 4, color: hex(t.text), space: 1 } },
+        spacing: { after: twips(t.blockGap) },
+      }));
+    }
+  }
+  return paragraphs;
+};
+
+const listLevel = (format: (typeof LevelFormat)[keyof typeof LevelFormat], text: string) => ({
+  level: 0,
+  format,
+  text,
+  alignment: AlignmentType.LEFT,
+  style: { paragraph: { indent: { left: twips(14), hanging: twips(10) } } },
+});
+
+export const renderDocx = async (markdown: string, template: ResumeTemplate): Promise<Blob> => {
+  const blocks = parseMarkdown(markdown);
+  const name = blocks.find(b => b.type === 'heading' && b.level === 1);
+  const font = FONTS[template.font];
+  const margin = mmToTwips(template.margin);
+
+  const doc = new Document({
+    creator: "Don't Start From JD",
+    title: name && name.type === 'heading' ? runsToText(name.runs) : 'Resume',
+    styles: {
+      default: {
+        document: {
+          run: {
+            font: { ascii: font.ascii, hAnsi: font.ascii, cs: font.ascii, eastAsia: font.eastAsia },
+            size: halfPoints(template.bodySize),
+            color: hex(template.text),
+          },
+          paragraph: { spacing: { line: Math.round(240 * template.lineHeight) } },
+        },
+      },
+    },
+    numbering: {
+      config: [
+        { reference: 'bullets', levels: [listLevel(LevelFormat.BULLET, '•')] },
+        { reference: 'numbers', levels: [listLevel(LevelFormat.DECIMAL, '%1.')] },
+      ],
+    },
+    sections: [{
+      properties: {
+        page: {
+          size: { width: mmToTwips(210), height: mmToTwips(297) },
+          margin: { top: margin, right: margin, bottom: margin, left: margin },
+        },
+      },
+      children: toParagraphs(blocks, template),
+    }],
+  });
+
+  return Packer.toBlob(doc);
+};
@@ -0,0 +1,58 @@
+import { StructuredResume } from '../types';
+import { ResumeTemplate } from '../lib/templates';
+import { UnmappedField } from '../lib/structuredResume';
+import { toJsonResume } from '../lib/jsonResume';
+import { toEuropassXml } from '../lib/europass';
+import { ApiError } from './api';
+
+// --- Resume Export ---
+// The PDF and DOCX renderers are loaded on demand; together they outweigh the rest of the app.
+
+export type DocumentFormat = 'pdf' | 'docx' | 'md';
+
+// Machine-readable formats, written from the resume split into fields.
+export type StructuredFormat = 'jsonResume' | 'europass';
+
+export type ExportFormat = DocumentFormat | StructuredFormat;
+
+export const isStructuredFormat = (format: ExportFormat): format is StructuredFormat =>
+  format === 'jsonResume' || format === 'europass';
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Keeps letters in any script so Chinese titles survive; drops characters file systems reject.
+export const exportFileName = (title: string, ext: string) =>
+  `${title.trim().replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '') || 'resume'}.${ext}`;
+
+export const exportResume = async (markdown: string, template: ResumeTemplate, format: DocumentFormat, title: string) => {
+  try {
+    let blob: Blob;
+    if (format === 'pdf') blob = await (await import('./pdf')).renderPdf(markdown, template);
+    else if (format === 'docx') blob = await (await import('./docx')).renderDocx(markdown, template);
+    else blob = new Blob([markdown], { type: 'text/markdown;charset=utf-8' });
+    downloadBlob(blob, exportFileName(title, format));
+  } catch (e) {
+    throw new ApiError(0, (e as Error)?.message || String(e), 'export_failed');
+  }
+};
+
+/** Downloads the split resume in a structured format and returns what the format could not hold. */
+export const exportStructured = (resume: StructuredResume, format: StructuredFormat, title: string): UnmappedField[] => {
+  try {
+    const { content, unmapped } = format === 'jsonResume' ? toJsonResume(resume) : toEuropassXml(resume);
+    const blob = format === 'jsonResume'
+      ? new Blob([content], { type: 'application/json;charset=utf-8' })
+      : new Blob([content], { type: 'application/xml;charset=utf-8' });
+    downloadBlob(blob, exportFileName(title, format === 'jsonResume' ? 'json' : 'xml'));
+    return unmapped;
+  } catch (e) {
+    throw new ApiError(0, (e as Error)?.message || String(e), 'export_failed');
+  }
+};
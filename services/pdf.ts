@@ -0,0 +1,235 @@
+import { PDFDocument, PDFFont, PDFPage, PageSizes, StandardFonts, rgb } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import cjkRegularUrl from '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url';
+import cjkBoldUrl from '@expo-google-fonts/noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf?url';
+import { MdRun, parseMarkdown, runsToText } from '../lib/markdown';
+import { MM_TO_PT, ResumeTemplate } from '../lib/templates';
+
+// --- PDF Export ---
+// Lays the markdown out on real A4 pages with selectable text. The standard PDF
+// fonts only cover Latin-1, so resumes with CJK text embed a subset of Noto Sans SC.
+// The font files are bundled as assets and served by the app itself.
+
+// Characters the standard fonts can encode (Latin-1 plus the WinAnsi punctuation resumes use).
+const WIN_ANSI = /^[\t\n\r\x20-\x7e\xa0-\xff–—‘’‚“”„•…€™]*$/;
+// Scripts that break between any two characters rather than at spaces.
+const CJK_CHAR = '\\u2e80-\\u9fff\\uac00-\\ud7af\\uf900-\\ufaff\\uff00-\\uffef';
+const TOKEN = new RegExp(`\\s+|[${CJK_CHAR}]|[^\\s${CJK_CHAR}]+`, 'g');
+
+const BULLET_INDENT = 12;
+
+interface FontSet {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  boldItalic: PDFFont;
+}
+
+interface Piece {
+  text: string;
+  font: PDFFont;
+  width: number;
+}
+
+let cjkFontBytes: Promise<ArrayBuffer[]> | null = null;
+
+const loadCjkFonts = () => {
+  if (!cjkFontBytes) {
+    cjkFontBytes = Promise.all([cjkRegularUrl, cjkBoldUrl].map(async url => {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error(`Could not load the CJK font (${res.status}).`);
+      return res.arrayBuffer();
+    }));
+    cjkFontBytes.catch(() => { cjkFontBytes = null; });
+  }
+  return cjkFontBytes;
+};
+
+const embedFonts = async (doc: PDFDocument, template: ResumeTemplate, unicode: boolean): Promise<FontSet> => {
+  if (unicode) {
+    doc.registerFontkit(fontkit);
+    const [regularBytes, boldBytes] = await loadCjkFonts();
+    const regular = await doc.embedFont(regularBytes, { subset: true });
+    const bold = await doc.embedFont(boldBytes, { subset: true });
+    return { regular, bold, italic: regular, boldItalic: bold };
+  }
+  const names = template.font === 'serif'
+    ? [StandardFonts.TimesRoman, StandardFonts.TimesRomanBold, StandardFonts.TimesRomanItalic, StandardFonts.TimesRomanBoldItalic]
+    : [StandardFonts.Helvetica, StandardFonts.HelveticaBold, StandardFonts.HelveticaOblique, StandardFonts.HelveticaBoldOblique];
+  const [regular, bold, italic, boldItalic] = await Promise.all(names.map(n => doc.embedFont(n)));
+  return { regular, bold, italic, boldItalic };
+};
+
+const hexToRgb = (hex: string) => {
+  const n = parseInt(hex.slice(1), 16);
+  return rgb(((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255);
+};
+
+const pickFont = (fonts: FontSet, run: MdRun, forceBold: boolean) => {
+  const bold = forceBold || run.bold;
+  if (bold && run.italic) return fonts.boldItalic;
+  if (bold) return fonts.bold;
+  return run.italic ? fonts.italic : fonts.regular;
+};
+
+// Greedy line breaking over words (and single CJK characters).
+const wrap = (runs: MdRun[], fonts: FontSet, size: number, maxWidth: number, bold = false): Piece[][] => {
+  const lines: Piece[][] = [];
+  let line: Piece[] = [];
+  let width = 0;
+
+  const push = (text: string, font: PDFFont) => {
+    const w = font.widthOfTextAtSize(text, size);
+    const last = line[line.length - 1];
+    if (last && last.font === font) {
+      last.text += text;
+      last.width += w;
+    } else {
+      line.push({ text, font, width: w });
+    }
+    width += w;
+  };
+
+  const breakLine = () => {
+    const last = line[line.length - 1];
+    if (last) {
+      const trimmed = last.text.trimEnd();
+      width -= last.width - last.font.widthOfTextAtSize(trimmed, size);
+      last.width = last.font.widthOfTextAtSize(trimmed, size);
+      last.text = trimmed;
+    }
+    lines.push(line);
+    line = [];
+    width = 0;
+  };
+
+  for (const run of runs) {
+    const font = pickFont(fonts, run, bold);
+    for (const token of run.text.replace(/\t/g, ' ').match(TOKEN) ?? []) {
+      if (/^\s+$/.test(token)) {
+        if (line.length) push(' ', font);
+        continue;
+      }
+      const w = font.widthOfTextAtSize(token, size);
+      if (width + w > maxWidth && line.length) breakLine();
+      if (w <= maxWidth) {
+        push(token, font);
+        continue;
+      }
+      // A single token wider than the column (a long URL) is split by character.
+      for (const ch of token) {
+        if (width + font.widthOfTextAtSize(ch, size) > maxWidth && line.length) breakLine();
+        push(ch, font);
+      }
+    }
+  }
+  if (line.length) breakLine();
+  return lines;
+};
+
+const lineWidth = (line: Piece[]) => line.reduce((sum, p) => sum + p.width, 0);
+
+// Replaces characters the standard fonts cannot encode instead of failing the whole export.
+const toWinAnsi = (runs: MdRun[]): MdRun[] =>
+  runs.map(r => ({ ...r, text: [...r.text].map(ch => (WIN_ANSI.test(ch) ? ch : '?')).join('') }));
+
+export const renderPdf = async (markdown: string, template: ResumeTemplate): Promise<Blob> => {
+  const blocks = parseMarkdown(markdown);
+  const name = blocks.find(b => b.type === 'heading' && b.level === 1);
+  const unicode = !WIN_ANSI.test(markdown);
+  const doc = await PDFDocument.create();
+  doc.setTitle(name && name.type === 'heading' ? runsToText(name.runs) : 'Resume');
+  doc.setCreator("Don't Start From JD");
+  const fonts = await embedFonts(doc, template, unicode);
+
+  const [pageWidth, pageHeight] = PageSizes.A4;
+  const margin = template.margin * MM_TO_PT;
+  const contentWidth = pageWidth - margin * 2;
+  const textColor = hexToRgb(template.text);
+  const accentColor = hexToRgb(template.accent);
+
+  let page: PDFPage = doc.addPage(PageSizes.A4);
+  let y = pageHeight - margin;
+  const atTop = () => y === pageHeight - margin;
+
+  const ensure = (height: number) => {
+    if (y - height >= margin || atTop()) return;
+    page = doc.addPage(PageSizes.A4);
+    y = pageHeight - margin;
+  };
+
+  const gap = (points: number) => {
+    if (!atTop()) y -= points;
+  };
+
+  const drawLines = (
+    lines: Piece[][],
+    size: number,
+    opts: { color?: ReturnType<typeof rgb>; center?: boolean; indent?: number; marker?: string } = {}
+  ) => {
+    const lineBox = size * template.lineHeight;
+    const indent = opts.indent ?? 0;
+    lines.forEach((line, i) => {
+      ensure(lineBox);
+      const baseline = y - (lineBox - size) / 2 - size * 0.8;
+      let x = margin + indent + (opts.center ? (contentWidth - indent - lineWidth(line)) / 2 : 0);
+      if (i === 0 && opts.marker) {
+        page.drawText(opts.marker, { x: margin + 2, y: baseline, size, font: fonts.regular, color: opts.color ?? textColor });
+      }
+      for (const piece of line) {
+        page.drawText(piece.text, { x, y: baseline, size, font: piece.font, color: opts.color ?? textColor });
+        x += piece.width;
+      }
+      y -= lineBox;
+    });
+  };
+
+  const text = (runs: MdRun[]) => (unicode ? runs : toWinAnsi(runs));
+  let inHeader = true;
+
+  for (const block of blocks) {
+    if (block.type === 'heading' && block.level === 1) {
+      const lines = wrap(text(block.runs), fonts, template.nameSize, contentWidth, true);
+      drawLines(lines, template.nameSize, { color: accentColor, center: template.centerHeader });
+      y -= template.blockGap;
+    } else if (block.type === 'heading' && block.level === 2) {
+      inHeader = false;
+      const runs = template.uppercaseSections
+        ? block.runs.map(r => ({ ...r, text: r.text.toUpperCase() }))
+        : block.runs;
+      const lines = wrap(text(runs), fonts, template.sectionSize, contentWidth, true);
+      gap(template.sectionGap);
+      // Keep the heading together with at least two lines of its section.
+      ensure(lines.length * template.sectionSize * template.lineHeight + template.bodySize * template.lineHeight * 2);
+      drawLines(lines, template.sectionSize, { color: accentColor });
+      if (template.sectionRule) {
+        y -= 1;
+        page.drawLine({ start: { x: margin, y }, end: { x: pageWidth - margin, y }, thickness: 0.6, color: accentColor });
+      }
+      y -= template.blockGap;
+    } else if (block.type === 'heading') {
+      const lines = wrap(text(block.runs), fonts, template.subheadingSize, contentWidth, true);
+      gap(template.blockGap);
+      ensure(lines.length * template.subheadingSize * template.lineHeight + template.bodySize * template.lineHeight);
+      drawLines(lines, template.subheadingSize);
+    } else if (block.type === 'paragraph') {
+      const center = inHeader && template.centerHeader;
+      drawLines(wrap(text(block.runs), fonts, template.bodySize, contentWidth), template.bodySize, { center });
+      y -= template.blockGap;
+    } else if (block.type === 'list') {
+      block.items.forEach((item, i) => {
+        const lines = wrap(text(item), fonts, template.bodySize, contentWidth - BULLET_INDENT);
+        drawLines(lines, template.bodySize, { indent: BULLET_INDENT, marker: block.ordered ? `${i + 1}.` : '•' });
+      });
+      y -= template.blockGap;
+    } else {
+      ensure(template.blockGap * 2);
+      y -= template.blockGap;
+      page.drawLine({ start: { x: margin, y }, end: { x: pageWidth - margin, y }, thickness: 0.5, color: textColor });
+      y -= template.blockGap;
+    }
+  }
+
+  const bytes = await doc.save();
+  return new Blob([bytes], { type: 'application/pdf' });
+};
@@ -0,0 +1,161 @@
+import { DictationSession, DictationSessionHandlers, meterStream } from './speech';
+
+// --- Dictation by recording, for browsers without speech recognition ---
+
+// A chunk ends at the first pause once it is long enough, or at the limit mid-speech.
+const MIN_CHUNK_MS = 10_000;
+const MAX_CHUNK_MS = 30_000;
+const PAUSE_LEVEL = 0.04;
+const PAUSE_MS = 600;
+// Chunks quieter than this are not sent: transcription models tend to invent text for silence.
+const SILENT_RMS = 0.01;
+const SAMPLE_RATE = 16_000;
+
+export const isRecordingSupported = () =>
+  typeof window !== 'undefined' && typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+// Resolves with the text of one WAV chunk ('' for no speech).
+export type Transcriber = (wav: Blob) => Promise<string>;
+
+/** Re-encodes a recording as 16 kHz mono 16-bit WAV, the one format every backend accepts, and measures its level. */
+export const toWav = async (recording: Blob): Promise<{ wav: Blob; rms: number }> => {
+  const context = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await context.decodeAudioData(await recording.arrayBuffer());
+  } finally {
+    void context.close();
+  }
+  const offline = new OfflineAudioContext(1, Math.max(1, Math.ceil(decoded.duration * SAMPLE_RATE)), SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const samples = (await offline.startRendering()).getChannelData(0);
+
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const ascii = (offset: number, text: string) => [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  ascii(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  ascii(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  let sum = 0;
+  samples.forEach((value, i) => {
+    const clamped = Math.max(-1, Math.min(1, value));
+    sum += clamped * clamped;
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return { wav: new Blob([view.buffer], { type: 'audio/wav' }), rms: samples.length ? Math.sqrt(sum / samples.length) : 0 };
+};
+
+/**
+ * Records with MediaRecorder in chunks cut at pauses and transcribes them one at a time,
+ * in order, while recording goes on. After stopping, the status is `transcribing` until
+ * the last chunk is done. A chunk whose transcription fails is passed on with its audio.
+ */
+export const startRecordingSession = (
+  transcribe: Transcriber,
+  keepAudio: boolean,
+  handlers: DictationSessionHandlers
+): DictationSession => {
+  const startedAt = Date.now();
+  let active = true;
+  let level = 0;
+  let recorder: MediaRecorder | null = null;
+  let release = () => {};
+  let queue = Promise.resolve();
+
+  const drain = () => queue.then(() => handlers.onStatus('stopped'));
+
+  const enqueue = (recording: Blob, from: number, to: number) => {
+    queue = queue.then(async () => {
+      let chunk: { wav: Blob; rms: number };
+      try {
+        chunk = await toWav(recording);
+      } catch (e) {
+        console.error('Could not decode a recorded chunk', e);
+        return;
+      }
+      if (chunk.rms < SILENT_RMS) return;
+      try {
+        const text = await transcribe(chunk.wav);
+        if (text) handlers.onSegment(text, from, to, keepAudio ? chunk.wav : undefined);
+      } catch (e) {
+        console.error('Transcription failed', e);
+        handlers.onError('transcription-failed');
+        handlers.onSegment('', from, to, chunk.wav);
+      }
+    });
+  };
+
+  const record = (stream: MediaStream) => {
+    const chunkStart = Date.now();
+    const parts: Blob[] = [];
+    const current = new MediaRecorder(stream);
+    let quietSince: number | null = null;
+    const watch = window.setInterval(() => {
+      const now = Date.now();
+      quietSince = level < PAUSE_LEVEL ? quietSince ?? now : null;
+      const length = now - chunkStart;
+      const paused = quietSince !== null && now - quietSince >= PAUSE_MS;
+      if (current.state === 'recording' && (length >= MAX_CHUNK_MS || (length >= MIN_CHUNK_MS && paused))) current.stop();
+    }, 100);
+    current.ondataavailable = (e) => {
+      if (e.data.size) parts.push(e.data);
+    };
+    current.onstop = () => {
+      window.clearInterval(watch);
+      if (active) record(stream);
+      enqueue(new Blob(parts, { type: current.mimeType }), chunkStart, Date.now());
+      if (!active) {
+        release();
+        void drain();
+      }
+    };
+    recorder = current;
+    current.start();
+  };
+
+  navigator.mediaDevices.getUserMedia({ audio: true }).then(stream => {
+    if (!active) {
+      stream.getTracks().forEach(t => t.stop());
+      return;
+    }
+    const stopMeter = meterStream(stream, l => {
+      level = l;
+      handlers.onLevel(l);
+    });
+    release = () => {
+      stopMeter();
+      stream.getTracks().forEach(t => t.stop());
+    };
+    handlers.onStatus('listening');
+    record(stream);
+  }).catch((e: DOMException) => {
+    handlers.onError(e?.name === 'NotAllowedError' ? 'not-allowed' : 'audio-capture');
+    stop();
+  });
+
+  const stop = () => {
+    if (!active) return;
+    active = false;
+    if (recorder?.state === 'recording') {
+      handlers.onStatus('transcribing');
+      recorder.stop();
+    } else {
+      release();
+      void drain();
+    }
+  };
+
+  return { startedAt, stop };
+};
@@ -0,0 +1,31 @@
+import { DEFAULT_MODELS, ProviderSettings, WORKFLOW_STEPS } from '../llm/config';
+import { ProviderId } from '../llm/types';
+
+// --- Provider Settings (localStorage) ---
+
+const SETTINGS_KEY = 'dsfj.providerSettings';
+
+export const defaultSettings = (): ProviderSettings => ({
+  provider: 'gemini',
+  models: { ...DEFAULT_MODELS.gemini },
+  transcription: 'model',
+});
+
+export const loadSettings = (): ProviderSettings => {
+  const defaults = defaultSettings();
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!stored) return defaults;
+    const provider: ProviderId = typeof stored.provider === 'string' && Object.hasOwn(DEFAULT_MODELS, stored.provider) ? stored.provider : defaults.provider;
+    const models = Object.fromEntries(
+      WORKFLOW_STEPS.map(s => [s, stored.models?.[s] || DEFAULT_MODELS[provider][s]])
+    ) as ProviderSettings['models'];
+    return { provider, models, transcription: stored.transcription === 'whisper' ? 'whisper' : 'model' };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,211 @@
+import { Language } from '../types';
+
+// --- Short dictation through the browser's Web Speech API ---
+
+const recognitionClass = (): any =>
+  typeof window === 'undefined' ? null : (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition || null;
+
+export const isSpeechSupported = () => !!recognitionClass();
+
+export interface DictationHandlers {
+  // Recognized text, once per finished phrase.
+  onFinal: (text: string) => void;
+  // The phrase still being spoken; empty once it is final.
+  onInterim: (text: string) => void;
+  onEnd: () => void;
+}
+
+/** Starts listening and returns a function that stops it. */
+export const startDictation = (lang: Language, handlers: DictationHandlers): (() => void) => {
+  const Recognition = recognitionClass();
+  if (!Recognition) {
+    handlers.onEnd();
+    return () => {};
+  }
+  const recognition = new Recognition();
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  recognition.lang = lang === 'en' ? 'en-US' : 'zh-CN';
+
+  recognition.onresult = (event: any) => {
+    let final = '';
+    let interim = '';
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const transcript = event.results[i][0].transcript;
+      if (event.results[i].isFinal) final += transcript;
+      else interim += transcript;
+    }
+    if (final) handlers.onFinal(final);
+    handlers.onInterim(interim);
+  };
+  recognition.onerror = (event: any) => console.error('Speech recognition error', event.error);
+  recognition.onend = () => {
+    handlers.onInterim('');
+    handlers.onEnd();
+  };
+  recognition.start();
+  return () => recognition.stop();
+};
+
+// --- Long-form dictation sessions ---
+
+// Chrome ends recognition after about a minute of silence or a few minutes of speech,
+// so a session restarts it until stopped. Network drops back off before retrying.
+const RESTART_DELAY_MS = 250;
+const NETWORK_RETRY_MS = [1000, 2000, 4000, 8000, 15000];
+
+// Errors that restarting cannot fix.
+const FATAL_ERRORS = ['not-allowed', 'service-not-allowed', 'audio-capture', 'language-not-supported'];
+
+// `transcribing`: a recorded session has stopped listening but is still transcribing its last chunks.
+export type DictationStatus = 'listening' | 'silent' | 'reconnecting' | 'transcribing' | 'stopped';
+
+export interface DictationSessionHandlers {
+  // One finished phrase, with the times (epoch ms) its first and last words were heard.
+  // Recorded sessions also pass the phrase's audio when it is kept, and always when it failed.
+  onSegment: (text: string, startedAt: number, endedAt: number, audio?: Blob) => void;
+  onInterim: (text: string) => void;
+  // Microphone loudness between 0 and 1, a few times a second.
+  onLevel: (level: number) => void;
+  onStatus: (status: DictationStatus) => void;
+  // An error code. The session stops after fatal ones and reports that through onStatus.
+  onError: (code: string) => void;
+}
+
+export interface DictationSession {
+  startedAt: number;
+  stop: () => void;
+}
+
+/** Reports the loudness of a microphone stream until the returned function is called. */
+export const meterStream = (stream: MediaStream, onLevel: (level: number) => void): (() => void) => {
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  context.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Uint8Array(analyser.fftSize);
+  const timer = window.setInterval(() => {
+    analyser.getByteTimeDomainData(samples);
+    let sum = 0;
+    for (const s of samples) sum += ((s - 128) / 128) ** 2;
+    onLevel(Math.min(1, Math.sqrt(sum / samples.length) * 4));
+  }, 100);
+  return () => {
+    window.clearInterval(timer);
+    void context.close();
+    onLevel(0);
+  };
+};
+
+// Reads the microphone level through a separate stream, since recognition exposes none.
+const startLevelMeter = (onLevel: (level: number) => void): (() => void) => {
+  let stopped = false;
+  let cleanup = () => {};
+  navigator.mediaDevices?.getUserMedia({ audio: true }).then(stream => {
+    if (stopped) {
+      stream.getTracks().forEach(t => t.stop());
+      return;
+    }
+    const stopMeter = meterStream(stream, onLevel);
+    cleanup = () => {
+      stopMeter();
+      stream.getTracks().forEach(t => t.stop());
+    };
+  }).catch(() => onLevel(0));
+  return () => {
+    stopped = true;
+    cleanup();
+  };
+};
+
+/**
+ * Dictates until stopped: restarts recognition whenever the browser ends it, waits out
+ * `no-speech` and retries `network` errors with backoff. Only permission and device
+ * errors end the session early.
+ */
+export const startDictationSession = (lang: Language, handlers: DictationSessionHandlers): DictationSession => {
+  const startedAt = Date.now();
+  const Recognition = recognitionClass();
+  if (!Recognition) {
+    handlers.onError('not-supported');
+    handlers.onStatus('stopped');
+    return { startedAt, stop: () => {} };
+  }
+
+  let active = true;
+  let networkFailures = 0;
+  let phraseStart: number | null = null;
+  let restartTimer: number | undefined;
+  const stopMeter = startLevelMeter(handlers.onLevel);
+  const recognition = new Recognition();
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  recognition.lang = lang === 'en' ? 'en-US' : 'zh-CN';
+
+  const finish = () => {
+    if (!active) return;
+    active = false;
+    window.clearTimeout(restartTimer);
+    stopMeter();
+    handlers.onInterim('');
+    handlers.onStatus('stopped');
+    try {
+      recognition.stop();
+    } catch {
+      // Already ended.
+    }
+  };
+
+  const launch = () => {
+    if (!active) return;
+    try {
+      recognition.start();
+    } catch {
+      // Still shutting down from the last run; try again shortly.
+      restartTimer = window.setTimeout(launch, RESTART_DELAY_MS);
+    }
+  };
+
+  recognition.onstart = () => handlers.onStatus(networkFailures ? 'reconnecting' : 'listening');
+  recognition.onresult = (event: any) => {
+    networkFailures = 0;
+    handlers.onStatus('listening');
+    phraseStart ??= Date.now();
+    let interim = '';
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const transcript = event.results[i][0].transcript;
+      if (event.results[i].isFinal) {
+        if (transcript.trim()) handlers.onSegment(transcript.trim(), phraseStart ?? Date.now(), Date.now());
+        phraseStart = null;
+      } else {
+        interim += transcript;
+      }
+    }
+    handlers.onInterim(interim);
+  };
+  recognition.onerror = (event: any) => {
+    if (event.error === 'no-speech') handlers.onStatus('silent');
+    else if (event.error === 'network') {
+      networkFailures++;
+      handlers.onStatus('reconnecting');
+    } else if (FATAL_ERRORS.includes(event.error)) {
+      handlers.onError(event.error);
+      finish();
+    } else if (event.error !== 'aborted') console.error('Speech recognition error', event.error);
+  };
+  recognition.onend = () => {
+    // A phrase cut off by the restart is lost anyway; start the next one clean.
+    phraseStart = null;
+    handlers.onInterim('');
+    if (!active) return;
+    if (networkFailures > NETWORK_RETRY_MS.length) {
+      handlers.onError('network');
+      finish();
+      return;
+    }
+    restartTimer = window.setTimeout(launch, networkFailures ? NETWORK_RETRY_MS[networkFailures - 1] : RESTART_DELAY_MS);
+  };
+
+  launch();
+  return { startedAt, stop: finish };
+};
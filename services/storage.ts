@@ -0,0 +1,222 @@
+import { AnalysisResult, Critique, ExperienceDocument, JobApplication, Language } from '../types';
+import { createApplication, defaultApplicationTitle, emptyCoverLetter } from '../lib/applications';
+import { DEFAULT_TEMPLATE_ID } from '../lib/templates';
+import { emptyProfile } from '../lib/profile';
+import { appendVersion } from '../lib/versions';
+
+// --- Local Workspace Persistence (IndexedDB) ---
+
+const DB_NAME = 'dont-start-from-jd';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+const ACTIVE_SESSION_KEY = 'dsfj.activeSessionId';
+
+// Bump when the snapshot shape changes and add a step to `migrateSnapshot`.
+export const SNAPSHOT_VERSION = 13;
+
+export interface WorkspaceSnapshot {
+  step: number;
+  lang: Language;
+  rawText: string;
+  experienceDoc: ExperienceDocument;
+  // Entries from LinkedIn and JSON Resume imports, merged into every brainstorm result.
+  structuredProfile: ExperienceDocument;
+  applications: JobApplication[];
+  activeApplicationId: string | null;
+}
+
+// v1 kept a single job's state inline next to the profile.
+interface SnapshotV1 {
+  step: number;
+  lang: Language;
+  rawText: string;
+  experienceDoc: ExperienceDocument;
+  jd: string;
+  analysis: AnalysisResult | null;
+  resumeDraft: string;
+  critiques: Critique[];
+  finalResume: string;
+}
+
+export interface SessionRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  version: number;
+  snapshot: WorkspaceSnapshot;
+}
+
+export type SessionSummary = Omit<SessionRecord, 'snapshot'>;
+
+// Upgrades a stored record to the current snapshot shape, one version step at a time.
+const migrateSnapshot = (record: SessionRecord): SessionRecord => {
+  if (record.version > SNAPSHOT_VERSION) {
+    throw new Error(`Session ${record.id} was saved by a newer version of the app.`);
+  }
+  let snapshot: unknown = record.snapshot;
+  if (record.version < 2) {
+    const { jd, analysis, resumeDraft, critiques, finalResume, ...rest } = snapshot as SnapshotV1;
+    const application: JobApplication = {
+      ...createApplication(defaultApplicationTitle(rest.lang, 1)),
+      createdAt: record.createdAt,
+      jd, analysis, resumeDraft, critiques, finalResume
+    };
+    snapshot = { ...rest, applications: [application], activeApplicationId: application.id };
+  }
+  if (record.version < 3) {
+    // v3 added a resume template per application.
+    const v2 = snapshot as WorkspaceSnapshot;
+    snapshot = { ...v2, applications: v2.applications.map(a => ({ ...a, templateId: DEFAULT_TEMPLATE_ID })) };
+  }
+  if (record.version < 4) {
+    // v4 tracks whether the draft or the hand-edited final resume feeds the next polish.
+    const v3 = snapshot as WorkspaceSnapshot;
+    snapshot = { ...v3, applications: v3.applications.map(a => ({ ...a, polishSource: 'draft' })) };
+  }
+  if (record.version < 5) {
+    // v5 remembers which flagged resume claims the user confirmed.
+    const v4 = snapshot as WorkspaceSnapshot;
+    snapshot = { ...v4, applications: v4.applications.map(a => ({ ...a, confirmedClaims: [] })) };
+  }
+  if (record.version < 6) {
+    // v6 records what the user did about each critique.
+    const v5 = snapshot as WorkspaceSnapshot;
+    snapshot = { ...v5, applications: v5.applications.map(a => ({ ...a, critiqueResolutions: {} })) };
+  }
+  if (record.version < 7) {
+    // v7 keeps a version history; the texts saved so far become its first entries.
+    const v6 = snapshot as WorkspaceSnapshot;
+    snapshot = {
+      ...v6,
+      applications: v6.applications.map(a => {
+        let versions = appendVersion([], { target: 'draft', source: 'draft', markdown: a.resumeDraft });
+        versions = appendVersion(versions, { target: 'final', source: 'polish', markdown: a.finalResume }, a.resumeDraft);
+        return { ...a, versions };
+      })
+    };
+  }
+  if (record.version < 8) {
+    // v8 adds the Step 4 refinement chat.
+    const v7 = snapshot as WorkspaceSnapshot;
+    snapshot = { ...v7, applications: v7.applications.map(a => ({ ...a, refineChat: [] })) };
+  }
+  if (record.version < 9) {
+    // v9 adds the cover letter.
+    const v8 = snapshot as WorkspaceSnapshot;
+    snapshot = { ...v8, applications: v8.applications.map(a => ({ ...a, coverLetter: emptyCoverLetter() })) };
+  }
+  if (record.version < 10) {
+    // v10 adds the interview prep pack.
+    const v9 = snapshot as WorkspaceSnapshot;
+    snapshot = { ...v9, applications: v9.applications.map(a => ({ ...a, interviewPrep: { questions: [], attempts: {} } })) };
+  }
+  if (record.version < 11) {
+    // v11 keeps the structure of imported JDs.
+    const v10 = snapshot as WorkspaceSnapshot;
+    snapshot = { ...v10, applications: v10.applications.map(a => ({ ...a, jobPosting: null })) };
+  }
+  if (record.version < 12) {
+    // v12 tags profile entries with the sources they were taken from.
+    const v11 = snapshot as WorkspaceSnapshot;
+    const doc = v11.experienceDoc;
+    snapshot = {
+      ...v11,
+      experienceDoc: {
+        ...doc,
+        experiences: doc.experiences.map(e => ({ ...e, sources: [] })),
+        education: doc.education.map(e => ({ ...e, sources: [] }))
+      }
+    };
+  }
+  if (record.version < 13) {
+    // v13 keeps structured imports apart from the brainstormed profile.
+    snapshot = { ...(snapshot as WorkspaceSnapshot), structuredProfile: emptyProfile() };
+  }
+  return { ...record, version: SNAPSHOT_VERSION, snapshot: snapshot as WorkspaceSnapshot };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = op(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const newId = () => crypto.randomUUID();
+
+export const defaultSessionName = (lang: Language) =>
+  `${lang === 'zh' ? '会话' : 'Session'} ${new Date().toLocaleString(lang === 'zh' ? 'zh-CN' : 'en-US')}`;
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const records = await run<SessionRecord[]>('readonly', store => store.getAll());
+  return records
+    .map(({ snapshot, ...summary }) => summary)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: string): Promise<SessionRecord | null> => {
+  const record = await run<SessionRecord | undefined>('readonly', store => store.get(id));
+  return record ? migrateSnapshot(record) : null;
+};
+
+export const createSession = async (name: string, snapshot: WorkspaceSnapshot): Promise<SessionRecord> => {
+  const now = Date.now();
+  const record: SessionRecord = { id: newId(), name, createdAt: now, updatedAt: now, version: SNAPSHOT_VERSION, snapshot };
+  await run('readwrite', store => store.put(record));
+  return record;
+};
+
+export const saveSnapshot = async (id: string, snapshot: WorkspaceSnapshot): Promise<void> => {
+  const existing = await run<SessionRecord | undefined>('readonly', store => store.get(id));
+  if (!existing) return;
+  await run('readwrite', store => store.put({ ...existing, version: SNAPSHOT_VERSION, snapshot, updatedAt: Date.now() }));
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const existing = await run<SessionRecord | undefined>('readonly', store => store.get(id));
+  if (!existing) return;
+  await run('readwrite', store => store.put({ ...existing, name, updatedAt: Date.now() }));
+};
+
+export const duplicateSession = async (id: string, suffix: string): Promise<SessionRecord | null> => {
+  const existing = await loadSession(id);
+  if (!existing) return null;
+  return createSession(`${existing.name} ${suffix}`, existing.snapshot);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+  if (getActiveSessionId() === id) setActiveSessionId(null);
+};
+
+export const getActiveSessionId = (): string | null => localStorage.getItem(ACTIVE_SESSION_KEY);
+
+export const setActiveSessionId = (id: string | null) => {
+  if (id) localStorage.setItem(ACTIVE_SESSION_KEY, id);
+  else localStorage.removeItem(ACTIVE_SESSION_KEY);
+};
@@ -0,0 +1,192 @@
+// --- Shared Types ---
+
+export type Language = 'en' | 'zh';
+
+export interface ContactInfo {
+  name: string;
+  email: string;
+  phone: string;
+  location: string;
+  links: string[];
+}
+
+export interface Experience {
+  role: string;
+  company: string;
+  duration: string;
+  details: string[];
+  // Names of the imported files (or "notes") this entry was taken from.
+  sources: string[];
+}
+
+export interface Education {
+  school: string;
+  degree: string;
+  duration: string;
+  details: string[];
+  sources: string[];
+}
+
+// The structured "Experience Document" every later step works from.
+export interface ExperienceDocument {
+  contact: ContactInfo;
+  summary: string;
+  experiences: Experience[];
+  education: Education[];
+  skills: string[];
+  certifications: string[];
+}
+
+// A job posting cleaned of page chrome and boilerplate, reviewable before the Fit Check.
+export interface StructuredJd {
+  title: string;
+  company: string;
+  location: string;
+  seniority: string;
+  mustHaves: string[];
+  niceToHaves: string[];
+  responsibilities: string[];
+}
+
+// The final resume split into fields for structured export. Dates are "YYYY-MM" or "YYYY".
+export interface StructuredResume {
+  name: string;
+  headline: string;
+  email: string;
+  phone: string;
+  location: string;
+  links: string[];
+  summary: string;
+  work: { position: string; employer: string; location: string; startDate: string; endDate: string; current: boolean; highlights: string[] }[];
+  education: { institution: string; qualification: string; field: string; startDate: string; endDate: string; details: string[] }[];
+  skills: string[];
+  languages: { language: string; level: string }[];
+  certifications: { name: string; issuer: string; date: string }[];
+  projects: { name: string; description: string; highlights: string[] }[];
+  awards: { title: string; awarder: string; date: string }[];
+  // Sections none of the fields above fit, kept so exports can report them.
+  other: { section: string; lines: string[] }[];
+}
+
+export interface AnalysisResult {
+  score: number;
+  dnaComparison: { dna: string; jd: string }[];
+  pros: string[];
+  cons: string[];
+  conclusion: 'Go for it' | 'Stretch goal' | 'Pivot needed' | '大胆冲' | '够一够' | '需要转行';
+  alternatives: string[];
+}
+
+export interface Critique {
+  level: 'fatal' | 'important' | 'minor';
+  text: string;
+  suggestion: string;
+}
+
+// What the user did about one critique. Keyed by critique text, so it outlives the draft it came from.
+export interface CritiqueResolution {
+  status: 'applied' | 'dismissed' | 'answered';
+  // The reason for a dismissal, or the evidence given in an answer.
+  note: string;
+}
+
+// One generated or restored resume text, kept so iterations can be compared and restored.
+export interface ResumeVersion {
+  id: string;
+  // Shown as "v3"; increases within an application and is never reused.
+  number: number;
+  createdAt: number;
+  // The Step 3 draft or the Step 4 final resume.
+  target: 'draft' | 'final';
+  // What produced it. 'edit' keeps hand edits that a restore would otherwise overwrite.
+  source: 'draft' | 'polish' | 'condense' | 'fix' | 'refine' | 'edit';
+  markdown: string;
+  // The version it was generated from, if that text was itself a version.
+  parentId: string | null;
+  // Prompt inputs: the extra info typed for a polish (or the chat instruction), and the critiques it addressed.
+  additionalInfo: string;
+  critiques: string[];
+}
+
+// One message of the Step 4 refinement chat. Model turns point at the revision they produced.
+export interface RefineTurn {
+  role: 'user' | 'model';
+  text: string;
+  versionId?: string;
+}
+
+export type CoverLetterTone = 'formal' | 'warm' | 'confident';
+export type CoverLetterLength = 'short' | 'standard' | 'detailed';
+
+// The cover letter for one application, with its own critiques and what the user did about them.
+export interface CoverLetter {
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+  markdown: string;
+  critiques: Critique[];
+  critiqueResolutions: Record<string, CritiqueResolution>;
+}
+
+// Points for a STAR answer, drawn only from the Experience Document.
+export interface StarOutline {
+  situation: string;
+  task: string;
+  action: string;
+  result: string;
+}
+
+export interface InterviewQuestion {
+  id: string;
+  // Whether it probes a JD requirement or a weakness the Fit Check found.
+  kind: 'requirement' | 'weakness';
+  topic: string;
+  question: string;
+  outline: StarOutline;
+}
+
+export interface AnswerFeedback {
+  // 1 to 10.
+  score: number;
+  strengths: string[];
+  improvements: string[];
+}
+
+// One spoken or typed practice answer and the feedback it got.
+export interface PracticeAttempt {
+  answer: string;
+  feedback: AnswerFeedback;
+  createdAt: number;
+}
+
+export interface InterviewPrep {
+  questions: InterviewQuestion[];
+  // Keyed by question id, oldest first.
+  attempts: Record<string, PracticeAttempt[]>;
+}
+
+export type TemplateId = 'classic' | 'modern' | 'compact';
+
+// One targeted job: everything downstream of the master profile lives here.
+export interface JobApplication {
+  id: string;
+  title: string;
+  createdAt: number;
+  jd: string;
+  // Set when the JD was imported; edits to it are written back to `jd`.
+  jobPosting: StructuredJd | null;
+  analysis: AnalysisResult | null;
+  resumeDraft: string;
+  critiques: Critique[];
+  finalResume: string;
+  templateId: TemplateId;
+  // Which text the next polish starts from: whichever the user edited by hand last.
+  polishSource: 'draft' | 'final';
+  // Resume text the user vouched for: flagged claims they confirmed and lines they
+  // completed by answering a missing-data question.
+  confirmedClaims: string[];
+  critiqueResolutions: Record<string, CritiqueResolution>;
+  versions: ResumeVersion[];
+  refineChat: RefineTurn[];
+  coverLetter: CoverLetter;
+  interviewPrep: InterviewPrep;
+}
@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiPlugin } from './server';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,11 +10,19 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [
+        react(),
+        apiPlugin({
+          geminiApiKey: env.GEMINI_API_KEY,
+          openaiBaseUrl: env.OPENAI_BASE_URL,
+          openaiApiKey: env.OPENAI_API_KEY,
+          whisperBaseUrl: env.WHISPER_BASE_URL,
+          whisperApiKey: env.WHISPER_API_KEY,
+          whisperModel: env.WHISPER_MODEL,
+          rateLimitPerMinute: Number(env.RATE_LIMIT_PER_MINUTE) || 30,
+          trustProxy: env.TRUST_PROXY === 'true',
+        }),
+      ],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),